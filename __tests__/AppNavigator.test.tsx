@@ -0,0 +1,130 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { AxiosAdapter } from 'axios';
+import { SafeAreaProvider } from 'react-native-safe-area-context';
+import api from '../src/api';
+import { AuthProvider, useAuth } from '../src/context/AuthContext';
+import { FlightProvider } from '../src/context/FlightContext';
+import AppNavigator from '../src/navigation/AppNavigator';
+import { navigationRef } from '../src/navigation/navigationRef';
+import authService from '../src/services/authService';
+import { FlightSearchRequest } from '../src/types/flight';
+
+// Stand-in backend: logs anyone in and answers every other request with
+// nothing, or with a 401 once the session is rejected
+const backend = { isSessionRejected: false };
+const adapter: AxiosAdapter = async config => {
+  if (backend.isSessionRejected && config.url !== '/auth/login') {
+    const response = { data: { message: 'Unauthorized' }, status: 401, statusText: 'Unauthorized', headers: {}, config };
+    throw Object.assign(new Error('Unauthorized'), { isAxiosError: true, response, config });
+  }
+  const data = config.url === '/auth/login'
+    ? { user: { _id: 'user-1', name: 'Ada', email: 'ada@example.com' }, access_token: 'token-1' }
+    : { data: [] };
+  return { data, status: 200, statusText: 'OK', headers: {}, config };
+};
+
+const searchRequest: FlightSearchRequest = {
+  originLocationCode: 'JFK',
+  destinationLocationCode: 'LHR',
+  originEntityId: '95565058',
+  destinationEntityId: '95565050',
+  departureDate: '2027-03-01',
+  adults: 1,
+};
+
+// Let the stored session load and the screens settle
+const settle = () => ReactTestRenderer.act(() => new Promise<void>(resolve => setTimeout(resolve, 50)));
+
+// Without metrics the provider waits for a native measurement before rendering
+const METRICS = { frame: { x: 0, y: 0, width: 390, height: 844 }, insets: { top: 0, left: 0, right: 0, bottom: 0 } };
+
+const getRouteNames = () => navigationRef.getRootState().routes.map(route => route.name);
+
+describe('AppNavigator', () => {
+  let auth: ReturnType<typeof useAuth>;
+  let renderer: ReactTestRenderer.ReactTestRenderer;
+
+  // Hands the test the auth context the navigator sees
+  const AuthProbe = () => {
+    auth = useAuth();
+    return null;
+  };
+
+  const render = async () => {
+    await ReactTestRenderer.act(async () => {
+      renderer = ReactTestRenderer.create(
+        <SafeAreaProvider initialMetrics={METRICS}>
+          <AuthProvider>
+            <FlightProvider>
+              <AuthProbe />
+              <AppNavigator />
+            </FlightProvider>
+          </AuthProvider>
+        </SafeAreaProvider>,
+      );
+    });
+    await settle();
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    api.defaults.adapter = adapter;
+    backend.isSessionRejected = false;
+    await authService.logout();
+  });
+
+  afterEach(async () => {
+    await ReactTestRenderer.act(() => renderer.unmount());
+    jest.restoreAllMocks();
+  });
+
+  test('swaps the auth stack for the app stack when the user signs in and out', async () => {
+    await render();
+    expect(getRouteNames()).toEqual(['Landing']);
+
+    await ReactTestRenderer.act(() => auth.login('ada@example.com', 'secret'));
+    expect(getRouteNames()).toEqual(['Home']);
+
+    await ReactTestRenderer.act(() => auth.logout());
+    expect(getRouteNames()).toEqual(['Landing']);
+  });
+
+  test('asks the user to sign in again when the session expires', async () => {
+    await render();
+    await ReactTestRenderer.act(() => auth.login('ada@example.com', 'secret'));
+
+    await ReactTestRenderer.act(() => authService.expireSession());
+
+    expect(auth.error?.kind).toBe('auth_expired');
+    expect(getRouteNames()).toEqual(['Landing', 'Login']);
+  });
+
+  test('reopens the interrupted search after the user signs in again', async () => {
+    await render();
+    await ReactTestRenderer.act(() => auth.login('ada@example.com', 'secret'));
+    await ReactTestRenderer.act(async () => {
+      navigationRef.navigate('FlightResults', { searchRequest });
+    });
+    await settle();
+
+    backend.isSessionRejected = true;
+    await ReactTestRenderer.act(async () => {
+      await api.get('/flights/search-airports').catch(() => undefined);
+    });
+    await settle();
+    expect(getRouteNames()).toEqual(['Landing', 'Login']);
+
+    backend.isSessionRejected = false;
+    await ReactTestRenderer.act(() => auth.login('ada@example.com', 'secret'));
+    await settle();
+
+    expect(getRouteNames()).toEqual(['Home', 'FlightResults']);
+    expect(navigationRef.getCurrentRoute()?.params).toEqual({ searchRequest });
+  });
+});
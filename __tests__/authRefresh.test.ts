@@ -0,0 +1,162 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import api from '../src/api';
+import authService from '../src/services/authService';
+import travelerProfileService from '../src/services/travelerProfileService';
+import { AuthExpiredError } from '../src/api/errors';
+import { getSecureItem } from '../src/utils/secureStorage';
+
+const BASE64URL = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+// ASCII-only base64url encoder, enough for test payloads
+const encode = (value: object) => {
+  const bits = Array.from(JSON.stringify(value))
+    .map(char => char.charCodeAt(0).toString(2).padStart(8, '0'))
+    .join('');
+  return (bits.match(/.{1,6}/g) || [])
+    .map(chunk => BASE64URL[parseInt(chunk.padEnd(6, '0'), 2)])
+    .join('');
+};
+
+const createJwt = (expiresInSeconds: number, id: string) => {
+  const exp = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ sub: 'user-1', exp, id })}.signature`;
+};
+
+// Stand-in for the auth backend: tokens are valid until the backend rotates them
+const createBackend = () => {
+  const state = {
+    validToken: '',
+    refreshCalls: 0,
+    rejectRefresh: false,
+    loginExpiresIn: 3600,
+  };
+
+  const reply = (config: InternalAxiosRequestConfig, status: number, data: any): AxiosResponse => {
+    const response = { data, status, statusText: String(status), headers: {}, config };
+    if (status >= 400) {
+      throw new AxiosError('Request failed', undefined, config, null, response);
+    }
+    return response;
+  };
+
+  const adapter: AxiosAdapter = async config => {
+    const body = config.data ? JSON.parse(config.data) : {};
+    switch (config.url) {
+      case '/auth/login':
+        state.validToken = createJwt(state.loginExpiresIn, 'login');
+        return reply(config, 200, {
+          user: { _id: 'user-1', name: 'Test', email: body.email },
+          access_token: state.validToken,
+          refresh_token: 'refresh-1',
+        });
+      case '/auth/refresh':
+        state.refreshCalls += 1;
+        // Let concurrent requests pile up behind the refresh
+        await new Promise<void>(resolve => setTimeout(resolve, 10));
+        if (state.rejectRefresh || body.refresh_token !== 'refresh-1') {
+          return reply(config, 401, { message: 'Invalid refresh token' });
+        }
+        state.validToken = createJwt(3600, `refresh-${state.refreshCalls}`);
+        return reply(config, 200, { access_token: state.validToken });
+      default: {
+        const authorization = config.headers.get('Authorization');
+        if (authorization !== `Bearer ${state.validToken}`) {
+          return reply(config, 401, { message: 'Unauthorized' });
+        }
+        return reply(config, 200, { data: [] });
+      }
+    }
+  };
+
+  return { adapter, state };
+};
+
+describe('access token refresh', () => {
+  let backend: ReturnType<typeof createBackend>;
+
+  beforeEach(async () => {
+    backend = createBackend();
+    api.defaults.adapter = backend.adapter;
+    await authService.logout();
+  });
+
+  test('stores the tokens in secure storage on login', async () => {
+    const response = await authService.login({ email: 'test@example.com', password: 'secret' });
+    expect(response.refresh_token).toBe('refresh-1');
+    expect(await getSecureItem('@gflights_refresh_token')).toBe('refresh-1');
+    expect(await getSecureItem('@gflights_token')).toBe(backend.state.validToken);
+    expect(await AsyncStorage.getItem('@gflights_refresh_token')).toBeNull();
+    expect(await AsyncStorage.getItem('@gflights_token')).toBeNull();
+  });
+
+  test('moves tokens an older version stored in AsyncStorage', async () => {
+    const token = createJwt(3600, 'legacy');
+    await AsyncStorage.multiSet([
+      ['@gflights_token', token],
+      ['@gflights_refresh_token', 'refresh-1'],
+      ['@gflights_user', JSON.stringify({ _id: 'user-1', name: 'Test', email: 'test@example.com' })],
+    ]);
+
+    expect(await authService.initializeAuth()).toBe(true);
+
+    expect(authService.getToken()).toBe(token);
+    expect(await getSecureItem('@gflights_token')).toBe(token);
+    expect(await getSecureItem('@gflights_refresh_token')).toBe('refresh-1');
+    expect(await AsyncStorage.getItem('@gflights_token')).toBeNull();
+    expect(await AsyncStorage.getItem('@gflights_refresh_token')).toBeNull();
+  });
+
+  test('refreshes once for concurrent 401s and replays every request', async () => {
+    await authService.login({ email: 'test@example.com', password: 'secret' });
+    // Backend revokes the access token server-side
+    backend.state.validToken = createJwt(3600, 'server-side');
+
+    const responses = await Promise.all([
+      api.get('/flights/search-airports'),
+      api.get('/flights/nearby-airports'),
+      api.get('/flights/price-calendar'),
+    ]);
+
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+    expect(backend.state.refreshCalls).toBe(1);
+    expect(authService.getToken()).toBe(backend.state.validToken);
+  });
+
+  test('refreshes proactively when the token is about to expire', async () => {
+    backend.state.loginExpiresIn = 30;
+    await authService.login({ email: 'test@example.com', password: 'secret' });
+
+    await api.get('/flights/search-airports');
+
+    expect(backend.state.refreshCalls).toBe(1);
+  });
+
+  test('expires the session when the refresh is rejected', async () => {
+    await authService.login({ email: 'test@example.com', password: 'secret' });
+    backend.state.validToken = createJwt(3600, 'server-side');
+    backend.state.rejectRefresh = true;
+    const onExpired = jest.fn();
+    const unsubscribe = authService.onSessionExpired(onExpired);
+    const clearProfiles = jest.spyOn(travelerProfileService, 'clearProfiles');
+
+    await expect(api.get('/flights/search-airports')).rejects.toBeInstanceOf(AuthExpiredError);
+
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(authService.isAuthenticated()).toBe(false);
+    // Unsynced profile changes wait for the user to sign in again
+    expect(clearProfiles).not.toHaveBeenCalled();
+    clearProfiles.mockRestore();
+    unsubscribe();
+  });
+
+  test('forgets the user\'s traveler profiles on logout', async () => {
+    await authService.login({ email: 'test@example.com', password: 'secret' });
+    const clearProfiles = jest.spyOn(travelerProfileService, 'clearProfiles');
+
+    await authService.logout();
+
+    expect(clearProfiles).toHaveBeenCalledWith('user-1');
+    clearProfiles.mockRestore();
+  });
+});
@@ -0,0 +1,166 @@
+import { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import api from '../src/api';
+import { TimeoutError, ValidationError } from '../src/api/errors';
+import flightService from '../src/services/flightService';
+import { BookingContact, BookingTraveler } from '../src/types/flight';
+import { validateTravelers } from '../src/utils/travelers';
+import {
+  createFlight,
+  createItinerary,
+  createOffer as createBaseOffer,
+  createPrice,
+  createTravelerPricing,
+} from './fixtures/offers';
+
+const createOffer = (total: string) => createBaseOffer({
+  itineraries: [
+    createItinerary([createFlight('JFK', '2026-12-01T18:00:00', 'LHR', '2026-12-02T06:00:00')]),
+    createItinerary([createFlight('LHR', '2027-01-10T11:00:00', 'JFK', '2027-01-10T14:00:00')]),
+  ],
+  price: createPrice(total),
+  travelerPricings: ['ADULT', 'CHILD', 'HELD_INFANT'].map((travelerType, index) => createTravelerPricing({
+    travelerId: String(index + 1),
+    travelerType,
+  })),
+});
+
+const traveler = (id: string, travelerType: string, dateOfBirth: string): BookingTraveler => ({
+  id,
+  travelerType,
+  firstName: 'Ada',
+  lastName: "O'Neil",
+  dateOfBirth,
+  gender: 'FEMALE',
+});
+
+const travelers = [
+  traveler('1', 'ADULT', '1985-04-12'),
+  traveler('2', 'CHILD', '2018-06-30'),
+  traveler('3', 'HELD_INFANT', '2025-03-01'),
+];
+const contact: BookingContact = { email: 'ada@example.com', phoneCountryCode: '+44', phoneNumber: '7700 900123' };
+
+// Stand-in for the booking backend: prices offers at a fixed total and
+// issues a record locator, or fails as told
+const createBackend = (pricedTotal: string, failWith?: string) => {
+  const requests: InternalAxiosRequestConfig[] = [];
+
+  const adapter: AxiosAdapter = async config => {
+    requests.push(config);
+    if (failWith) {
+      throw Object.assign(new Error(failWith), { isAxiosError: true, code: failWith, config });
+    }
+    const body = JSON.parse(config.data);
+    const data = config.url === '/flights/price'
+      ? { data: { flightOffer: { ...body.flightOffer, price: { ...body.flightOffer.price, total: pricedTotal } } } }
+      : { data: { id: 'order-1', reference: 'K9X2LM', createdAt: '2026-10-19T10:00:00Z' } };
+    return { data, status: 200, statusText: 'OK', headers: {}, config };
+  };
+
+  return { adapter, requests };
+};
+
+describe('booking', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('reports a price change found when re-pricing', async () => {
+    api.defaults.adapter = createBackend('812.40').adapter;
+    const check = await flightService.confirmOfferPrice(createOffer('780.00'));
+    expect(check).toEqual(expect.objectContaining({ previousTotal: 780, currentTotal: 812.4, priceChanged: true }));
+
+    api.defaults.adapter = createBackend('780.00').adapter;
+    expect((await flightService.confirmOfferPrice(createOffer('780.00'))).priceChanged).toBe(false);
+  });
+
+  test('books the travelers and returns the record locator', async () => {
+    const backend = createBackend('780.00');
+    api.defaults.adapter = backend.adapter;
+
+    const booking = await flightService.createBooking({ offer: createOffer('780.00'), travelers, contact });
+
+    expect(booking.reference).toBe('K9X2LM');
+    const body = JSON.parse(backend.requests[0].data);
+    expect(body.travelers[2]).toEqual({
+      id: '3',
+      travelerType: 'HELD_INFANT',
+      dateOfBirth: '2025-03-01',
+      gender: 'FEMALE',
+      name: { firstName: 'Ada', lastName: "O'Neil" },
+    });
+    expect(body.travelers[0].loyaltyPrograms).toBeUndefined();
+    expect(body.contact).toEqual({
+      emailAddress: 'ada@example.com',
+      phone: { countryCallingCode: '44', number: '7700900123' },
+    });
+  });
+
+  test('sends membership numbers for the miles', async () => {
+    const backend = createBackend('780.00');
+    api.defaults.adapter = backend.adapter;
+    const offer = createOffer('780.00');
+    offer.itineraries.forEach(itinerary => itinerary.segments.forEach(segment => {
+      segment.carrierCode = 'AA';
+    }));
+    const withProgram = [{ ...travelers[0], loyaltyPrograms: [{ airlineCode: 'BA', number: '12345678' }] }, ...travelers.slice(1)];
+
+    await flightService.createBooking({ offer, travelers: withProgram, contact });
+
+    expect(JSON.parse(backend.requests[0].data).travelers[0].loyaltyPrograms).toEqual([
+      { programOwner: 'BA', id: '12345678' },
+    ]);
+  });
+
+  test('checks ages against the flight dates before sending anything', async () => {
+    const backend = createBackend('780.00');
+    api.defaults.adapter = backend.adapter;
+    const invalid = [
+      traveler('1', 'ADULT', '2016-01-01'),
+      traveler('2', 'CHILD', '2025-01-01'),
+      // Turns 2 before the return flight
+      traveler('3', 'HELD_INFANT', '2025-01-05'),
+    ];
+
+    const error = await flightService
+      .createBooking({ offer: createOffer('780.00'), travelers: invalid, contact: { ...contact, email: 'ada' } })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.getFieldError('travelers.0.dateOfBirth')).toBe('Adults must be at least 12 on the day of travel');
+    expect(error.getFieldError('travelers.1.dateOfBirth')).toBe('Children must be at least 2 on the day of travel');
+    expect(error.getFieldError('travelers.2.dateOfBirth')).toBe('Infants must be under 2 for the whole trip');
+    expect(error.getFieldError('contact.email')).toBe('Enter a valid email address');
+    expect(backend.requests).toHaveLength(0);
+  });
+
+  test('rejects missing names and impossible dates', () => {
+    const fieldErrors = validateTravelers(
+      [{ ...traveler('1', 'ADULT', '1985-02-30'), firstName: ' ', gender: null }],
+      createOffer('780.00'),
+      '2026-10-19',
+    );
+    expect(fieldErrors.map(fieldError => fieldError.path)).toEqual([
+      'travelers.0.firstName',
+      'travelers.0.gender',
+      'travelers.0.dateOfBirth',
+    ]);
+  });
+
+  test('does not retry a booking that timed out', async () => {
+    const backend = createBackend('780.00', 'ECONNABORTED');
+    api.defaults.adapter = backend.adapter;
+
+    const error = await flightService
+      .createBooking({ offer: createOffer('780.00'), travelers, contact })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.message).toContain('Check your email');
+    expect(backend.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,77 @@
+import { FlightOffer, Segment } from '../src/types/flight';
+import { getComparisonRows, getOfferComparison } from '../src/utils/comparison';
+import {
+  createFareDetails,
+  createFlight,
+  createItinerary,
+  createOffer as createBaseOffer,
+  createPrice,
+  createTravelerPricing,
+} from './fixtures/offers';
+
+const segment = (id: string, from: string, departure: string, to: string, arrival: string) =>
+  createFlight(from, departure, to, arrival, { id });
+
+const createOffer = (
+  id: string,
+  total: string,
+  segments: Segment[],
+  bags: number[],
+  extra: Partial<FlightOffer> = {},
+) => createBaseOffer({
+  id,
+  numberOfBookableSeats: 4,
+  pricingOptions: { fareType: ['PUBLISHED'], includedCheckedBagsOnly: false },
+  price: createPrice(total),
+  itineraries: [createItinerary(segments)],
+  travelerPricings: [createTravelerPricing({
+    fareDetailsBySegment: bags.map((quantity, index) => createFareDetails(String(index + 1), {
+      includedCheckedBags: { quantity },
+    })),
+  })],
+  ...extra,
+});
+
+describe('offer comparison', () => {
+  const direct = createOffer('1', '640.00', [
+    segment('1', 'JFK', '2026-12-01T18:00:00', 'LHR', '2026-12-02T06:00:00'),
+  ], [1], { numberOfBookableSeats: 9 });
+  const connecting = createOffer('2', '480.00', [
+    segment('1', 'JFK', '2026-12-01T17:00:00', 'DUB', '2026-12-02T04:30:00'),
+    segment('2', 'DUB', '2026-12-02T07:00:00', 'LHR', '2026-12-02T08:20:00'),
+  ], [1, 0], { lastTicketingDate: '2026-11-25' });
+
+  test('sums duration, stops and layovers across the offer', () => {
+    expect(getOfferComparison(connecting)).toEqual(expect.objectContaining({
+      price: 480,
+      durationMinutes: 620,
+      stops: 1,
+      layoverMinutes: 150,
+      checkedBags: 0,
+      fareTypes: ['PUBLISHED'],
+    }));
+  });
+
+  test('highlights the best value in each row that has one', () => {
+    const rows = getComparisonRows([direct, connecting].map(getOfferComparison));
+    const best = Object.fromEntries(rows.map(row => [row.key, row.bestIndexes]));
+
+    expect(best).toEqual({
+      price: [1],
+      duration: [0],
+      stops: [0],
+      layovers: [0],
+      departure: [],
+      arrival: [0],
+      checkedBags: [0],
+      fareType: [],
+      seatsLeft: [0],
+      ticketingDeadline: [1],
+    });
+  });
+
+  test('leaves ties unhighlighted', () => {
+    const rows = getComparisonRows([direct, direct].map(getOfferComparison));
+    expect(rows.every(row => row.bestIndexes.length === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api from '../src/api';
+import configService from '../src/services/configService';
+import { API_PROFILES } from '../src/config';
+
+// Run a callback as a release build would
+const inReleaseBuild = async (callback: () => Promise<void>) => {
+  const globals = globalThis as unknown as { __DEV__: boolean };
+  globals.__DEV__ = false;
+  try {
+    await callback();
+  } finally {
+    globals.__DEV__ = true;
+  }
+};
+
+describe('configService', () => {
+  afterEach(async () => {
+    await configService.resetConfig();
+  });
+
+  test('switches profile, points requests at it and restores it on the next launch', async () => {
+    const listener = jest.fn();
+    const unsubscribe = configService.subscribe(listener);
+
+    const config = await configService.setProfile('local');
+    unsubscribe();
+
+    expect(config).toEqual(expect.objectContaining({ name: 'local', retry: API_PROFILES.local.retry }));
+    expect(listener).toHaveBeenCalledWith(config);
+    expect(api.defaults.baseURL).toBe(API_PROFILES.local.baseURL);
+    expect(JSON.parse(await AsyncStorage.getItem('@gflights_api_config') || '{}')).toEqual({ profile: 'local' });
+
+    await configService.resetConfig();
+    expect(api.defaults.baseURL).toBe(API_PROFILES.dev.baseURL);
+    await AsyncStorage.setItem('@gflights_api_config', JSON.stringify({ profile: 'local' }));
+    expect((await configService.initializeConfig()).name).toBe('local');
+  });
+
+  test('overrides the base URL and rejects unknown profiles and bad URLs', async () => {
+    const config = await configService.setProfile('staging', ' https://staging.example.test/ ');
+    expect(config).toEqual(expect.objectContaining({
+      name: 'staging',
+      baseURL: 'https://staging.example.test',
+      isBaseURLOverridden: true,
+    }));
+
+    await expect(configService.setProfile('qa' as never)).rejects.toThrow('Unknown API profile');
+    await expect(configService.setProfile('dev', 'staging.example.test')).rejects.toThrow('http:// or https://');
+    expect(configService.getConfig().baseURL).toBe('https://staging.example.test');
+  });
+
+  test('release builds ignore a stored backend and refuse to switch', async () => {
+    const stored = { profile: 'staging', baseURLOverride: 'https://example.test' };
+    await AsyncStorage.setItem('@gflights_api_config', JSON.stringify(stored));
+
+    await inReleaseBuild(async () => {
+      expect((await configService.initializeConfig()).isBaseURLOverridden).toBe(false);
+      await expect(configService.setProfile('local')).rejects.toThrow('development builds');
+    });
+    expect(configService.getConfig().baseURL).toBe(API_PROFILES.dev.baseURL);
+    expect((await configService.initializeConfig()).baseURL).toBe('https://example.test');
+  });
+});
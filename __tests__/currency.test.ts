@@ -0,0 +1,48 @@
+import currencyService from '../src/services/currencyService';
+import preferencesService from '../src/services/preferencesService';
+import * as locale from '../src/utils/locale';
+
+describe('currencyService', () => {
+  beforeEach(() => {
+    jest.spyOn(locale, 'getDeviceLocale').mockReturnValue('en-US');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('formats with the currency and the device conventions', () => {
+    expect(currencyService.formatAmount('1234.5', 'USD')).toBe('$1,234.50');
+    expect(currencyService.formatAmount(1234.5, 'JPY')).toBe('¥1,235');
+    expect(currencyService.formatAmount(290, 'EUR', { wholeUnits: true })).toBe('€290');
+
+    jest.spyOn(locale, 'getDeviceLocale').mockReturnValue('de-DE');
+    expect(currencyService.formatAmount(1234.5, 'EUR')).toBe('1.234,50 €');
+  });
+
+  test('falls back to the code for currencies Intl does not know', () => {
+    expect(currencyService.formatAmount(12, 'XX1')).toBe('12.00 XX1');
+  });
+
+  test('marks converted prices as approximate', () => {
+    currencyService.setExchangeRates({ USD: 1, EUR: 0.5 }, '2026-10-01');
+
+    expect(currencyService.getDisplayPrice('100.00', 'USD', 'EUR')).toEqual({
+      amount: 50,
+      currency: 'EUR',
+      isApproximate: true,
+    });
+    expect(currencyService.formatPrice(100, 'USD', 'EUR')).toBe('approx. €50.00');
+    // Same currency or no rate: shown exactly as priced
+    expect(currencyService.formatPrice(100, 'EUR', 'EUR')).toBe('€100.00');
+    expect(currencyService.formatPrice(100, 'THB', 'EUR', { wholeUnits: true })).toBe('THB 100');
+  });
+
+  test('only lets users pick currencies it can convert to', async () => {
+    currencyService.setExchangeRates({ USD: 1, EUR: 0.5 }, '2026-10-01');
+
+    await expect(preferencesService.setPreferences({ displayCurrency: 'THB' })).rejects.toThrow('THB');
+    await preferencesService.setPreferences({ displayCurrency: 'EUR' });
+    expect(preferencesService.getPreferences().displayCurrency).toBe('EUR');
+  });
+});
@@ -0,0 +1,71 @@
+import { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import {
+  AuthExpiredError,
+  NetworkError,
+  RateLimitedError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  normalizeApiError,
+} from '../src/api/errors';
+
+const createAxiosError = (url: string, status?: number, data?: any, headers: Record<string, string> = {}, code?: string) => {
+  const config = { url, headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+  const response = status
+    ? { data, status, statusText: String(status), headers, config }
+    : undefined;
+  return new AxiosError('Request failed', code, config, null, response);
+};
+
+describe('normalizeApiError', () => {
+  test('maps missing responses to network and timeout errors', () => {
+    expect(normalizeApiError(createAxiosError('/flights/search'))).toBeInstanceOf(NetworkError);
+    expect(
+      normalizeApiError(createAxiosError('/flights/search', undefined, undefined, {}, 'ECONNABORTED')),
+    ).toBeInstanceOf(TimeoutError);
+  });
+
+  test('maps 401 to an expired session outside the auth endpoints', () => {
+    const error = normalizeApiError(createAxiosError('/flights/search', 401));
+    expect(error).toBeInstanceOf(AuthExpiredError);
+    expect(error.recovery).toBe('login');
+
+    const loginError = normalizeApiError(createAxiosError('/auth/login', 401, { message: 'Invalid credentials' }));
+    expect(loginError).toBeInstanceOf(ValidationError);
+    expect(loginError.message).toBe('Invalid credentials');
+  });
+
+  test('extracts field paths from class-validator messages', () => {
+    const error = normalizeApiError(
+      createAxiosError('/auth/register', 400, { message: ['email must be an email', 'password is too short'] }),
+    ) as ValidationError;
+
+    expect(error.kind).toBe('validation');
+    expect(error.getFieldError('email')).toBe('email must be an email');
+    expect(error.getFieldError('password')).toBe('password is too short');
+  });
+
+  test('extracts field paths from Amadeus-style errors', () => {
+    const error = normalizeApiError(
+      createAxiosError('/flights/search', 400, {
+        errors: [{ status: 400, code: 477, title: 'INVALID FORMAT', detail: 'bad date', source: { parameter: 'departureDate', example: '2026-12-01' } }],
+      }),
+    ) as ValidationError;
+
+    expect(error.fieldErrors).toEqual([{ path: 'departureDate', message: 'bad date' }]);
+  });
+
+  test('maps 429 and 5xx', () => {
+    const rateLimited = normalizeApiError(createAxiosError('/flights/search', 429, {}, { 'retry-after': '5' }));
+    expect(rateLimited).toBeInstanceOf(RateLimitedError);
+    expect((rateLimited as RateLimitedError).retryAfterMs).toBe(5000);
+
+    expect(normalizeApiError(createAxiosError('/flights/search', 502))).toBeInstanceOf(ServerError);
+  });
+
+  test('is idempotent and wraps plain errors', () => {
+    const error = new ServerError('boom', 500);
+    expect(normalizeApiError(error)).toBe(error);
+    expect(normalizeApiError(new Error('oops')).kind).toBe('unknown');
+  });
+});
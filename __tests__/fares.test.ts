@@ -0,0 +1,74 @@
+import { Price, TravelerPricing } from '../src/types/flight';
+import { getFareBreakdown, getOfferTotal, getPricePerPerson } from '../src/utils/fares';
+import { getLowestPrice } from '../src/utils/priceMatrix';
+import { createOffer as createBaseOffer, createPrice, createTravelerPricing } from './fixtures/offers';
+
+const pricing = (travelerId: string, travelerType: string, total: string) =>
+  createTravelerPricing({ travelerId, travelerType, price: createPrice(total) });
+
+const createOffer = (price: Partial<Price> & { total: string }, travelerPricings: TravelerPricing[]) =>
+  createBaseOffer({ price: createPrice(price.total, price), travelerPricings });
+
+describe('getFareBreakdown', () => {
+  test('splits the total into fare, fees and taxes, and groups travelers', () => {
+    const offer = createOffer(
+      {
+        total: '1150.30',
+        base: '900.00',
+        grandTotal: '1190.30',
+        fees: [{ amount: '0.00', type: 'SUPPLIER' }, { amount: '15.10', type: 'TICKETING' }],
+      },
+      [
+        pricing('1', 'ADULT', '460.12'),
+        pricing('3', 'HELD_INFANT', '70.00'),
+        pricing('2', 'ADULT', '460.12'),
+        pricing('4', 'CHILD', '160.06'),
+      ],
+    );
+
+    expect(getFareBreakdown(offer)).toEqual({
+      currency: 'USD',
+      base: 900,
+      fees: [{ type: 'TICKETING', amount: 15.1 }],
+      taxes: 235.2,
+      total: 1150.3,
+      grandTotal: 1190.3,
+      travelerGroups: [
+        { travelerType: 'ADULT', count: 2, perTraveler: 460.12, subtotal: 920.24 },
+        { travelerType: 'CHILD', count: 1, perTraveler: 160.06, subtotal: 160.06 },
+        { travelerType: 'HELD_INFANT', count: 1, perTraveler: 70, subtotal: 70 },
+      ],
+    });
+  });
+});
+
+describe('getPricePerPerson', () => {
+  test('is exact when everyone pays the same and an average otherwise', () => {
+    const sameFare = createOffer({ total: '900.00', base: '800.00' }, [
+      pricing('1', 'ADULT', '450.00'),
+      pricing('2', 'ADULT', '450.00'),
+    ]);
+    const mixedFare = createOffer({ total: '1000.00', base: '800.00' }, [
+      pricing('1', 'ADULT', '450.00'),
+      pricing('2', 'ADULT', '450.00'),
+      pricing('3', 'CHILD', '100.00'),
+    ]);
+
+    expect(getPricePerPerson(sameFare)).toEqual({ amount: 450, isAverage: false });
+    expect(getPricePerPerson(mixedFare)).toEqual({ amount: 333.33, isAverage: true });
+  });
+});
+
+describe('getOfferTotal', () => {
+  test('counts priced-in extras wherever an offer\'s price is used', () => {
+    const withBags = createOffer({ total: '400.00', base: '350.00', grandTotal: '460.00' }, [
+      pricing('1', 'ADULT', '400.00'),
+    ]);
+    const withoutBags = createOffer({ total: '450.00', base: '400.00' }, [pricing('1', 'ADULT', '450.00')]);
+
+    expect(getOfferTotal(withBags)).toBe(460);
+    expect(getOfferTotal(withoutBags)).toBe(450);
+    expect(getPricePerPerson(withBags).amount).toBe(getOfferTotal(withBags));
+    expect(getLowestPrice([withBags, withoutBags])).toEqual({ price: 450, currency: 'USD' });
+  });
+});
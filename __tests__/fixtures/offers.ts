@@ -0,0 +1,87 @@
+import {
+  FareDetailsBySegment,
+  FlightOffer,
+  Itinerary,
+  Price,
+  Segment,
+  TravelerPricing,
+} from '../../src/types/flight';
+
+// Typed builders for flight offers. Every field has a plain default, so a
+// test only spells out what it checks.
+
+export const createSegment = (changes: Partial<Segment> = {}): Segment => ({
+  id: '1',
+  carrierCode: 'BA',
+  number: '100',
+  departure: { iataCode: 'AAA', at: '2026-12-01T08:00:00' },
+  arrival: { iataCode: 'BBB', at: '2026-12-01T11:00:00' },
+  aircraft: { code: '320' },
+  duration: 'PT3H',
+  numberOfStops: 0,
+  blacklistedInEU: false,
+  ...changes,
+});
+
+// A flight from one airport to another, e.g. createFlight('JFK', '2026-12-01T18:00:00', 'LHR', '2026-12-02T06:00:00')
+export const createFlight = (
+  from: string,
+  departure: string,
+  to: string,
+  arrival: string,
+  changes: Partial<Segment> = {},
+): Segment => createSegment({
+  departure: { iataCode: from, at: departure },
+  arrival: { iataCode: to, at: arrival },
+  ...changes,
+});
+
+export const createItinerary = (segments: Segment[], duration: string = ''): Itinerary => ({ duration, segments });
+
+export const createPrice = (total: string, changes: Partial<Price> = {}): Price => ({
+  currency: 'USD',
+  total,
+  base: total,
+  ...changes,
+});
+
+export const createFareDetails = (
+  segmentId: string,
+  changes: Partial<FareDetailsBySegment> = {},
+): FareDetailsBySegment => ({
+  segmentId,
+  cabin: 'ECONOMY',
+  fareBasis: 'Y',
+  class: 'Y',
+  includedCheckedBags: { quantity: 0 },
+  ...changes,
+});
+
+export const createTravelerPricing = (changes: Partial<TravelerPricing> = {}): TravelerPricing => ({
+  travelerId: '1',
+  fareOption: 'STANDARD',
+  travelerType: 'ADULT',
+  price: createPrice('100.00'),
+  fareDetailsBySegment: [],
+  ...changes,
+});
+
+// One adult on a single flight unless the changes say otherwise. The
+// validating airline defaults to the first flight's.
+export const createOffer = (changes: Partial<FlightOffer> = {}): FlightOffer => {
+  const itineraries = changes.itineraries || [createItinerary([createSegment()], 'PT3H')];
+  const price = changes.price || createPrice('100.00');
+  return {
+    id: '1',
+    source: 'GDS',
+    instantTicketingRequired: false,
+    lastTicketingDate: '2026-11-20',
+    numberOfBookableSeats: 9,
+    pricingOptions: { fareType: ['PUBLISHED'], includedCheckedBagsOnly: false },
+    validatingAirlineCodes: [itineraries[0].segments[0].carrierCode],
+    travelerPricings: [createTravelerPricing({ price })],
+    ...changes,
+    itineraries,
+    price,
+  };
+};
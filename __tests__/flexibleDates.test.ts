@@ -0,0 +1,125 @@
+import { AxiosAdapter } from 'axios';
+import api from '../src/api';
+import flightService from '../src/services/flightService';
+import { FlightSearchRequest } from '../src/types/flight';
+import { getCheapestCell, getFlexibleDates, getMatrixCell } from '../src/utils/priceMatrix';
+
+// Stand-in backend pricing each search by its dates, with no flights on Dec 3,
+// or turning every search away while rate limiting
+const createBackend = () => {
+  const state = { searches: 0, inFlight: 0, maxInFlight: 0, isRateLimited: false };
+
+  const adapter: AxiosAdapter = async config => {
+    const body = JSON.parse(config.data);
+    state.searches += 1;
+    state.inFlight += 1;
+    state.maxInFlight = Math.max(state.maxInFlight, state.inFlight);
+    await new Promise<void>(resolve => setTimeout(resolve, 5));
+    state.inFlight -= 1;
+
+    if (state.isRateLimited) {
+      const response = { data: { message: 'Too many requests' }, status: 429, statusText: 'Too Many Requests', headers: {}, config };
+      throw Object.assign(new Error('Too many requests'), { isAxiosError: true, response, config });
+    }
+
+    const day = Number(body.departureDate.slice(8, 10));
+    const returnDay = body.returnDate ? Number(body.returnDate.slice(8, 10)) : 0;
+    const data = day === 3
+      ? []
+      : [
+        { price: { currency: 'USD', total: String(500 + day * 10 + returnDay) } },
+        { price: { currency: 'USD', total: String(400 + day * 10 + returnDay) } },
+      ];
+    return { data: { data }, status: 200, statusText: 'OK', headers: {}, config };
+  };
+
+  return { adapter, state };
+};
+
+const searchRequest: FlightSearchRequest = {
+  originLocationCode: 'JFK',
+  destinationLocationCode: 'LHR',
+  originEntityId: '95565058',
+  destinationEntityId: '95565050',
+  departureDate: '2026-12-05',
+  adults: 1,
+};
+
+describe('getFlexibleDates', () => {
+  test('spans the requested date on both sides across month ends', () => {
+    expect(getFlexibleDates('2026-12-01', 2)).toEqual([
+      '2026-11-29',
+      '2026-11-30',
+      '2026-12-01',
+      '2026-12-02',
+      '2026-12-03',
+    ]);
+  });
+});
+
+describe('searchFlexibleDates', () => {
+  let backend: ReturnType<typeof createBackend>;
+
+  beforeEach(() => {
+    backend = createBackend();
+    api.defaults.adapter = backend.adapter;
+    jest.useFakeTimers({ doNotFake: ['setTimeout'] });
+    jest.setSystemTime(new Date(2026, 10, 1, 12, 0, 0));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('keeps the cheapest fare of each one-way date', async () => {
+    const cells: string[] = [];
+    const matrix = await flightService.searchFlexibleDates(searchRequest, 2, {
+      onCell: cell => cells.push(cell.departureDate),
+    });
+
+    expect(matrix.departureDates).toEqual(['2026-12-03', '2026-12-04', '2026-12-05', '2026-12-06', '2026-12-07']);
+    expect(matrix.returnDates).toEqual([]);
+    expect(cells).toHaveLength(5);
+    expect(getMatrixCell(matrix, '2026-12-04')).toMatchObject({ status: 'loaded', price: 440, currency: 'USD' });
+    expect(getMatrixCell(matrix, '2026-12-03')).toMatchObject({ status: 'no_flights' });
+    expect(getCheapestCell(matrix.cells)?.departureDate).toBe('2026-12-04');
+  });
+
+  test('searches every sensible round-trip combination a few at a time', async () => {
+    const matrix = await flightService.searchFlexibleDates(
+      { ...searchRequest, departureDate: '2026-12-05', returnDate: '2026-12-06' },
+      1,
+    );
+
+    // 4-6 × 5-7, minus returning on the 5th after leaving on the 6th
+    expect(matrix.cells).toHaveLength(8);
+    expect(getMatrixCell(matrix, '2026-12-06', '2026-12-05')).toBeUndefined();
+    expect(backend.state.searches).toBe(8);
+    expect(backend.state.maxInFlight).toBeLessThanOrEqual(3);
+    expect(getCheapestCell(matrix.cells)).toMatchObject({ departureDate: '2026-12-04', returnDate: '2026-12-05' });
+  });
+
+  test('stops searching without retries once the backend rate limits', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    backend.state.isRateLimited = true;
+    const matrix = await flightService.searchFlexibleDates(
+      { ...searchRequest, departureDate: '2026-12-05', returnDate: '2026-12-08' },
+      3,
+    );
+
+    // ±3 days around both dates, minus returns before departures
+    expect(matrix.cells).toHaveLength(43);
+    expect(matrix.cells.every(cell => cell.status === 'failed')).toBe(true);
+    // Only the first batch went out, each once
+    expect(backend.state.searches).toBe(3);
+  });
+
+  test('skips departure dates in the past', async () => {
+    jest.setSystemTime(new Date(2026, 11, 5, 12, 0, 0));
+    const matrix = await flightService.searchFlexibleDates(searchRequest, 2);
+
+    expect(matrix.departureDates).toEqual(['2026-12-05', '2026-12-06', '2026-12-07']);
+  });
+});
@@ -0,0 +1,23 @@
+import { getAircraftName, getCarrierName, getCityName } from '../src/utils/flightNames';
+
+const dictionaries = {
+  carriers: { BA: 'BRITISH AIRWAYS', ZZ: 'ZEPHYR AIR' },
+  aircraft: { '77W': 'BOEING 777-300ER', XYZ: 'AIRBUS A321NEO' },
+  locations: { XLN: { cityCode: 'LON', countryCode: 'GB' } },
+};
+
+describe('flight names', () => {
+  test('prefers bundled names and tidies dictionary names otherwise', () => {
+    expect(getCarrierName('BA', dictionaries)).toBe('British Airways');
+    expect(getCarrierName('ZZ', dictionaries)).toBe('Zephyr Air');
+    expect(getCarrierName('QQ', dictionaries)).toBe('QQ');
+    expect(getAircraftName('XYZ', dictionaries)).toBe('Airbus A321NEO');
+    expect(getAircraftName('XYZ')).toBe('XYZ');
+  });
+
+  test('finds the city an airport serves', () => {
+    expect(getCityName('LHR')).toBe('London');
+    expect(getCityName('XLN', dictionaries)).toBe('London');
+    expect(getCityName('QQQ', dictionaries)).toBeNull();
+  });
+});
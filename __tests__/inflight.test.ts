@@ -0,0 +1,70 @@
+import { InFlightRequests, isCancelledRequest } from '../src/api/inflight';
+
+// Deferred promise whose factory records the signal it was given
+const createFactory = () => {
+  const signals: AbortSignal[] = [];
+  let resolve: (value: string) => void = () => {};
+  const factory = (signal: AbortSignal) => {
+    signals.push(signal);
+    return new Promise<string>(res => {
+      resolve = res;
+    });
+  };
+  return { factory, signals, resolve: (value: string) => resolve(value) };
+};
+
+describe('InFlightRequests', () => {
+  test('shares one request between callers with the same key', async () => {
+    const inFlight = new InFlightRequests();
+    const { factory, signals, resolve } = createFactory();
+
+    const first = inFlight.run('airports:lon', factory);
+    const second = inFlight.run('airports:lon', factory);
+    resolve('LHR');
+
+    await expect(first).resolves.toBe('LHR');
+    await expect(second).resolves.toBe('LHR');
+    expect(signals).toHaveLength(1);
+  });
+
+  test('keeps the shared request alive while another caller still waits', async () => {
+    const inFlight = new InFlightRequests();
+    const { factory, signals, resolve } = createFactory();
+    const controller = new AbortController();
+
+    const aborted = inFlight.run('airports:par', factory, controller.signal);
+    const kept = inFlight.run('airports:par', factory, new AbortController().signal);
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    expect(signals[0].aborted).toBe(false);
+    resolve('CDG');
+    await expect(kept).resolves.toBe('CDG');
+  });
+
+  test('aborts the shared request once every caller aborted', async () => {
+    const inFlight = new InFlightRequests();
+    const { factory, signals } = createFactory();
+    const controller = new AbortController();
+
+    const pending = inFlight.run('airports:nyc', factory, controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    expect(signals[0].aborted).toBe(true);
+
+    // A new caller starts a fresh request
+    inFlight.run('airports:nyc', factory);
+    expect(signals).toHaveLength(2);
+  });
+
+  test('recognises cancellation errors', async () => {
+    const inFlight = new InFlightRequests();
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await inFlight.run('airports:tyo', createFactory().factory, controller.signal).catch(e => e);
+    expect(isCancelledRequest(error)).toBe(true);
+    expect(isCancelledRequest(new Error('Network Error'))).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { formatMinutes, getLayovers } from '../src/utils/itinerary';
+import { getDayOffset } from '../src/utils/dates';
+import { createItinerary, createSegment } from './fixtures/offers';
+
+const segment = (from: string, departure: string, to: string, arrival: string, terminals: [string?, string?] = []) =>
+  createSegment({
+    departure: { iataCode: from, at: departure, terminal: terminals[0] },
+    arrival: { iataCode: to, at: arrival, terminal: terminals[1] },
+  });
+
+describe('getLayovers', () => {
+  test('measures each connection and flags overnight and terminal changes', () => {
+    const itinerary = createItinerary([
+      segment('JFK', '2026-12-01T18:00:00', 'LHR', '2026-12-02T06:10:00', ['7', '3']),
+      segment('LHR', '2026-12-02T08:25:00', 'SIN', '2026-12-03T04:00:00', ['5', '1']),
+      segment('SIN', '2026-12-03T23:30:00', 'SYD', '2026-12-04T09:00:00'),
+    ], 'PT20H');
+
+    expect(getLayovers(itinerary)).toEqual([
+      expect.objectContaining({ arrivalAirport: 'LHR', minutes: 135, isOvernight: false, isTerminalChange: true }),
+      expect.objectContaining({ arrivalAirport: 'SIN', minutes: 1170, isOvernight: false, isTerminalChange: false }),
+    ]);
+  });
+
+  test('spots a connection that leaves the next day from another airport', () => {
+    const itinerary = createItinerary([
+      segment('JFK', '2026-12-01T09:00:00', 'LHR', '2026-12-01T21:00:00', [undefined, '5']),
+      segment('LGW', '2026-12-02T07:00:00', 'NCE', '2026-12-02T10:00:00', ['S']),
+    ], 'PT15H');
+
+    const [layover] = getLayovers(itinerary);
+    expect(layover).toMatchObject({ departureAirport: 'LGW', minutes: 600, isOvernight: true });
+    // Terminals at different airports are not a terminal change
+    expect(layover.isTerminalChange).toBe(false);
+  });
+});
+
+describe('getDayOffset', () => {
+  test('counts calendar days regardless of the hours', () => {
+    expect(getDayOffset('2026-12-01T23:50:00', '2026-12-02T00:10:00')).toBe(1);
+    expect(getDayOffset('2026-12-31T08:00:00', '2026-12-31T22:00:00')).toBe(0);
+    expect(getDayOffset('2026-12-31T08:00:00', '2027-01-02T01:00:00')).toBe(2);
+  });
+});
+
+describe('formatMinutes', () => {
+  test('drops zero parts', () => {
+    expect(formatMinutes(135)).toBe('2h 15m');
+    expect(formatMinutes(120)).toBe('2h');
+    expect(formatMinutes(45)).toBe('45m');
+  });
+});
@@ -0,0 +1,73 @@
+import { getStateFromPath as getDefaultStateFromPath } from '@react-navigation/native';
+import { linking } from '../src/navigation/linking';
+import * as navigationRef from '../src/navigation/navigationRef';
+import authService from '../src/services/authService';
+
+const getStateFromPath = (path: string) => linking.getStateFromPath!(path, linking.config);
+
+describe('search links', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2026, 10, 1, 12, 0, 0) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('open the results over Home for a signed-in user', () => {
+    jest.spyOn(authService, 'isAuthenticated').mockReturnValue(true);
+
+    expect(getStateFromPath('/search/?from=JFK&to=LHR&depart=2026-12-01&offer=BA178')).toEqual({
+      routes: [
+        { name: 'Home' },
+        {
+          name: 'FlightResults',
+          params: {
+            searchRequest: expect.objectContaining({
+              originLocationCode: 'JFK',
+              destinationLocationCode: 'LHR',
+              departureDate: '2026-12-01',
+            }),
+            autoSearch: true,
+            sharedOfferKey: 'BA178',
+          },
+        },
+      ],
+    });
+  });
+
+  test('send an incomplete search to the search form with the first problem', () => {
+    jest.spyOn(authService, 'isAuthenticated').mockReturnValue(true);
+
+    expect(getStateFromPath('search?from=JFK&depart=2026-12-01')).toEqual({
+      routes: [
+        { name: 'Home' },
+        {
+          name: 'FlightSearch',
+          params: {
+            prefill: expect.objectContaining({ originLocationCode: 'JFK', departureDate: '2026-12-01' }),
+            prefillError: expect.any(String),
+          },
+        },
+      ],
+    });
+  });
+
+  test('ask signed-out users to sign in and keep the search for afterwards', () => {
+    jest.spyOn(authService, 'isAuthenticated').mockReturnValue(false);
+    const setPendingRoute = jest.spyOn(navigationRef, 'setPendingRoute');
+
+    expect(getStateFromPath('search?from=JFK&to=LHR&depart=2026-12-01')).toEqual({
+      routes: [{ name: 'Landing' }, { name: 'Login' }],
+    });
+    expect(setPendingRoute).toHaveBeenCalledWith(expect.objectContaining({ name: 'FlightResults' }));
+  });
+
+  test('leave other paths to the default parser', () => {
+    const setPendingRoute = jest.spyOn(navigationRef, 'setPendingRoute');
+
+    expect(getStateFromPath('searching')).toEqual(getDefaultStateFromPath('searching', linking.config));
+    expect(setPendingRoute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FrequentFlyerNumber } from '../src/types/traveler';
+import preferencesService from '../src/services/preferencesService';
+import {
+  DEFAULT_RESULT_FILTERS,
+  applyResultView,
+  getFilterCounts,
+  getFilterOptions,
+} from '../src/utils/offerFilters';
+import { describeLoyaltyProgram, earnsMilesOnEveryFlight, getEarningMemberships } from '../src/utils/loyalty';
+import { validateTravelers } from '../src/utils/travelers';
+import { createItinerary, createOffer as createBaseOffer, createSegment } from './fixtures/offers';
+
+const createOffer = (id: string, carrierCodes: string[]) => createBaseOffer({
+  id,
+  itineraries: [createItinerary(carrierCodes.map((carrierCode, index) => createSegment({
+    id: `${id}-${index}`,
+    carrierCode,
+    departure: { iataCode: 'AAA', at: `2026-12-01T0${index + 1}:00:00` },
+    arrival: { iataCode: 'BBB', at: `2026-12-01T0${index + 2}:00:00` },
+  })))],
+});
+
+const executiveClub: FrequentFlyerNumber = { airlineCode: 'BA', number: '12345678' };
+const mileagePlus: FrequentFlyerNumber = { airlineCode: 'UA', number: 'AB123456' };
+
+// British Airways with an American connection, Lufthansa, and a Ryanair hop
+const offers = [
+  createOffer('1', ['BA', 'AA']),
+  createOffer('2', ['LH']),
+  createOffer('3', ['BA', 'FR']),
+];
+
+describe('loyalty programs', () => {
+  test('earn on the airline and its alliance partners', () => {
+    expect(earnsMilesOnEveryFlight(offers[0], [executiveClub])).toBe(true);
+    expect(earnsMilesOnEveryFlight(offers[1], [executiveClub])).toBe(false);
+    expect(earnsMilesOnEveryFlight(offers[1], [executiveClub, mileagePlus])).toBe(true);
+    // Ryanair is in no alliance, so one flight earns nothing
+    expect(earnsMilesOnEveryFlight(offers[2], [executiveClub])).toBe(false);
+    expect(getEarningMemberships(offers[2], [mileagePlus, executiveClub])).toEqual([executiveClub]);
+    expect(describeLoyaltyProgram('ba')).toBe('British Airways Executive Club · oneworld');
+  });
+
+  test('filter results to flights that earn on the user\'s programs', () => {
+    const filters = { ...DEFAULT_RESULT_FILTERS, earnsMilesOnly: true };
+    const view = { filters, sortKey: 'recommended' as const };
+
+    expect(applyResultView(offers, view, {}, [executiveClub]).map(offer => offer.id)).toEqual(['1']);
+    expect(applyResultView(offers, view, {}, [executiveClub, mileagePlus]).map(offer => offer.id)).toEqual(['1', '2']);
+    expect(applyResultView(offers, view)).toEqual([]);
+    expect(getFilterCounts(offers, filters, getFilterOptions(offers, filters), [mileagePlus]).earnsMiles).toBe(1);
+  });
+
+  test('only accept booking numbers that earn on the flights', () => {
+    const traveler = {
+      id: '1',
+      travelerType: 'ADULT',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      dateOfBirth: '1985-04-12',
+      gender: 'FEMALE' as const,
+    };
+    expect(validateTravelers([{ ...traveler, loyaltyPrograms: [executiveClub] }], offers[0])).toEqual([]);
+    expect(validateTravelers([{ ...traveler, loyaltyPrograms: [mileagePlus] }], offers[0])).toEqual([
+      { path: 'travelers.0.loyaltyPrograms', message: 'Some programs do not earn miles on these flights' },
+    ]);
+  });
+
+  test('keep one membership per airline in preferences', async () => {
+    await preferencesService.loadLoyaltyMemberships('user-1');
+    await expect(preferencesService.setPreferences({ loyaltyMemberships: [executiveClub, executiveClub] }))
+      .rejects.toThrow('one loyalty program per airline');
+    await expect(preferencesService.setPreferences({ loyaltyMemberships: [{ airlineCode: 'BA', number: '1' }] }))
+      .rejects.toThrow('Membership numbers');
+    await preferencesService.setPreferences({ loyaltyMemberships: [executiveClub] });
+    expect(preferencesService.getPreferences().loyaltyMemberships).toEqual([executiveClub]);
+    await preferencesService.setPreferences({ loyaltyMemberships: [] });
+    preferencesService.unloadLoyaltyMemberships('user-1');
+  });
+
+  test('belong to the signed-in user and are kept for them after sign-out', async () => {
+    await preferencesService.loadLoyaltyMemberships('user-1');
+    await preferencesService.setPreferences({ loyaltyMemberships: [executiveClub] });
+    expect(await AsyncStorage.getItem('@gflights_preferences')).not.toContain(executiveClub.number);
+
+    await preferencesService.loadLoyaltyMemberships('user-2');
+    expect(preferencesService.getPreferences().loyaltyMemberships).toEqual([]);
+    await preferencesService.loadLoyaltyMemberships('user-1');
+    expect(preferencesService.getPreferences().loyaltyMemberships).toEqual([executiveClub]);
+
+    preferencesService.unloadLoyaltyMemberships('user-1');
+    expect(preferencesService.getPreferences().loyaltyMemberships).toEqual([]);
+    await expect(preferencesService.setPreferences({ loyaltyMemberships: [mileagePlus] }))
+      .rejects.toThrow('Sign in');
+    expect((await preferencesService.loadLoyaltyMemberships('user-1')).loyaltyMemberships).toEqual([executiveClub]);
+    await preferencesService.setPreferences({ loyaltyMemberships: [] });
+    preferencesService.unloadLoyaltyMemberships('user-1');
+  });
+});
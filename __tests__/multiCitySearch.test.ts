@@ -0,0 +1,91 @@
+import { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import api from '../src/api';
+import flightService from '../src/services/flightService';
+import { ValidationError } from '../src/api/errors';
+import { FlightSearchRequest } from '../src/types/flight';
+
+const AIRPORTS: Record<string, { skyId: string; entityId: string }> = {
+  JFK: { skyId: 'JFK', entityId: '95565058' },
+  LHR: { skyId: 'LHR', entityId: '95565050' },
+  CDG: { skyId: 'CDG', entityId: '95565041' },
+};
+
+// Stand-in for the flights backend that records what the app sends
+const createBackend = () => {
+  const requests: InternalAxiosRequestConfig[] = [];
+
+  const adapter: AxiosAdapter = async config => {
+    requests.push(config);
+    const data = config.url === '/flights/search-airports'
+      ? {
+        data: Object.entries(AIRPORTS)
+          .filter(([code]) => code === config.params.query)
+          .map(([code, ids]) => ({ id: ids.entityId, iataCode: code, ...ids })),
+      }
+      : { data: [] };
+    return { data, status: 200, statusText: 'OK', headers: {}, config };
+  };
+
+  return { adapter, requests };
+};
+
+const createRequest = (dates: string[]): FlightSearchRequest => {
+  const legs = [
+    { originLocationCode: 'JFK', destinationLocationCode: 'LHR', departureDate: dates[0] },
+    { originLocationCode: 'LHR', destinationLocationCode: 'CDG', departureDate: dates[1] },
+    { originLocationCode: 'CDG', destinationLocationCode: 'JFK', departureDate: dates[2] },
+  ];
+  return { ...legs[0], legs, adults: 1, travelClass: 'ECONOMY' };
+};
+
+describe('multi-city search', () => {
+  let backend: ReturnType<typeof createBackend>;
+
+  beforeEach(() => {
+    backend = createBackend();
+    api.defaults.adapter = backend.adapter;
+    // The service logs every request and failure
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('resolves every leg and posts them to the multi-city endpoint', async () => {
+    await flightService.searchFlights(createRequest(['2026-12-01', '2026-12-05', '2026-12-09']));
+
+    const search = backend.requests.find(config => config.url === '/flights/search-multi-city');
+    const body = JSON.parse(search!.data);
+    expect(body.legs).toEqual([
+      { originSkyId: 'JFK', destinationSkyId: 'LHR', originEntityId: '95565058', destinationEntityId: '95565050', departureDate: '2026-12-01' },
+      { originSkyId: 'LHR', destinationSkyId: 'CDG', originEntityId: '95565050', destinationEntityId: '95565041', departureDate: '2026-12-05' },
+      { originSkyId: 'CDG', destinationSkyId: 'JFK', originEntityId: '95565041', destinationEntityId: '95565058', departureDate: '2026-12-09' },
+    ]);
+    expect(body.originSkyId).toBeUndefined();
+
+    // Shared airports are only looked up once
+    const lookups = backend.requests.filter(config => config.url === '/flights/search-airports');
+    expect(lookups.map(config => config.params.query).sort()).toEqual(['CDG', 'JFK', 'LHR']);
+  });
+
+  test('rejects legs that go back in time', async () => {
+    const error = await flightService
+      .searchFlights(createRequest(['2026-12-01', '2026-12-05', '2026-12-03']))
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.getFieldError('legs.2.departureDate')).toBe('Flight 3 cannot depart before flight 2');
+    expect(backend.requests.some(config => config.url === '/flights/search-multi-city')).toBe(false);
+  });
+
+  test('limits trips to six legs', async () => {
+    const request = createRequest(['2026-12-01', '2026-12-05', '2026-12-09']);
+    const legs = [...request.legs!, ...request.legs!, request.legs![0]];
+
+    await expect(flightService.searchFlights({ ...request, legs })).rejects.toMatchObject({
+      fieldErrors: [{ path: 'legs' }],
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { FlightOffer, Segment } from '../src/types/flight';
+import {
+  DEFAULT_RESULT_FILTERS,
+  applyResultView,
+  getFilterCounts,
+  getFilterOptions,
+  getRouteKey,
+} from '../src/utils/offerFilters';
+import resultViewService from '../src/services/resultViewService';
+import {
+  createFareDetails,
+  createItinerary,
+  createOffer as createBaseOffer,
+  createPrice,
+  createSegment,
+  createTravelerPricing,
+} from './fixtures/offers';
+
+const segment = (id: string, carrierCode: string, departure: string, arrival: string) => createSegment({
+  id,
+  carrierCode,
+  number: id,
+  departure: { iataCode: 'AAA', at: departure },
+  arrival: { iataCode: 'BBB', at: arrival },
+  duration: 'PT1H',
+});
+
+const createOffer = (
+  id: string,
+  total: string,
+  segments: Segment[],
+  duration: string,
+  options: { cabin?: string; bags?: number; validating?: string } = {},
+) => createBaseOffer({
+  id,
+  itineraries: [createItinerary(segments, duration)],
+  price: createPrice(total),
+  validatingAirlineCodes: [options.validating || segments[0].carrierCode],
+  travelerPricings: [createTravelerPricing({
+    price: createPrice(total),
+    fareDetailsBySegment: segments.map(({ id: segmentId }) => createFareDetails(segmentId, {
+      cabin: options.cabin || 'ECONOMY',
+      includedCheckedBags: { quantity: options.bags ?? 0 },
+    })),
+  })],
+});
+
+// Direct morning flight, a cheap evening connection and a pricey business direct
+const offers = [
+  createOffer('1', '300.00', [segment('1', 'BA', '2026-12-01T08:00:00', '2026-12-01T11:00:00')], 'PT3H', { bags: 1 }),
+  createOffer('2', '150.00', [
+    segment('2', 'IB', '2026-12-01T19:00:00', '2026-12-01T21:00:00'),
+    segment('3', 'BA', '2026-12-02T01:00:00', '2026-12-02T03:00:00'),
+  ], 'PT8H'),
+  createOffer('3', '900.00', [segment('4', 'BA', '2026-12-01T13:00:00', '2026-12-01T16:00:00')], 'PT3H', { cabin: 'BUSINESS', bags: 2 }),
+];
+
+const idsOf = (list: FlightOffer[]) => list.map(offer => offer.id);
+
+describe('applyResultView', () => {
+  test('keeps the backend order until asked to sort', () => {
+    expect(idsOf(applyResultView(offers, { filters: DEFAULT_RESULT_FILTERS, sortKey: 'recommended' }))).toEqual(['1', '2', '3']);
+    expect(idsOf(applyResultView(offers, { filters: DEFAULT_RESULT_FILTERS, sortKey: 'price' }))).toEqual(['2', '1', '3']);
+    expect(idsOf(applyResultView(offers, { filters: DEFAULT_RESULT_FILTERS, sortKey: 'arrival' }))).toEqual(['1', '3', '2']);
+  });
+
+  test('combines filters across stops, carriers, layovers and bags', () => {
+    const view = (changes: Partial<typeof DEFAULT_RESULT_FILTERS>) => ({
+      filters: { ...DEFAULT_RESULT_FILTERS, ...changes },
+      sortKey: 'recommended' as const,
+    });
+
+    expect(idsOf(applyResultView(offers, view({ stops: [1] })))).toEqual(['2']);
+    // Carriers include every segment, not just the validating airline
+    expect(idsOf(applyResultView(offers, view({ carriers: ['IB'] })))).toEqual(['2']);
+    expect(idsOf(applyResultView(offers, view({ carriers: ['BA'], maxLayoverMinutes: 180 })))).toEqual(['1', '3']);
+    expect(idsOf(applyResultView(offers, view({ checkedBagsOnly: true, cabins: ['ECONOMY'] })))).toEqual(['1']);
+    expect(idsOf(applyResultView(offers, view({ departureWindows: ['evening'], maxPrice: 100 })))).toEqual([]);
+  });
+});
+
+describe('getFilterCounts', () => {
+  test('counts each option as if it were picked with the other filters', () => {
+    const filters = { ...DEFAULT_RESULT_FILTERS, stops: [0 as const], cabins: ['ECONOMY'] };
+    const counts = getFilterCounts(offers, filters, getFilterOptions(offers, filters));
+
+    // Stops ignore the stops filter itself but respect the cabin
+    expect(counts.stops).toEqual({ 0: 1, 1: 1, 2: 0 });
+    expect(counts.cabins).toEqual({ ECONOMY: 1, BUSINESS: 1 });
+    expect(counts.carriers).toEqual({ BA: 1, IB: 0 });
+    expect(counts.checkedBags).toBe(1);
+  });
+
+  test('keeps saved values on offer even when these results lack them', () => {
+    const filters = { ...DEFAULT_RESULT_FILTERS, carriers: ['LH'], maxPrice: 5000 };
+    const options = getFilterOptions(offers, filters);
+
+    expect(options.carriers).toEqual(['BA', 'IB', 'LH']);
+    expect(options.priceSteps).toContain(5000);
+    expect(getFilterCounts(offers, filters, options).carriers.LH).toBe(0);
+  });
+});
+
+describe('resultViewService', () => {
+  test('remembers the view per route', async () => {
+    const routeKey = getRouteKey({ originLocationCode: 'JFK', destinationLocationCode: 'LHR', departureDate: '2026-12-01', adults: 1 });
+    const view = { filters: { ...DEFAULT_RESULT_FILTERS, stops: [0 as const] }, sortKey: 'price' as const };
+
+    await resultViewService.saveView(routeKey, view);
+
+    expect(routeKey).toBe('JFK-LHR');
+    expect(await resultViewService.getView('JFK-LHR')).toEqual(view);
+    expect((await resultViewService.getView('LHR-JFK')).filters.stops).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import { Segment } from '../src/types/flight';
+import { applyResultView, DEFAULT_RESULT_FILTERS } from '../src/utils/offerFilters';
+import { DEFAULT_SCORE_WEIGHTS, getOfferBadges, getResultSummary, scoreOffers } from '../src/utils/offerScores';
+import preferencesService from '../src/services/preferencesService';
+import { createItinerary, createOffer as createBaseOffer, createPrice, createSegment } from './fixtures/offers';
+
+const segment = (departure: string, arrival: string) => createSegment({
+  departure: { iataCode: 'AAA', at: departure },
+  arrival: { iataCode: 'BBB', at: arrival },
+});
+
+const createOffer = (id: string, total: string, segments: Segment[], duration: string) => createBaseOffer({
+  id,
+  itineraries: [createItinerary(segments, duration)],
+  price: createPrice(total),
+  travelerPricings: [],
+});
+
+// A morning direct, a cheap evening connection and a pricey afternoon direct
+const offers = [
+  createOffer('1', '300.00', [segment('2026-12-01T08:00:00', '2026-12-01T11:00:00')], 'PT3H'),
+  createOffer('2', '150.00', [
+    segment('2026-12-01T19:00:00', '2026-12-01T21:00:00'),
+    segment('2026-12-02T01:00:00', '2026-12-02T03:00:00'),
+  ], 'PT8H'),
+  createOffer('3', '900.00', [segment('2026-12-01T13:00:00', '2026-12-01T16:00:00')], 'PT3H'),
+];
+
+describe('scoreOffers', () => {
+  test('weighs price, duration and stops against the other offers', () => {
+    const scores = scoreOffers(offers, { weights: DEFAULT_SCORE_WEIGHTS, preferredDepartureWindows: [] });
+    expect(scores).toEqual({ 1: 91, 2: 64, 3: 57 });
+
+    const summary = getResultSummary(offers, scores);
+    expect(summary.best?.id).toBe('1');
+    expect(summary.cheapest?.id).toBe('2');
+    // Equally fast, so the cheaper one wins
+    expect(summary.fastest?.id).toBe('1');
+    expect(getOfferBadges(offers[0], summary)).toEqual(['best', 'fastest']);
+
+    const sorted = applyResultView(offers, { filters: DEFAULT_RESULT_FILTERS, sortKey: 'best' }, scores);
+    expect(sorted.map(offer => offer.id)).toEqual(['1', '2', '3']);
+  });
+
+  test('favours preferred departure times when they count', () => {
+    const scores = scoreOffers(offers, {
+      weights: { price: 0, duration: 0, stops: 0, departureTime: 1 },
+      preferredDepartureWindows: ['afternoon'],
+    });
+    expect(getResultSummary(offers, scores).best?.id).toBe('3');
+  });
+
+  test('has nothing to pick from an empty list', () => {
+    expect(getResultSummary([], {})).toEqual({ best: null, cheapest: null, fastest: null });
+  });
+});
+
+describe('score preferences', () => {
+  test('rejects weights outside the scale or all turned off', async () => {
+    await expect(preferencesService.setPreferences({
+      scoreWeights: { ...DEFAULT_SCORE_WEIGHTS, price: 5 },
+    })).rejects.toThrow('Score weights');
+    await expect(preferencesService.setPreferences({
+      scoreWeights: { price: 0, duration: 0, stops: 0, departureTime: 0 },
+    })).rejects.toThrow('At least one factor');
+    expect(preferencesService.getPreferences().scoreWeights).toEqual(DEFAULT_SCORE_WEIGHTS);
+  });
+});
@@ -0,0 +1,45 @@
+import configService from '../src/services/configService';
+import preferencesService from '../src/services/preferencesService';
+import * as locale from '../src/utils/locale';
+
+describe('getMarketFromLocale', () => {
+  test('splits language and region, ignoring scripts and extensions', () => {
+    expect(locale.getMarketFromLocale('en-GB')).toEqual({ market: 'en-GB', countryCode: 'GB' });
+    expect(locale.getMarketFromLocale('zh-Hant-tw')).toEqual({ market: 'zh-TW', countryCode: 'TW' });
+    expect(locale.getMarketFromLocale('de-DE-u-co-phonebk')).toEqual({ market: 'de-DE', countryCode: 'DE' });
+  });
+
+  test('has nothing to offer without a region', () => {
+    expect(locale.getMarketFromLocale('fr')).toBeNull();
+    expect(locale.getMarketFromLocale(null)).toBeNull();
+  });
+});
+
+describe('getSearchDefaults', () => {
+  afterEach(async () => {
+    await preferencesService.setPreferences({ sortBy: 'best', market: null, countryCode: null });
+    jest.restoreAllMocks();
+  });
+
+  test('prefers the user, then the device, then the API profile', async () => {
+    const profileDefaults = configService.getConfig().defaults;
+    jest.spyOn(locale, 'getDeviceLocale').mockReturnValue('fr');
+    expect(preferencesService.getSearchDefaults()).toEqual({
+      sortBy: 'best',
+      market: profileDefaults.market,
+      countryCode: profileDefaults.countryCode,
+    });
+
+    jest.spyOn(locale, 'getDeviceLocale').mockReturnValue('fr-CA');
+    expect(preferencesService.getSearchDefaults()).toMatchObject({ market: 'fr-CA', countryCode: 'CA' });
+
+    await preferencesService.setPreferences({ sortBy: 'cheapest', market: 'en-GB', countryCode: 'GB' });
+    expect(preferencesService.getSearchDefaults()).toEqual({ sortBy: 'cheapest', market: 'en-GB', countryCode: 'GB' });
+  });
+
+  test('rejects markets and countries the search cannot use', async () => {
+    await expect(preferencesService.setPreferences({ market: 'english' })).rejects.toThrow('Market');
+    await expect(preferencesService.setPreferences({ countryCode: 'GBR' })).rejects.toThrow('Country');
+    expect(preferencesService.getPreferences().market).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import { InternalAxiosRequestConfig } from 'axios';
+import api from '../src/api';
+import flightService from '../src/services/flightService';
+import priceCalendarService from '../src/services/priceCalendarService';
+import { getLatestBookableDate, getPriceLevels } from '../src/utils/priceCalendar';
+
+const createAdapter = (days: { day: string; price: number }[]) => {
+  const requests: InternalAxiosRequestConfig[] = [];
+  const adapter = async (config: InternalAxiosRequestConfig) => {
+    requests.push(config);
+    const data = { status: true, data: { flights: { currency: 'USD', days } } };
+    return { data, status: 200, statusText: 'OK', headers: {}, config };
+  };
+  return { adapter, requests };
+};
+
+describe('price calendar', () => {
+  test('splits known prices into cheap, average and expensive days', () => {
+    const levels = getPriceLevels([
+      { date: '2026-12-01', price: 100 },
+      { date: '2026-12-02', price: 150 },
+      { date: '2026-12-03', price: null },
+      { date: '2026-12-04', price: 200 },
+    ]);
+    expect(levels).toEqual({ '2026-12-01': 'cheap', '2026-12-02': 'average', '2026-12-04': 'expensive' });
+    expect(getPriceLevels([{ date: '2026-12-01', price: 100 }, { date: '2026-12-02', price: 100 }])).toEqual({});
+    expect(getLatestBookableDate('2026-10-19')).toBe('2027-10-09');
+  });
+
+  test('parses days in order and drops unknown fares', async () => {
+    const { adapter, requests } = createAdapter([
+      { day: '2026-12-02', price: 0 },
+      { day: '2026-12-01', price: 312.5 },
+    ]);
+    api.defaults.adapter = adapter;
+
+    const calendar = await flightService.getPriceCalendar('LOND', 'NYCA', '2026-12-01', 'USD');
+    expect(requests[0].params).toEqual({
+      originSkyId: 'LOND',
+      destinationSkyId: 'NYCA',
+      fromDate: '2026-12-01',
+      currency: 'USD',
+    });
+    expect(calendar.days).toEqual([
+      { date: '2026-12-01', price: 312.5 },
+      { date: '2026-12-02', price: null },
+    ]);
+  });
+
+  test('reuses a calendar fetched from an earlier date', async () => {
+    const { adapter, requests } = createAdapter([{ day: '2026-12-01', price: 312 }]);
+    api.defaults.adapter = adapter;
+
+    const [first, second] = await Promise.all([
+      priceCalendarService.getCalendar('PARI', 'ROME', '2026-12-01'),
+      priceCalendarService.getCalendar('PARI', 'ROME', '2026-12-01'),
+    ]);
+    const later = await priceCalendarService.getCalendar('PARI', 'ROME', '2026-12-10');
+
+    expect(requests).toHaveLength(1);
+    expect(second).toEqual(first);
+    expect(later).toEqual(first);
+
+    await priceCalendarService.getCalendar('ROME', 'PARI', '2026-12-10');
+    expect(requests).toHaveLength(2);
+  });
+});
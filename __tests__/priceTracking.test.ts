@@ -0,0 +1,177 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import api from '../src/api';
+import { ValidationError } from '../src/api/errors';
+import priceTrackingService from '../src/services/priceTrackingService';
+import { FlightSearchRequest } from '../src/types/flight';
+import { TrackedFare } from '../src/types/priceTracking';
+import { PRICE_CHECK_INTERVAL_MS, recordPrice } from '../src/utils/priceTracking';
+import { createFlight, createItinerary, createOffer as createBaseOffer, createPrice } from './fixtures/offers';
+
+const createOffer = (flightNumber: string, price: number) => createBaseOffer({
+  id: flightNumber,
+  itineraries: [createItinerary([
+    createFlight('JFK', '2027-03-01T09:00:00', 'LHR', '2027-03-01T21:00:00', { id: flightNumber, number: flightNumber }),
+  ])],
+  price: createPrice(price.toFixed(2)),
+});
+
+const createRequest = (changes: Partial<FlightSearchRequest> = {}): FlightSearchRequest => ({
+  originLocationCode: 'JFK',
+  destinationLocationCode: 'LHR',
+  originEntityId: '95565058',
+  destinationEntityId: '95565050',
+  departureDate: '2027-03-01',
+  returnDate: '2027-03-08',
+  adults: 1,
+  ...changes,
+});
+
+// Stand-in for the flights backend: searches return one offer per flight
+// number at its current price, the calendar one price for the day asked
+const createBackend = (prices: Record<string, number>) => {
+  const requests: InternalAxiosRequestConfig[] = [];
+  const backend = { prices, calendarPrice: 0, requests, adapter: null as unknown as AxiosAdapter };
+
+  backend.adapter = async config => {
+    requests.push(config);
+    const data = config.url === '/flights/price-calendar'
+      ? { data: { flights: { currency: 'USD', days: [{ day: config.params.fromDate, price: backend.calendarPrice }] } } }
+      : { data: Object.entries(backend.prices).map(([flightNumber, price]) => createOffer(flightNumber, price)) };
+    return { data, status: 200, statusText: 'OK', headers: {}, config };
+  };
+
+  return backend;
+};
+
+const createFare = (changes: Partial<TrackedFare> = {}): TrackedFare => ({
+  id: 'tf_1',
+  kind: 'route',
+  searchRequest: createRequest(),
+  label: 'JFK → LHR',
+  currency: 'USD',
+  rules: { belowPrice: 300, dropPercent: 10 },
+  history: [{ checkedAt: '2026-10-01T00:00:00Z', price: 400 }],
+  referencePrice: 400,
+  createdAt: '2026-10-01T00:00:00Z',
+  ...changes,
+});
+
+describe('price alert rules', () => {
+  test('alert once when the price crosses under the threshold', () => {
+    const first = recordPrice(createFare({ rules: { belowPrice: 300, dropPercent: null } }), 290);
+    expect(first.reasons).toEqual(['below_price']);
+    expect(recordPrice(first.fare, 280).reasons).toEqual([]);
+    expect(recordPrice(first.fare, 310).reasons).toEqual([]);
+  });
+
+  test('measure percentage drops from the last alert', () => {
+    const fare = createFare({ rules: { belowPrice: null, dropPercent: 10 } });
+    expect(recordPrice(fare, 370).reasons).toEqual([]);
+
+    const dropped = recordPrice(fare, 350);
+    expect(dropped.reasons).toEqual(['price_drop']);
+    expect(dropped.fare.referencePrice).toBe(350);
+    expect(dropped.fare.history.map(point => point.price)).toEqual([400, 350]);
+    expect(recordPrice(dropped.fare, 330).reasons).toEqual([]);
+    expect(recordPrice(dropped.fare, 315).reasons).toEqual(['price_drop']);
+    expect(recordPrice(dropped.fare, null).reasons).toEqual([]);
+  });
+});
+
+describe('priceTrackingService', () => {
+  let appStateListener: (state: AppStateStatus) => void;
+  const removeListener = jest.fn();
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(AppState, 'addEventListener').mockImplementation((_type, listener) => {
+      appStateListener = listener;
+      return { remove: removeListener };
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    const fares = await priceTrackingService.getTrackedFares('user-1');
+    await Promise.all(fares.map(fare => priceTrackingService.untrack('user-1', fare.id)));
+    await priceTrackingService.clearAlerts('user-1');
+  });
+
+  test('re-checks due fares when the app comes back and raises alerts', async () => {
+    const backend = createBackend({ 117: 420, 175: 400 });
+    api.defaults.adapter = backend.adapter;
+    const fare = await priceTrackingService.trackRoute('user-1', createRequest(), [createOffer('117', 420), createOffer('175', 400)]);
+    expect(fare.history.map(point => point.price)).toEqual([400]);
+    const onAlerts = jest.fn();
+    const unsubscribe = priceTrackingService.onAlerts(onAlerts);
+
+    // Just tracked, so nothing is due yet
+    const stop = priceTrackingService.startPriceChecks('user-1');
+    await priceTrackingService.checkPrices('user-1');
+    expect(backend.requests).toHaveLength(0);
+
+    backend.prices[175] = 350;
+    const later = Date.now() + PRICE_CHECK_INTERVAL_MS;
+    jest.spyOn(Date, 'now').mockReturnValue(later);
+    appStateListener('active');
+    const alerts = await priceTrackingService.checkPrices('user-1');
+
+    expect(backend.requests.map(config => config.url)).toEqual(['/flights/search']);
+    expect(alerts).toEqual([expect.objectContaining({ price: 350, previousPrice: 400, reasons: ['price_drop'] })]);
+    expect(onAlerts).toHaveBeenCalledWith(alerts);
+    const [tracked] = await priceTrackingService.getTrackedFares('user-1');
+    expect(tracked.history.map(point => point.price)).toEqual([400, 350]);
+
+    stop();
+    unsubscribe();
+    expect(removeListener).toHaveBeenCalled();
+  });
+
+  test('prices one flight from search results and one-way routes from the calendar', async () => {
+    const backend = createBackend({ 117: 420 });
+    backend.calendarPrice = 300;
+    api.defaults.adapter = backend.adapter;
+    await priceTrackingService.trackOffer('user-1', createRequest(), createOffer('117', 420));
+    // The calendar prices the route from the start, not the results at hand
+    const route = await priceTrackingService.trackRoute('user-1', createRequest({ returnDate: undefined }), [createOffer('117', 420)]);
+    expect(route.referencePrice).toBe(300);
+    expect(backend.requests.map(config => config.url)).toEqual(['/flights/price-calendar']);
+
+    backend.prices = { 175: 300 };
+    backend.calendarPrice = 280;
+    await priceTrackingService.checkPrices('user-1', { force: true });
+
+    const fares = await priceTrackingService.getTrackedFares('user-1');
+    // The tracked flight is no longer on sale
+    expect(fares.find(fare => fare.kind === 'offer')?.history.map(point => point.price)).toEqual([420, null]);
+    expect(fares.find(fare => fare.kind === 'route')?.history.map(point => point.price)).toEqual([300, 280]);
+    expect(backend.requests.slice(1).map(config => config.url).sort()).toEqual(['/flights/price-calendar', '/flights/search']);
+    expect(await priceTrackingService.getAlerts('user-1')).toEqual([]);
+  });
+
+  test('tracks a fare once and rejects invalid alert rules', async () => {
+    const offers = [createOffer('117', 420)];
+    const fare = await priceTrackingService.trackRoute('user-1', createRequest(), offers);
+    expect(await priceTrackingService.trackRoute('user-1', createRequest(), offers)).toEqual(fare);
+    expect(await priceTrackingService.getTrackedFares('user-1')).toHaveLength(1);
+
+    const error = await priceTrackingService
+      .setAlertRules('user-1', fare.id, { belowPrice: -5, dropPercent: 95 })
+      .catch(caught => caught);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.fieldErrors.map((fieldError: { path: string }) => fieldError.path)).toEqual(['belowPrice', 'dropPercent']);
+
+    await priceTrackingService.setAlertRules('user-1', fare.id, { belowPrice: 400, dropPercent: null });
+    expect((await priceTrackingService.findTrackedFare('user-1', createRequest()))?.rules).toEqual({ belowPrice: 400, dropPercent: null });
+  });
+
+  test('keeps each user\'s fares apart', async () => {
+    const fare = await priceTrackingService.trackRoute('user-1', createRequest(), [createOffer('117', 420)]);
+    expect(await priceTrackingService.getTrackedFares('user-2')).toEqual([]);
+    expect(await AsyncStorage.getItem('@gflights_price_tracking:user-1')).toContain(fare.id);
+    expect(await AsyncStorage.getItem('@gflights_price_tracking:user-2')).toBeNull();
+  });
+});
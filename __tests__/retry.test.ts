@@ -0,0 +1,98 @@
+import axios, { AxiosAdapter, AxiosError, AxiosResponse } from 'axios';
+import { attachRetryInterceptor, getBackoffDelay, parseRetryAfter } from '../src/api/retry';
+
+// Adapter that answers with the queued statuses in order
+const createAdapter = (statuses: number[], headers: Record<string, string> = {}) => {
+  const calls: string[] = [];
+  const adapter: AxiosAdapter = async config => {
+    calls.push(config.url || '');
+    const status = statuses.shift() ?? 200;
+    const response: AxiosResponse = {
+      data: {},
+      status,
+      statusText: String(status),
+      headers,
+      config,
+    };
+    if (status >= 400) {
+      throw new AxiosError('Request failed', undefined, config, null, response);
+    }
+    return response;
+  };
+  return { adapter, calls };
+};
+
+const createClient = (adapter: AxiosAdapter) => {
+  const client = axios.create({ adapter });
+  attachRetryInterceptor(client);
+  return client;
+};
+
+describe('retry policy', () => {
+  beforeEach(() => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('retries idempotent GETs on 502', async () => {
+    const { adapter, calls } = createAdapter([502, 502]);
+    const onRetry = jest.fn();
+
+    const response = await createClient(adapter).get('/flights/search-airports', {
+      retry: { onRetry },
+    });
+
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls[1][0]).toMatchObject({ attempt: 2, reason: 'HTTP 502' });
+  });
+
+  test('does not retry POST unless opted in', async () => {
+    const { adapter, calls } = createAdapter([503]);
+
+    await expect(createClient(adapter).post('/flights/search', {})).rejects.toThrow();
+    expect(calls).toHaveLength(1);
+  });
+
+  test('gives up after the configured number of retries', async () => {
+    const { adapter, calls } = createAdapter([500, 500, 500]);
+
+    await expect(
+      createClient(adapter).get('/flights/price-calendar', { retry: { retries: 1 } }),
+    ).rejects.toThrow();
+    expect(calls).toHaveLength(2);
+  });
+
+  test('does not retry client errors', async () => {
+    const { adapter, calls } = createAdapter([400]);
+
+    await expect(createClient(adapter).get('/flights/nearby-airports')).rejects.toThrow();
+    expect(calls).toHaveLength(1);
+  });
+
+  test('honours Retry-After on 429', async () => {
+    const { adapter } = createAdapter([429], { 'retry-after': '0' });
+    const onRetry = jest.fn();
+
+    await createClient(adapter).get('/flights/search-airports', { retry: { onRetry } });
+    expect(onRetry.mock.calls[0][0].delayMs).toBe(0);
+  });
+
+  test('parses Retry-After values', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+  });
+
+  test('caps backoff at the max delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.999);
+    expect(getBackoffDelay(1, 500, 8000)).toBeLessThanOrEqual(500);
+    expect(getBackoffDelay(10, 500, 8000)).toBeLessThanOrEqual(8000);
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  buildOfferShareMessage,
+  buildSearchLink,
+  getOfferKey,
+  parseQueryString,
+  parseSearchLink,
+} from '../src/utils/searchLink';
+import { FlightSearchRequest } from '../src/types/flight';
+import { createFlight, createItinerary, createOffer, createPrice } from './fixtures/offers';
+
+const NOW = new Date(2026, 10, 1, 12, 0, 0);
+
+describe('parseQueryString', () => {
+  test('decodes keys and values', () => {
+    expect(parseQueryString('?from=JFK&to=LHR&note=a%20b+c')).toEqual({
+      from: 'JFK',
+      to: 'LHR',
+      note: 'a b c',
+    });
+  });
+});
+
+describe('parseSearchLink', () => {
+  test('builds a search request from a complete link', () => {
+    const result = parseSearchLink(
+      parseQueryString('from=jfk&to=LHR&depart=2026-12-01&return=2026-12-08&adults=2&cabin=business'),
+      NOW,
+    );
+
+    expect(result).toEqual({
+      status: 'valid',
+      searchRequest: expect.objectContaining({
+        originLocationCode: 'JFK',
+        destinationLocationCode: 'LHR',
+        departureDate: '2026-12-01',
+        returnDate: '2026-12-08',
+        adults: 2,
+        children: 0,
+        infants: 0,
+        travelClass: 'BUSINESS',
+      }),
+    });
+  });
+
+  test('keeps entity IDs passed in the link', () => {
+    const result = parseSearchLink(
+      { from: 'JFK', to: 'LHR', depart: '2026-12-01', fromId: '95565058', toId: '95565050' },
+      NOW,
+    );
+
+    expect(result.status === 'valid' && result.searchRequest).toMatchObject({
+      originEntityId: '95565058',
+      destinationEntityId: '95565050',
+    });
+  });
+
+  test('rejects past, impossible and out-of-order dates', () => {
+    expect(parseSearchLink({ from: 'JFK', to: 'LHR', depart: '2026-10-01' }, NOW)).toMatchObject({
+      status: 'invalid',
+      fieldErrors: [{ path: 'departureDate' }],
+    });
+    expect(parseSearchLink({ from: 'JFK', to: 'LHR', depart: '2026-02-30' }, NOW)).toMatchObject({
+      status: 'invalid',
+      fieldErrors: [{ path: 'departureDate' }],
+    });
+    expect(
+      parseSearchLink({ from: 'JFK', to: 'LHR', depart: '2026-12-08', return: '2026-12-01' }, NOW),
+    ).toMatchObject({
+      status: 'invalid',
+      fieldErrors: [{ path: 'returnDate' }],
+    });
+  });
+
+  test('returns what it could read alongside the errors', () => {
+    const result = parseSearchLink(
+      { from: 'JFK', to: 'JFK', depart: '2026-12-01', adults: '2', infants: '3', cabin: 'LOUNGE' },
+      NOW,
+    );
+
+    expect(result.status).toBe('invalid');
+    if (result.status === 'invalid') {
+      expect(result.fieldErrors.map(fieldError => fieldError.path)).toEqual([
+        'destinationLocationCode',
+        'infants',
+        'travelClass',
+      ]);
+      expect(result.prefill).toMatchObject({ originLocationCode: 'JFK', departureDate: '2026-12-01', adults: 2 });
+    }
+  });
+});
+
+describe('buildSearchLink', () => {
+  const searchRequest: FlightSearchRequest = {
+    originLocationCode: 'JFK',
+    destinationLocationCode: 'LHR',
+    originEntityId: '95565058',
+    destinationEntityId: '95565050',
+    departureDate: '2026-12-01',
+    returnDate: '2026-12-08',
+    adults: 2,
+    children: 0,
+    infants: 0,
+    travelClass: 'BUSINESS',
+  };
+
+  const segment = (carrierCode: string, number: string, from: string, to: string, departure: string, arrival: string) =>
+    createFlight(from, departure, to, arrival, {
+      id: `${carrierCode}${number}`,
+      carrierCode,
+      number,
+      aircraft: { code: '777' },
+      duration: 'PT7H',
+    });
+
+  const offer = createOffer({
+    itineraries: [
+      createItinerary([segment('BA', '178', 'JFK', 'LHR', '2026-12-01T08:30:00', '2026-12-01T20:30:00')], 'PT7H'),
+      createItinerary([segment('BA', '179', 'LHR', 'JFK', '2026-12-08T10:15:00', '2026-12-08T13:15:00')], 'PT8H'),
+    ],
+    price: createPrice('1350.00', { base: '1100.00' }),
+  });
+
+  test('leaves out defaults', () => {
+    expect(buildSearchLink({ ...searchRequest, adults: 1, travelClass: 'ECONOMY', returnDate: '' })).toBe(
+      'https://gflights.app/search?from=JFK&to=LHR&depart=2026-12-01&fromId=95565058&toId=95565050',
+    );
+  });
+
+  test('round-trips the search and the shared offer through parseSearchLink', () => {
+    const link = buildSearchLink(searchRequest, offer);
+    const result = parseSearchLink(parseQueryString(link.split('?')[1]), NOW);
+
+    expect(result).toEqual({
+      status: 'valid',
+      searchRequest,
+      offerKey: 'BA178-202612010830~BA179-202612081015',
+    });
+    expect(getOfferKey(offer)).toBe('BA178-202612010830~BA179-202612081015');
+  });
+
+  test('round-trips multi-city legs', () => {
+    const legs = [
+      { originLocationCode: 'JFK', destinationLocationCode: 'LHR', departureDate: '2026-12-01', originEntityId: '1', destinationEntityId: '2' },
+      { originLocationCode: 'LHR', destinationLocationCode: 'CDG', departureDate: '2026-12-05' },
+    ];
+    const multiCityRequest = { ...searchRequest, ...legs[0], returnDate: undefined, legs };
+    const link = buildSearchLink(multiCityRequest);
+
+    expect(link).toContain('legs=JFK.LHR.2026-12-01.1.2~LHR.CDG.2026-12-05');
+    expect(parseSearchLink(parseQueryString(link.split('?')[1]), NOW)).toEqual({
+      status: 'valid',
+      searchRequest: multiCityRequest,
+    });
+  });
+
+  test('summarizes the offer for the share sheet', () => {
+    const message = buildOfferShareMessage(searchRequest, offer, code => (code === 'BA' ? 'British Airways' : code));
+
+    expect(message.split('\n')).toEqual([
+      'JFK → LHR Tue, Dec 1 · 08:30–20:30 · Direct · British Airways BA178',
+      'LHR → JFK Tue, Dec 8 · 10:15–13:15 · Direct · British Airways BA179',
+      '1350.00 USD · JFK → LHR · Tue, Dec 1 – Tue, Dec 8 · 2 travelers · Business',
+      buildSearchLink(searchRequest, offer),
+    ]);
+  });
+});
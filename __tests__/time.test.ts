@@ -0,0 +1,65 @@
+import {
+  getElapsedMinutes,
+  getItineraryMinutes,
+  getUtcOffsetLabel,
+  rememberAirportTimeZones,
+  toUtcMillis,
+} from '../src/utils/time';
+import { createFlight, createItinerary } from './fixtures/offers';
+
+describe('toUtcMillis', () => {
+  test('reads times as local to their airport, whatever the phone zone', () => {
+    expect(toUtcMillis({ iataCode: 'JFK', at: '2026-12-01T18:00:00' })).toBe(Date.UTC(2026, 11, 1, 23, 0));
+    expect(toUtcMillis({ iataCode: 'JFK', at: '2026-07-01T18:00:00' })).toBe(Date.UTC(2026, 6, 1, 22, 0));
+    expect(toUtcMillis({ iataCode: 'DEL', at: '2026-07-01T18:00:00' })).toBe(Date.UTC(2026, 6, 1, 12, 30));
+  });
+
+  test('uses an explicit offset in the time itself', () => {
+    expect(toUtcMillis({ iataCode: 'XXX', at: '2026-12-01T18:00:00+01:00' })).toBe(Date.UTC(2026, 11, 1, 17, 0));
+  });
+
+  test('falls back to offsets learned from airport searches', () => {
+    expect(toUtcMillis({ iataCode: 'FLN', at: '2026-12-01T10:00:00' })).toBeNull();
+    rememberAirportTimeZones([{ iataCode: 'FLN', timeZoneOffset: '-03:00' }]);
+    expect(toUtcMillis({ iataCode: 'FLN', at: '2026-12-01T10:00:00' })).toBe(Date.UTC(2026, 11, 1, 13, 0));
+  });
+});
+
+describe('getElapsedMinutes', () => {
+  test('measures real flight time across zones', () => {
+    // 18:00 in New York to 06:10 next morning in London
+    expect(getElapsedMinutes(
+      { iataCode: 'JFK', at: '2026-12-01T18:00:00' },
+      { iataCode: 'LHR', at: '2026-12-02T06:10:00' },
+    )).toBe(430);
+    // Westbound across the date line lands "before" it left
+    expect(getElapsedMinutes(
+      { iataCode: 'NRT', at: '2026-12-01T17:00:00' },
+      { iataCode: 'LAX', at: '2026-12-01T10:00:00' },
+    )).toBe(600);
+  });
+
+  test('accounts for a clock change on the day', () => {
+    // US clocks go forward at 2am on 8 March 2026
+    expect(getElapsedMinutes(
+      { iataCode: 'JFK', at: '2026-03-08T01:00:00' },
+      { iataCode: 'BOS', at: '2026-03-08T04:00:00' },
+    )).toBe(120);
+  });
+
+  test('works out itinerary time when the backend leaves it out', () => {
+    const itinerary = createItinerary([createFlight('LHR', '2026-12-01T10:00:00', 'CDG', '2026-12-01T12:15:00')]);
+
+    expect(getItineraryMinutes(itinerary)).toBe(75);
+    expect(getItineraryMinutes({ ...itinerary, duration: 'PT1H20M' })).toBe(80);
+  });
+});
+
+describe('getUtcOffsetLabel', () => {
+  test('labels the airport zone at that moment', () => {
+    expect(getUtcOffsetLabel({ iataCode: 'LHR', at: '2026-12-01T10:00:00' })).toBe('GMT');
+    expect(getUtcOffsetLabel({ iataCode: 'LHR', at: '2026-07-01T10:00:00' })).toBe('GMT+1');
+    expect(getUtcOffsetLabel({ iataCode: 'DEL', at: '2026-07-01T10:00:00' })).toBe('GMT+5:30');
+    expect(getUtcOffsetLabel({ iataCode: 'ZZZ', at: '2026-07-01T10:00:00' })).toBeNull();
+  });
+});
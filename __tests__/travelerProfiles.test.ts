@@ -0,0 +1,158 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import api from '../src/api';
+import { ValidationError } from '../src/api/errors';
+import configService from '../src/services/configService';
+import travelerProfileService from '../src/services/travelerProfileService';
+import { TravelerProfile, TravelerProfileDraft } from '../src/types/traveler';
+import { getSecureItem } from '../src/utils/secureStorage';
+
+const draft = (firstName: string, changes: Partial<TravelerProfileDraft> = {}): TravelerProfileDraft => ({
+  firstName,
+  lastName: 'Lovelace',
+  dateOfBirth: '1985-04-12',
+  gender: 'FEMALE',
+  passportNumber: 'x1234567',
+  passportExpiry: '2031-05-01',
+  nationality: 'gb',
+  knownTravelerNumber: '',
+  frequentFlyerNumbers: [{ airlineCode: 'ba', number: '12345678' }],
+  mealPreference: 'VEGETARIAN',
+  seatPreference: 'AISLE',
+  ...changes,
+});
+
+// Stand-in for the profile backend: keeps profiles in memory, or fails
+// every request while offline
+const createBackend = (initialProfiles: TravelerProfile[] = []) => {
+  const profiles = new Map(initialProfiles.map(profile => [profile.id, profile]));
+  const requests: InternalAxiosRequestConfig[] = [];
+  const backend = { profiles, requests, isOffline: false, adapter: null as unknown as AxiosAdapter };
+
+  backend.adapter = async config => {
+    requests.push(config);
+    if (backend.isOffline) {
+      throw Object.assign(new Error('Network Error'), { isAxiosError: true, code: 'ERR_NETWORK', config });
+    }
+    const id = decodeURIComponent((config.url || '').split('/')[2] || '');
+    if (config.method === 'put') {
+      profiles.set(id, JSON.parse(config.data));
+    } else if (config.method === 'delete' && !profiles.delete(id)) {
+      const response = { data: { message: 'Not found' }, status: 404, statusText: 'Not Found', headers: {}, config };
+      throw Object.assign(new Error('Not found'), { isAxiosError: true, response, config });
+    }
+    const data = config.method === 'get' ? { data: [...profiles.values()] } : { success: true };
+    return { data, status: 200, statusText: 'OK', headers: {}, config };
+  };
+
+  return backend;
+};
+
+describe('travelerProfileService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    // Offline syncs fail at once instead of backing off
+    const config = configService.getConfig();
+    jest.spyOn(configService, 'getConfig').mockReturnValue({ ...config, retry: { ...config.retry, retries: 0 } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('saves locally, normalizes the details and uploads them', async () => {
+    const backend = createBackend();
+    api.defaults.adapter = backend.adapter;
+
+    const saved = await travelerProfileService.saveProfile('user-1', draft(' Ada '));
+    expect(await travelerProfileService.getProfiles('user-1')).toEqual([saved]);
+    expect(saved).toEqual(expect.objectContaining({
+      firstName: 'Ada',
+      passportNumber: 'X1234567',
+      nationality: 'GB',
+      frequentFlyerNumbers: [{ airlineCode: 'BA', number: '12345678' }],
+    }));
+
+    await travelerProfileService.syncProfiles('user-1');
+    expect(backend.profiles.get(saved.id)).toEqual(saved);
+    expect(await travelerProfileService.hasUnsyncedChanges('user-1')).toBe(false);
+  });
+
+  test('keeps offline changes pending until a sync gets through', async () => {
+    const remote = { ...draft('Grace'), id: 'tp_remote', updatedAt: '2026-01-01T00:00:00Z' } as TravelerProfile;
+    const backend = createBackend([remote]);
+    api.defaults.adapter = backend.adapter;
+    await travelerProfileService.syncProfiles('user-2');
+
+    backend.isOffline = true;
+    const saved = await travelerProfileService.saveProfile('user-2', draft('Ada'));
+    await travelerProfileService.deleteProfile('user-2', remote.id);
+    await expect(travelerProfileService.syncProfiles('user-2')).rejects.toThrow('Network error');
+    expect(await travelerProfileService.getProfiles('user-2')).toEqual([saved]);
+    expect(await travelerProfileService.hasUnsyncedChanges('user-2')).toBe(true);
+
+    backend.isOffline = false;
+    expect(await travelerProfileService.syncProfiles('user-2')).toEqual([saved]);
+    expect([...backend.profiles.keys()]).toEqual([saved.id]);
+    expect(await travelerProfileService.hasUnsyncedChanges('user-2')).toBe(false);
+  });
+
+  test('takes profiles added on other devices and keeps users apart', async () => {
+    const backend = createBackend();
+    api.defaults.adapter = backend.adapter;
+    await travelerProfileService.saveProfile('user-3', draft('Ada'));
+    await travelerProfileService.syncProfiles('user-3');
+
+    const other = { ...draft('Grace'), id: 'tp_other', updatedAt: '2026-01-01T00:00:00Z' } as TravelerProfile;
+    backend.profiles.set(other.id, other);
+    const profiles = await travelerProfileService.syncProfiles('user-3');
+
+    expect(profiles.map(profile => profile.firstName)).toEqual(['Ada', 'Grace']);
+    expect(await travelerProfileService.getProfiles('user-4')).toEqual([]);
+  });
+
+  test('keeps profiles in secure storage and forgets them once uploaded', async () => {
+    const backend = createBackend();
+    backend.isOffline = true;
+    api.defaults.adapter = backend.adapter;
+    await travelerProfileService.saveProfile('user-6', draft('Ada'));
+
+    expect(await getSecureItem('@gflights_traveler_profiles:user-6')).toContain('X1234567');
+    expect(JSON.stringify(await AsyncStorage.multiGet(await AsyncStorage.getAllKeys()))).not.toContain('X1234567');
+
+    // Still offline, so the new profile is kept for the next sign-in
+    await travelerProfileService.clearProfiles('user-6');
+    expect(await travelerProfileService.hasUnsyncedChanges('user-6')).toBe(true);
+    expect(await getSecureItem('@gflights_traveler_profiles:user-6')).toContain('X1234567');
+
+    backend.isOffline = false;
+    const listener = jest.fn();
+    const unsubscribe = travelerProfileService.subscribe(listener);
+    await travelerProfileService.clearProfiles('user-6');
+    unsubscribe();
+
+    expect([...backend.profiles.values()].map(profile => profile.firstName)).toEqual(['Ada']);
+    expect(listener).toHaveBeenLastCalledWith('user-6', []);
+    expect(await getSecureItem('@gflights_traveler_profiles:user-6')).toBeNull();
+    expect(await travelerProfileService.getProfiles('user-6')).toEqual([]);
+    expect(await travelerProfileService.hasUnsyncedChanges('user-6')).toBe(false);
+  });
+
+  test('rejects invalid details without saving', async () => {
+    const error = await travelerProfileService
+      .saveProfile('user-5', draft('Ada', {
+        dateOfBirth: '1985-13-01',
+        passportExpiry: '',
+        frequentFlyerNumbers: [{ airlineCode: 'BA', number: '1234' }, { airlineCode: 'ba', number: '5678' }],
+      }))
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.fieldErrors.map((fieldError: { path: string }) => fieldError.path)).toEqual([
+      'dateOfBirth',
+      'passportExpiry',
+      'frequentFlyerNumbers.1.airlineCode',
+    ]);
+    expect(await travelerProfileService.getProfiles('user-5')).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+/* eslint-env jest */
+import 'react-native-gesture-handler/jestSetup';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('@react-native-community/geolocation', () => ({
+  getCurrentPosition: jest.fn(),
+  watchPosition: jest.fn(),
+  clearWatch: jest.fn(),
+}));
+
+jest.mock('react-native-maps', () => {
+  const { View } = require('react-native');
+  return {
+    __esModule: true,
+    default: View,
+    Marker: View,
+    PROVIDER_GOOGLE: 'google',
+  };
+});
+
+// In-memory keychain, one entry per service
+jest.mock('react-native-keychain', () => {
+  const entries = new Map();
+  return {
+    ACCESSIBLE: { WHEN_UNLOCKED_THIS_DEVICE_ONLY: 'AccessibleWhenUnlockedThisDeviceOnly' },
+    setGenericPassword: jest.fn(async (username, password, options = {}) => {
+      entries.set(options.service, { username, password, service: options.service, storage: 'mock' });
+      return { service: options.service, storage: 'mock' };
+    }),
+    getGenericPassword: jest.fn(async (options = {}) => entries.get(options.service) || false),
+    resetGenericPassword: jest.fn(async (options = {}) => entries.delete(options.service)),
+  };
+});
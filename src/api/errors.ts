@@ -0,0 +1,205 @@
+import axios from 'axios';
+import { FlightSearchError } from '../types/flight';
+import { parseRetryAfter } from './retry';
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'auth_expired'
+  | 'validation'
+  | 'rate_limited'
+  | 'server'
+  | 'unknown';
+
+// What the UI can offer the user to get out of the error
+export type RecoveryAction = 'retry' | 'login' | 'fix_input' | 'wait' | 'none';
+
+export interface FieldError {
+  path: string; // Dot path into the request, e.g. "departureDate" or "travelers.0.dateOfBirth"
+  message: string;
+}
+
+// Base class for every error thrown by the services
+export abstract class ApiError extends Error {
+  abstract readonly kind: ApiErrorKind;
+  abstract readonly recovery: RecoveryAction;
+  readonly statusCode: number;
+  readonly originalError?: unknown;
+
+  constructor(message: string, statusCode: number = 0, originalError?: unknown) {
+    super(message);
+    // Keep instanceof working when classes are transpiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.statusCode = statusCode;
+    this.originalError = originalError;
+  }
+}
+
+export class NetworkError extends ApiError {
+  readonly kind = 'network' as const;
+  readonly recovery = 'retry' as const;
+}
+
+export class TimeoutError extends ApiError {
+  readonly kind = 'timeout' as const;
+  readonly recovery = 'retry' as const;
+}
+
+export class AuthExpiredError extends ApiError {
+  readonly kind = 'auth_expired' as const;
+  readonly recovery = 'login' as const;
+}
+
+export class ValidationError extends ApiError {
+  readonly kind = 'validation' as const;
+  readonly recovery = 'fix_input' as const;
+  readonly fieldErrors: FieldError[];
+
+  constructor(message: string, fieldErrors: FieldError[] = [], statusCode: number = 400, originalError?: unknown) {
+    super(message, statusCode, originalError);
+    this.fieldErrors = fieldErrors;
+  }
+
+  // First message reported for a field, if any
+  getFieldError(path: string): string | undefined {
+    return this.fieldErrors.find(fieldError => fieldError.path === path)?.message;
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  readonly kind = 'rate_limited' as const;
+  readonly recovery = 'wait' as const;
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null, originalError?: unknown) {
+    super(message, 429, originalError);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ServerError extends ApiError {
+  readonly kind = 'server' as const;
+  readonly recovery = 'retry' as const;
+}
+
+export class UnknownError extends ApiError {
+  readonly kind = 'unknown' as const;
+  readonly recovery = 'none' as const;
+}
+
+export type AppError =
+  | NetworkError
+  | TimeoutError
+  | AuthExpiredError
+  | ValidationError
+  | RateLimitedError
+  | ServerError
+  | UnknownError;
+
+export const isAppError = (error: unknown): error is AppError => {
+  return error instanceof ApiError;
+};
+
+// Get the message for a field when the error is a validation error
+export const getFieldError = (error: AppError | null | undefined, path: string): string | undefined => {
+  return error instanceof ValidationError ? error.getFieldError(path) : undefined;
+};
+
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+
+// Pull a readable message out of the backend's error body
+const getServerMessage = (data: any): string | undefined => {
+  if (!data) {
+    return undefined;
+  }
+  if (typeof data.message === 'string') {
+    return data.message;
+  }
+  if (Array.isArray(data.message) && typeof data.message[0] === 'string') {
+    return data.message[0];
+  }
+  if (typeof data.error === 'string') {
+    return data.error;
+  }
+  return data.errors?.[0]?.detail;
+};
+
+// The backend answers validation failures in one of three shapes:
+// Nest class-validator (`message: string[]`), `errors: [{ field, message }]`
+// and Amadeus-style `errors: FlightSearchError[]`.
+const parseFieldErrors = (data: any): FieldError[] => {
+  if (!data) {
+    return [];
+  }
+
+  if (Array.isArray(data.message)) {
+    return data.message
+      .filter((message: unknown): message is string => typeof message === 'string')
+      .map((message: string) => ({
+        // class-validator messages start with the property path
+        path: message.split(' ')[0],
+        message,
+      }));
+  }
+
+  if (Array.isArray(data.errors)) {
+    return data.errors
+      .map((error: any) => {
+        const amadeusError = error as FlightSearchError;
+        const path = error.path || error.field || error.property || amadeusError.source?.parameter;
+        const message = error.message || amadeusError.detail || amadeusError.title;
+        return path && message ? { path: String(path), message: String(message) } : null;
+      })
+      .filter((fieldError: FieldError | null): fieldError is FieldError => !!fieldError);
+  }
+
+  return [];
+};
+
+// Turn anything thrown by axios (or our own code) into an AppError
+export const normalizeApiError = (error: unknown): AppError => {
+  if (isAppError(error)) {
+    return error;
+  }
+
+  if (!axios.isAxiosError(error)) {
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return new UnknownError(message, 0, error);
+  }
+
+  if (!error.response) {
+    if (error.code && TIMEOUT_CODES.includes(error.code)) {
+      return new TimeoutError('The request took too long. Please try again.', 0, error);
+    }
+    return new NetworkError('Network error. Please check your connection.', 0, error);
+  }
+
+  const { status, data, headers } = error.response;
+  const serverMessage = getServerMessage(data);
+  const isAuthEndpoint = (error.config?.url || '').startsWith('/auth/');
+
+  if (status === 401 && !isAuthEndpoint) {
+    return new AuthExpiredError('Your session has expired. Please sign in again.', status, error);
+  }
+  // On /auth/* a 401 or 403 means the submitted credentials were rejected
+  if (status === 400 || status === 422 || (isAuthEndpoint && (status === 401 || status === 403 || status === 409))) {
+    return new ValidationError(
+      serverMessage || 'Please check the highlighted fields.',
+      parseFieldErrors(data),
+      status,
+      error,
+    );
+  }
+  if (status === 429) {
+    return new RateLimitedError(
+      'Too many requests. Please wait a moment and try again.',
+      parseRetryAfter(headers?.['retry-after']),
+      error,
+    );
+  }
+  if (status >= 500) {
+    return new ServerError('Our servers are having trouble. Please try again shortly.', status, error);
+  }
+  return new UnknownError(serverMessage || 'An unexpected error occurred', status, error);
+};
@@ -1,17 +1,31 @@
 import axios from 'axios';
+import configService from '../services/configService';
+import { attachRetryInterceptor } from './retry';
+import { AuthExpiredError, isAppError, normalizeApiError } from './errors';
+import { isCancelledRequest } from './inflight';
+import { attachSessionInterceptors, reportUnauthorized } from './session';
 
-// Configure base URL - update this to your actual API endpoint
-const BASE_URL = 'http://3.214.204.171:3000'; // Backend runs on port 3000 without /api prefix
+export { setSessionHandler } from './session';
+export type { SessionHandler } from './session';
+
+// Base URL and timeouts come from the active API profile (see src/config)
+const initialConfig = configService.getConfig();
 
 // Create axios instance
 const api = axios.create({
-  baseURL: BASE_URL,
-  timeout: 10000,
+  baseURL: initialConfig.baseURL,
+  timeout: initialConfig.timeouts.request,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+// Keep the instance in sync when the profile is switched at runtime
+configService.subscribe((nextConfig) => {
+  api.defaults.baseURL = nextConfig.baseURL;
+  api.defaults.timeout = nextConfig.timeouts.request;
+});
+
 // Request interceptor
 api.interceptors.request.use(
   (config) => {
@@ -23,14 +37,30 @@ api.interceptors.request.use(
   }
 );
 
+// Retry policy sees the raw axios error, so it is installed first
+attachRetryInterceptor(api);
+
+// Token refresh runs before errors are normalized so it can replay a 401
+attachSessionInterceptors(api);
+
 // Response interceptor
 api.interceptors.response.use(
   (response) => {
     return response;
   },
   (error) => {
-    // Handle common errors here
-    return Promise.reject(error);
+    // Cancellations pass through untouched so callers can ignore them
+    if (isCancelledRequest(error)) {
+      return Promise.reject(error);
+    }
+    // Everything else leaves the client as a typed AppError (see ./errors)
+    // Retried requests pass through twice, so only report fresh errors
+    const isFreshError = !isAppError(error);
+    const appError = normalizeApiError(error);
+    if (isFreshError && appError instanceof AuthExpiredError) {
+      reportUnauthorized(appError);
+    }
+    return Promise.reject(appError);
   }
 );
 
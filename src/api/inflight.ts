@@ -0,0 +1,74 @@
+import axios from 'axios';
+
+interface InFlightEntry<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+// Check whether an error comes from an aborted request rather than a failure
+export const isCancelledRequest = (error: any): boolean => {
+  return axios.isCancel(error) || error?.name === 'AbortError';
+};
+
+// Shares one underlying request between callers asking for the same key.
+// Each caller can abort with its own signal; the shared request is only
+// aborted once every caller has given up on it.
+export class InFlightRequests {
+  private entries = new Map<string, InFlightEntry<any>>();
+
+  run<T>(key: string, factory: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new axios.CanceledError('Request aborted'));
+    }
+
+    let entry: InFlightEntry<T> | undefined = this.entries.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightEntry<T> = {
+        controller,
+        subscribers: 0,
+        promise: factory(controller.signal).finally(() => {
+          if (this.entries.get(key) === created) {
+            this.entries.delete(key);
+          }
+        }),
+      };
+      // Callers that aborted no longer listen, so keep the rejection handled
+      created.promise.catch(() => {});
+      this.entries.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.subscribers += 1;
+    if (!signal) {
+      return shared.promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.subscribers -= 1;
+        if (shared.subscribers === 0) {
+          shared.controller.abort();
+          if (this.entries.get(key) === shared) {
+            this.entries.delete(key);
+          }
+        }
+        reject(new axios.CanceledError('Request aborted'));
+      };
+
+      signal.addEventListener('abort', onAbort);
+      shared.promise.then(
+        (value) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      );
+    });
+  }
+}
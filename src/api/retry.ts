@@ -0,0 +1,118 @@
+import axios, { AxiosError, AxiosInstance, GenericAbortSignal } from 'axios';
+import configService from '../services/configService';
+import { RetryOptions } from '../types/api';
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+export const parseRetryAfter = (header: unknown, now: number = Date.now()): number | null => {
+  if (typeof header !== 'string' || header.trim() === '') {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+  return null;
+};
+
+// Exponential backoff with full jitter
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+};
+
+// Wait for the given delay, rejecting early if the request gets aborted
+const wait = (delayMs: number, signal?: GenericAbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError('Request aborted while waiting to retry'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError('Request aborted while waiting to retry'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener?.('abort', onAbort);
+  });
+};
+
+const resolveOptions = (retry: RetryOptions | false | undefined, method: string): RetryOptions | null => {
+  if (retry === false) {
+    return null;
+  }
+  // Non-idempotent requests only retry when the caller opts in explicitly
+  if (!retry && !IDEMPOTENT_METHODS.includes(method)) {
+    return null;
+  }
+  return retry || {};
+};
+
+// Install the retry policy on an axios instance
+export const attachRetryInterceptor = (instance: AxiosInstance): void => {
+  instance.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config;
+    if (!config || axios.isCancel(error)) {
+      return Promise.reject(error);
+    }
+
+    const method = (config.method || 'get').toLowerCase();
+    const options = resolveOptions(config.retry, method);
+    if (!options) {
+      return Promise.reject(error);
+    }
+
+    const defaults = configService.getConfig().retry;
+    const maxRetries = options.retries ?? defaults.retries;
+    const retryOnStatus = options.retryOnStatus ?? DEFAULT_RETRY_STATUSES;
+    const attempt = (config.retryCount || 0) + 1;
+    const status = error.response?.status;
+
+    // Network errors and timeouts have no response; anything else must be a retryable status
+    const isRetryable = status === undefined || retryOnStatus.includes(status);
+    if (!isRetryable || attempt > maxRetries) {
+      return Promise.reject(error);
+    }
+
+    let delayMs = getBackoffDelay(
+      attempt,
+      options.baseDelayMs ?? defaults.baseDelayMs,
+      options.maxDelayMs ?? defaults.maxDelayMs,
+    );
+    if (status === 429) {
+      const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+      if (retryAfter !== null) {
+        if (retryAfter > defaults.maxRetryAfterMs) {
+          // Not worth stalling the UI that long; let the caller surface the rate limit
+          return Promise.reject(error);
+        }
+        delayMs = retryAfter;
+      }
+    }
+
+    options.onRetry?.({
+      attempt,
+      maxRetries,
+      delayMs,
+      method: method.toUpperCase(),
+      url: config.url || '',
+      reason: status ? `HTTP ${status}` : error.code || 'NETWORK_ERROR',
+    });
+
+    await wait(delayMs, config.signal);
+    config.retryCount = attempt;
+    return instance.request(config);
+  });
+};
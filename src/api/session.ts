@@ -0,0 +1,82 @@
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { AuthExpiredError } from './errors';
+
+// Implemented by authService; kept as an interface so the api layer does not import it
+export interface SessionHandler {
+  getAccessToken(): string | null;
+  shouldRefreshAccessToken(): boolean;
+  canRefreshAccessToken(): boolean;
+  refreshAccessToken(): Promise<string>;
+  onUnauthorized(error: AuthExpiredError): void;
+}
+
+let sessionHandler: SessionHandler | null = null;
+let refreshPromise: Promise<string> | null = null;
+
+export const setSessionHandler = (handler: SessionHandler | null): void => {
+  sessionHandler = handler;
+};
+
+// Auth endpoints carry their own credentials and must never wait on a refresh
+const isAuthRequest = (config: InternalAxiosRequestConfig): boolean => {
+  return (config.url || '').startsWith('/auth/');
+};
+
+// Run at most one refresh at a time; concurrent requests wait on the same promise
+const refreshOnce = (handler: SessionHandler): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = handler.refreshAccessToken().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+const withToken = (config: InternalAxiosRequestConfig, token: string): InternalAxiosRequestConfig => {
+  config.headers.set('Authorization', `Bearer ${token}`);
+  return config;
+};
+
+// Refresh ahead of expiry, and retry once with a new token when the backend says 401
+export const attachSessionInterceptors = (instance: AxiosInstance): void => {
+  instance.interceptors.request.use(async (config) => {
+    const handler = sessionHandler;
+    if (!handler || isAuthRequest(config)) {
+      return config;
+    }
+
+    if (refreshPromise || handler.shouldRefreshAccessToken()) {
+      return withToken(config, await refreshOnce(handler));
+    }
+    return config;
+  });
+
+  instance.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const handler = sessionHandler;
+    const config = error.config;
+    if (
+      !handler ||
+      !config ||
+      error.response?.status !== 401 ||
+      isAuthRequest(config) ||
+      config.refreshedAuth ||
+      !handler.canRefreshAccessToken()
+    ) {
+      return Promise.reject(error);
+    }
+
+    config.refreshedAuth = true;
+    try {
+      const token = await refreshOnce(handler);
+      return instance.request(withToken(config, token));
+    } catch {
+      // The refresh itself failed; let the original 401 end the session
+      return Promise.reject(error);
+    }
+  });
+};
+
+// Tell the session owner that the backend rejected our credentials
+export const reportUnauthorized = (error: AuthExpiredError): void => {
+  sessionHandler?.onUnauthorized(error);
+};
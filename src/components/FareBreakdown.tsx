@@ -0,0 +1,138 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { FlightOffer } from '../types/flight';
+import { getFareBreakdown } from '../utils/fares';
+import { TRAVELER_TYPE_LABELS } from '../utils/travelers';
+import { usePreferences } from '../hooks/usePreferences';
+import currencyService from '../services/currencyService';
+
+const FEE_LABELS: Record<string, string> = {
+  SUPPLIER: 'Supplier fee',
+  TICKETING: 'Ticketing fee',
+  FORM_OF_PAYMENT: 'Payment fee',
+};
+
+interface Props {
+  offer: FlightOffer;
+}
+
+// Where the price of an offer comes from: fare, fees and taxes, then what
+// each type of traveler pays
+const FareBreakdown: React.FC<Props> = ({ offer }) => {
+  const breakdown = getFareBreakdown(offer);
+  const extras = Math.round((breakdown.grandTotal - breakdown.total) * 100) / 100;
+  const { displayCurrency } = usePreferences();
+
+  // The breakdown stays in the currency the airline charges in
+  const formatAmount = (amount: number) => currencyService.formatAmount(amount, breakdown.currency);
+
+  const renderRow = (label: string, amount: number, isTotal = false) => (
+    <View key={label} style={[styles.row, isTotal && styles.totalRow]}>
+      <Text style={[styles.label, isTotal && styles.totalText]}>{label}</Text>
+      <Text style={[styles.amount, isTotal && styles.totalText]}>{formatAmount(amount)}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>Price breakdown</Text>
+      {renderRow('Base fare', breakdown.base)}
+      {breakdown.fees.map(fee => renderRow(FEE_LABELS[fee.type] || fee.type, fee.amount))}
+      {renderRow('Taxes & charges', breakdown.taxes)}
+      {extras > 0 ? (
+        <>
+          {renderRow('Fare total', breakdown.total)}
+          {renderRow('Extras', extras)}
+          {renderRow('Total', breakdown.grandTotal, true)}
+        </>
+      ) : (
+        renderRow('Total', breakdown.total, true)
+      )}
+      {!!displayCurrency && displayCurrency !== breakdown.currency && (
+        <Text style={styles.convertedText}>
+          {currencyService.formatPrice(breakdown.grandTotal, breakdown.currency, displayCurrency)} at
+          offline exchange rates; you will be charged in {breakdown.currency}
+        </Text>
+      )}
+
+      {breakdown.travelerGroups.length > 0 && (
+        <View style={styles.travelers}>
+          <Text style={styles.subtitle}>Per traveler</Text>
+          {breakdown.travelerGroups.map(group => (
+            <View key={group.travelerType} style={styles.row}>
+              <Text style={styles.label}>
+                {group.count} × {TRAVELER_TYPE_LABELS[group.travelerType] || group.travelerType}
+                <Text style={styles.perTraveler}> · {formatAmount(group.perTraveler)} each</Text>
+              </Text>
+              <Text style={styles.amount}>{formatAmount(group.subtotal)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  totalRow: {
+    marginTop: 8,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#E1E5E9',
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666666',
+  },
+  amount: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  totalText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  convertedText: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 4,
+    textAlign: 'right',
+  },
+  perTraveler: {
+    fontSize: 12,
+    color: '#999999',
+  },
+  travelers: {
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#E1E5E9',
+  },
+});
+
+export default FareBreakdown;
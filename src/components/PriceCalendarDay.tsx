@@ -0,0 +1,107 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { CalendarProps } from 'react-native-calendars';
+import { PriceLevel } from '../types/flight';
+
+// What the calendar passes to a custom day component
+type CalendarDayProps = React.ComponentProps<NonNullable<CalendarProps['dayComponent']>>;
+
+export interface DayPrice {
+  label: string; // Formatted lowest fare, e.g. "$312"
+  level?: PriceLevel;
+}
+
+interface Props extends CalendarDayProps {
+  price?: DayPrice;
+}
+
+// Calendar day showing the lowest fare under the date, tinted from cheap
+// (green) to expensive (red)
+const PriceCalendarDay: React.FC<Props> = ({ date, state, marking, onPress, price }) => {
+  if (!date) {
+    return null;
+  }
+  const isDisabled = state === 'disabled' || state === 'inactive';
+  const isSelected = !!marking?.selected;
+  const level = !isDisabled && price?.level;
+
+  return (
+    <TouchableOpacity
+      style={[styles.day, level && styles[level], isSelected && styles.selected]}
+      onPress={() => onPress?.(date)}
+      disabled={isDisabled}
+      accessibilityLabel={price ? `${date.dateString}, from ${price.label}` : date.dateString}
+    >
+      <Text
+        style={[
+          styles.dayText,
+          state === 'today' && styles.todayText,
+          isDisabled && styles.disabledText,
+          isSelected && styles.selectedText,
+        ]}
+      >
+        {date.day}
+      </Text>
+      {!isDisabled && price && (
+        <Text
+          style={[styles.priceText, level && styles[`${level}Text`], isSelected && styles.selectedText]}
+          numberOfLines={1}
+          adjustsFontSizeToFit
+        >
+          {price.label}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  day: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cheap: {
+    backgroundColor: '#E8F5E9',
+  },
+  average: {
+    backgroundColor: '#FFF3E0',
+  },
+  expensive: {
+    backgroundColor: '#FFEBEE',
+  },
+  selected: {
+    backgroundColor: '#007AFF',
+  },
+  dayText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1a1a1a',
+  },
+  todayText: {
+    color: '#007AFF',
+  },
+  disabledText: {
+    color: '#d9d9d9',
+  },
+  selectedText: {
+    color: '#ffffff',
+  },
+  priceText: {
+    fontSize: 10,
+    color: '#666666',
+  },
+  cheapText: {
+    color: '#2E7D32',
+  },
+  averageText: {
+    color: '#FF9500',
+  },
+  expensiveText: {
+    color: '#F44336',
+  },
+});
+
+export default PriceCalendarDay;
@@ -0,0 +1,438 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  Switch,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { FlightOffer } from '../types/flight';
+import { ResultFilters, ResultSortKey, ResultView, StopsOption, TimeWindow } from '../types/filters';
+import {
+  DEFAULT_RESULT_FILTERS,
+  STOPS_OPTIONS,
+  TIME_WINDOWS,
+  applyResultView,
+  getFilterCounts,
+  getFilterOptions,
+} from '../utils/offerFilters';
+import { usePreferences } from '../hooks/usePreferences';
+import currencyService from '../services/currencyService';
+
+const SORT_OPTIONS: { value: ResultSortKey; label: string }[] = [
+  { value: 'recommended', label: 'Recommended' },
+  { value: 'best', label: 'Best' },
+  { value: 'price', label: 'Lowest price' },
+  { value: 'duration', label: 'Shortest' },
+  { value: 'departure', label: 'Earliest departure' },
+  { value: 'arrival', label: 'Earliest arrival' },
+];
+
+const TIME_WINDOW_LABELS: Record<TimeWindow, string> = {
+  early_morning: 'Before 6am',
+  morning: '6am–12pm',
+  afternoon: '12pm–6pm',
+  evening: 'After 6pm',
+};
+
+const STOPS_LABELS: Record<StopsOption, string> = {
+  0: 'Direct',
+  1: '1 stop',
+  2: '2+ stops',
+};
+
+const CABIN_LABELS: Record<string, string> = {
+  ECONOMY: 'Economy',
+  PREMIUM_ECONOMY: 'Premium Economy',
+  BUSINESS: 'Business',
+  FIRST: 'First',
+};
+
+interface Props {
+  visible: boolean;
+  offers: FlightOffer[];
+  view: ResultView;
+  onChange: (view: ResultView) => void;
+  onClose: () => void;
+  getCarrierName: (carrierCode: string) => string;
+}
+
+const formatHours = (minutes: number) => `${Math.round((minutes / 60) * 10) / 10}h`;
+
+const toggle = <T,>(values: T[], value: T): T[] => {
+  return values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+};
+
+// Full-screen sheet for narrowing and ordering the results. Changes apply
+// as they are made, and every option shows how many flights it would leave.
+const ResultFiltersSheet: React.FC<Props> = ({
+  visible,
+  offers,
+  view,
+  onChange,
+  onClose,
+  getCarrierName,
+}) => {
+  const insets = useSafeAreaInsets();
+  const { filters } = view;
+  const { displayCurrency, loyaltyMemberships } = usePreferences();
+  const options = getFilterOptions(offers, filters);
+  const counts = getFilterCounts(offers, filters, options, loyaltyMemberships);
+  const matchingCount = applyResultView(offers, view, {}, loyaltyMemberships).length;
+  const currency = offers[0]?.price.currency;
+
+  const updateFilters = (changes: Partial<ResultFilters>) => {
+    onChange({ ...view, filters: { ...filters, ...changes } });
+  };
+
+  const formatPrice = (price: number) => {
+    return currencyService.formatPrice(price, currency, displayCurrency, { wholeUnits: true });
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    count: number | null,
+    isActive: boolean,
+    onPress: () => void,
+  ) => {
+    // Options that would leave nothing stay visible, but only to be turned off
+    const isDisabled = !isActive && count === 0;
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.chip, isActive && styles.chipActive, isDisabled && styles.chipDisabled]}
+        onPress={onPress}
+        disabled={isDisabled}
+      >
+        <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+          {label}
+          {count !== null && <Text style={[styles.chipCount, isActive && styles.chipTextActive]}> {count}</Text>}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  // "Any" plus one chip per suggested limit
+  const renderLimitSection = (
+    title: string,
+    steps: number[],
+    selected: number | null,
+    stepCounts: Record<number, number>,
+    formatStep: (step: number) => string,
+    onSelect: (step: number | null) => void,
+  ) => {
+    if (steps.length === 0) {
+      return null;
+    }
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{title}</Text>
+        <View style={styles.chipRow}>
+          {renderChip('any', 'Any', null, selected === null, () => onSelect(null))}
+          {steps.map(step => renderChip(
+            String(step),
+            formatStep(step),
+            stepCounts[step] ?? 0,
+            selected === step,
+            () => onSelect(selected === step ? null : step),
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderWindowSection = (
+    title: string,
+    selected: TimeWindow[],
+    windowCounts: Record<TimeWindow, number>,
+    onSelect: (windows: TimeWindow[]) => void,
+  ) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      <View style={styles.chipRow}>
+        {TIME_WINDOWS.map(window => renderChip(
+          window,
+          TIME_WINDOW_LABELS[window],
+          windowCounts[window],
+          selected.includes(window),
+          () => onSelect(toggle(selected, window)),
+        ))}
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => onChange({ ...view, filters: DEFAULT_RESULT_FILTERS })}>
+            <Text style={styles.resetText}>Reset</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Sort & Filter</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Sort by</Text>
+            <View style={styles.chipRow}>
+              {SORT_OPTIONS.map(option => renderChip(
+                option.value,
+                option.label,
+                null,
+                view.sortKey === option.value,
+                () => onChange({ ...view, sortKey: option.value }),
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Stops</Text>
+            <View style={styles.chipRow}>
+              {STOPS_OPTIONS.map(stops => renderChip(
+                String(stops),
+                STOPS_LABELS[stops],
+                counts.stops[stops],
+                filters.stops.includes(stops),
+                () => updateFilters({ stops: toggle(filters.stops, stops) }),
+              ))}
+            </View>
+          </View>
+
+          {renderLimitSection(
+            'Price',
+            options.priceSteps,
+            filters.maxPrice,
+            counts.price,
+            step => `Up to ${formatPrice(step)}`,
+            maxPrice => updateFilters({ maxPrice }),
+          )}
+
+          {renderLimitSection(
+            'Flight duration',
+            options.durationSteps,
+            filters.maxDurationMinutes,
+            counts.duration,
+            step => `Under ${formatHours(step)}`,
+            maxDurationMinutes => updateFilters({ maxDurationMinutes }),
+          )}
+
+          {renderLimitSection(
+            'Longest layover',
+            options.layoverSteps,
+            filters.maxLayoverMinutes,
+            counts.layover,
+            step => `Up to ${formatHours(step)}`,
+            maxLayoverMinutes => updateFilters({ maxLayoverMinutes }),
+          )}
+
+          {renderWindowSection(
+            'Departure time',
+            filters.departureWindows,
+            counts.departureWindows,
+            departureWindows => updateFilters({ departureWindows }),
+          )}
+
+          {renderWindowSection(
+            'Arrival time',
+            filters.arrivalWindows,
+            counts.arrivalWindows,
+            arrivalWindows => updateFilters({ arrivalWindows }),
+          )}
+
+          {options.carriers.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Airlines</Text>
+              <View style={styles.chipRow}>
+                {options.carriers.map(carrier => renderChip(
+                  carrier,
+                  getCarrierName(carrier),
+                  counts.carriers[carrier],
+                  filters.carriers.includes(carrier),
+                  () => updateFilters({ carriers: toggle(filters.carriers, carrier) }),
+                ))}
+              </View>
+            </View>
+          )}
+
+          {options.cabins.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Cabin</Text>
+              <View style={styles.chipRow}>
+                {options.cabins.map(cabin => renderChip(
+                  cabin,
+                  CABIN_LABELS[cabin] || cabin,
+                  counts.cabins[cabin],
+                  filters.cabins.includes(cabin),
+                  () => updateFilters({ cabins: toggle(filters.cabins, cabin) }),
+                ))}
+              </View>
+            </View>
+          )}
+
+          <View style={[styles.section, styles.switchRow]}>
+            <View style={styles.switchLabel}>
+              <Text style={styles.sectionTitle}>Checked bag included</Text>
+              <Text style={styles.switchHint}>
+                {counts.checkedBags} flight{counts.checkedBags !== 1 ? 's' : ''} include a bag for every traveler
+              </Text>
+            </View>
+            <Switch
+              value={filters.checkedBagsOnly}
+              onValueChange={checkedBagsOnly => updateFilters({ checkedBagsOnly })}
+              disabled={!filters.checkedBagsOnly && counts.checkedBags === 0}
+            />
+          </View>
+
+          {(loyaltyMemberships.length > 0 || filters.earnsMilesOnly) && (
+            <View style={[styles.section, styles.switchRow]}>
+              <View style={styles.switchLabel}>
+                <Text style={styles.sectionTitle}>Earns miles on my programs</Text>
+                <Text style={styles.switchHint}>
+                  {counts.earnsMiles} flight{counts.earnsMiles !== 1 ? 's' : ''} earn on{' '}
+                  {loyaltyMemberships.map(membership => membership.airlineCode).join(', ') || 'your programs'} and partners
+                </Text>
+              </View>
+              <Switch
+                value={filters.earnsMilesOnly}
+                onValueChange={earnsMilesOnly => updateFilters({ earnsMilesOnly })}
+                disabled={!filters.earnsMilesOnly && counts.earnsMiles === 0}
+              />
+            </View>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity style={styles.applyButton} onPress={onClose}>
+            <Text style={styles.applyButtonText}>
+              Show {matchingCount} of {offers.length} flight{offers.length !== 1 ? 's' : ''}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  resetText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: '#666666',
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+    backgroundColor: '#ffffff',
+  },
+  chipActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF',
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+    fontWeight: '500',
+  },
+  chipCount: {
+    color: '#999999',
+    fontWeight: '400',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchLabel: {
+    flex: 1,
+    marginRight: 16,
+  },
+  switchHint: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: -8,
+  },
+  footer: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E1E5E9',
+  },
+  applyButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ResultFiltersSheet;
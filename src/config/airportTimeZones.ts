@@ -0,0 +1,107 @@
+// IANA time zones for busy airports, so flight times can be placed on a
+// common clock without a lookup. Airports missing here fall back to the
+// timeZoneOffset returned by the airport search.
+export const AIRPORT_TIME_ZONES: Record<string, string> = {
+  // North America
+  ATL: 'America/New_York',
+  BOS: 'America/New_York',
+  EWR: 'America/New_York',
+  JFK: 'America/New_York',
+  LGA: 'America/New_York',
+  IAD: 'America/New_York',
+  DCA: 'America/New_York',
+  MIA: 'America/New_York',
+  MCO: 'America/New_York',
+  CLT: 'America/New_York',
+  DTW: 'America/Detroit',
+  ORD: 'America/Chicago',
+  MDW: 'America/Chicago',
+  DFW: 'America/Chicago',
+  IAH: 'America/Chicago',
+  MSP: 'America/Chicago',
+  DEN: 'America/Denver',
+  PHX: 'America/Phoenix',
+  LAS: 'America/Los_Angeles',
+  LAX: 'America/Los_Angeles',
+  SFO: 'America/Los_Angeles',
+  SEA: 'America/Los_Angeles',
+  SAN: 'America/Los_Angeles',
+  HNL: 'Pacific/Honolulu',
+  ANC: 'America/Anchorage',
+  YYZ: 'America/Toronto',
+  YUL: 'America/Toronto',
+  YVR: 'America/Vancouver',
+  MEX: 'America/Mexico_City',
+  CUN: 'America/Cancun',
+  // South America
+  GRU: 'America/Sao_Paulo',
+  GIG: 'America/Sao_Paulo',
+  EZE: 'America/Argentina/Buenos_Aires',
+  SCL: 'America/Santiago',
+  BOG: 'America/Bogota',
+  LIM: 'America/Lima',
+  // Europe
+  LHR: 'Europe/London',
+  LGW: 'Europe/London',
+  STN: 'Europe/London',
+  MAN: 'Europe/London',
+  EDI: 'Europe/London',
+  DUB: 'Europe/Dublin',
+  CDG: 'Europe/Paris',
+  ORY: 'Europe/Paris',
+  NCE: 'Europe/Paris',
+  AMS: 'Europe/Amsterdam',
+  BRU: 'Europe/Brussels',
+  FRA: 'Europe/Berlin',
+  MUC: 'Europe/Berlin',
+  BER: 'Europe/Berlin',
+  ZRH: 'Europe/Zurich',
+  GVA: 'Europe/Zurich',
+  VIE: 'Europe/Vienna',
+  MAD: 'Europe/Madrid',
+  BCN: 'Europe/Madrid',
+  LIS: 'Europe/Lisbon',
+  FCO: 'Europe/Rome',
+  MXP: 'Europe/Rome',
+  CPH: 'Europe/Copenhagen',
+  ARN: 'Europe/Stockholm',
+  OSL: 'Europe/Oslo',
+  HEL: 'Europe/Helsinki',
+  WAW: 'Europe/Warsaw',
+  PRG: 'Europe/Prague',
+  ATH: 'Europe/Athens',
+  IST: 'Europe/Istanbul',
+  KEF: 'Atlantic/Reykjavik',
+  // Middle East and Africa
+  DXB: 'Asia/Dubai',
+  AUH: 'Asia/Dubai',
+  DOH: 'Asia/Qatar',
+  TLV: 'Asia/Jerusalem',
+  CAI: 'Africa/Cairo',
+  JNB: 'Africa/Johannesburg',
+  CPT: 'Africa/Johannesburg',
+  NBO: 'Africa/Nairobi',
+  ADD: 'Africa/Addis_Ababa',
+  // Asia and Oceania
+  DEL: 'Asia/Kolkata',
+  BOM: 'Asia/Kolkata',
+  SIN: 'Asia/Singapore',
+  KUL: 'Asia/Kuala_Lumpur',
+  BKK: 'Asia/Bangkok',
+  HKG: 'Asia/Hong_Kong',
+  PEK: 'Asia/Shanghai',
+  PVG: 'Asia/Shanghai',
+  CAN: 'Asia/Shanghai',
+  TPE: 'Asia/Taipei',
+  ICN: 'Asia/Seoul',
+  NRT: 'Asia/Tokyo',
+  HND: 'Asia/Tokyo',
+  KIX: 'Asia/Tokyo',
+  MNL: 'Asia/Manila',
+  CGK: 'Asia/Jakarta',
+  SYD: 'Australia/Sydney',
+  MEL: 'Australia/Melbourne',
+  BNE: 'Australia/Brisbane',
+  PER: 'Australia/Perth',
+  AKL: 'Pacific/Auckland',
+};
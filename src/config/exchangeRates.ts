@@ -0,0 +1,20 @@
+// Offline exchange rates used to show prices in the user's display currency.
+// Units of each currency per US dollar; good enough for an "approx." label,
+// never for charging. Swap in fresh rates with currencyService.setExchangeRates.
+export const EXCHANGE_RATES_AS_OF = '2026-10-01';
+
+export const STAND_IN_EXCHANGE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.86,
+  GBP: 0.75,
+  CAD: 1.38,
+  AUD: 1.52,
+  JPY: 148,
+  CHF: 0.8,
+  CNY: 7.12,
+  INR: 88.5,
+  MXN: 18.4,
+  BRL: 5.35,
+  SGD: 1.29,
+  AED: 3.67,
+};
@@ -0,0 +1,173 @@
+// Offline names for airlines, aircraft and cities, used when a response
+// dictionary is missing an entry or the results came from elsewhere
+
+// IATA airline designator to name
+export const AIRLINE_NAMES: Record<string, string> = {
+  AA: 'American Airlines',
+  AC: 'Air Canada',
+  AF: 'Air France',
+  AI: 'Air India',
+  AM: 'Aeroméxico',
+  AS: 'Alaska Airlines',
+  AY: 'Finnair',
+  AZ: 'ITA Airways',
+  B6: 'JetBlue',
+  BA: 'British Airways',
+  CA: 'Air China',
+  CX: 'Cathay Pacific',
+  DL: 'Delta Air Lines',
+  EI: 'Aer Lingus',
+  EK: 'Emirates',
+  ET: 'Ethiopian Airlines',
+  EY: 'Etihad Airways',
+  F9: 'Frontier Airlines',
+  FR: 'Ryanair',
+  HA: 'Hawaiian Airlines',
+  IB: 'Iberia',
+  JL: 'Japan Airlines',
+  KE: 'Korean Air',
+  KL: 'KLM',
+  LA: 'LATAM Airlines',
+  LH: 'Lufthansa',
+  LO: 'LOT Polish Airlines',
+  LX: 'SWISS',
+  MH: 'Malaysia Airlines',
+  MU: 'China Eastern',
+  NH: 'ANA',
+  NK: 'Spirit Airlines',
+  NZ: 'Air New Zealand',
+  OS: 'Austrian Airlines',
+  OZ: 'Asiana Airlines',
+  QF: 'Qantas',
+  QR: 'Qatar Airways',
+  SK: 'SAS',
+  SN: 'Brussels Airlines',
+  SQ: 'Singapore Airlines',
+  TG: 'Thai Airways',
+  TK: 'Turkish Airlines',
+  TP: 'TAP Air Portugal',
+  U2: 'easyJet',
+  UA: 'United Airlines',
+  VN: 'Vietnam Airlines',
+  VS: 'Virgin Atlantic',
+  WN: 'Southwest Airlines',
+  WS: 'WestJet',
+};
+
+// IATA aircraft type code to model name
+export const AIRCRAFT_NAMES: Record<string, string> = {
+  '221': 'Airbus A220-100',
+  '223': 'Airbus A220-300',
+  '319': 'Airbus A319',
+  '320': 'Airbus A320',
+  '321': 'Airbus A321',
+  '32N': 'Airbus A320neo',
+  '32Q': 'Airbus A321neo',
+  '332': 'Airbus A330-200',
+  '333': 'Airbus A330-300',
+  '339': 'Airbus A330-900neo',
+  '359': 'Airbus A350-900',
+  '351': 'Airbus A350-1000',
+  '388': 'Airbus A380',
+  '733': 'Boeing 737-300',
+  '738': 'Boeing 737-800',
+  '739': 'Boeing 737-900',
+  '7M8': 'Boeing 737 MAX 8',
+  '7M9': 'Boeing 737 MAX 9',
+  '744': 'Boeing 747-400',
+  '74H': 'Boeing 747-8',
+  '752': 'Boeing 757-200',
+  '763': 'Boeing 767-300',
+  '764': 'Boeing 767-400',
+  '772': 'Boeing 777-200',
+  '77L': 'Boeing 777-200LR',
+  '773': 'Boeing 777-300',
+  '77W': 'Boeing 777-300ER',
+  '788': 'Boeing 787-8',
+  '789': 'Boeing 787-9',
+  '78X': 'Boeing 787-10',
+  'E75': 'Embraer 175',
+  'E90': 'Embraer 190',
+  'E95': 'Embraer 195',
+  'CR9': 'Bombardier CRJ900',
+  'AT7': 'ATR 72',
+  'DH4': 'De Havilland Dash 8-400',
+};
+
+// IATA city code (or airport code where they match) to city name
+export const CITY_NAMES: Record<string, string> = {
+  ATL: 'Atlanta',
+  BCN: 'Barcelona',
+  BER: 'Berlin',
+  BJS: 'Beijing',
+  BKK: 'Bangkok',
+  BOS: 'Boston',
+  CHI: 'Chicago',
+  DEL: 'Delhi',
+  DEN: 'Denver',
+  DFW: 'Dallas',
+  DOH: 'Doha',
+  DUB: 'Dublin',
+  DXB: 'Dubai',
+  FRA: 'Frankfurt',
+  HKG: 'Hong Kong',
+  HNL: 'Honolulu',
+  IST: 'Istanbul',
+  LAS: 'Las Vegas',
+  LAX: 'Los Angeles',
+  LIS: 'Lisbon',
+  LON: 'London',
+  MAD: 'Madrid',
+  MEL: 'Melbourne',
+  MEX: 'Mexico City',
+  MIA: 'Miami',
+  MIL: 'Milan',
+  MUC: 'Munich',
+  NCE: 'Nice',
+  NYC: 'New York',
+  PAR: 'Paris',
+  PHX: 'Phoenix',
+  ROM: 'Rome',
+  SAO: 'São Paulo',
+  SEA: 'Seattle',
+  SEL: 'Seoul',
+  SFO: 'San Francisco',
+  SHA: 'Shanghai',
+  SIN: 'Singapore',
+  STO: 'Stockholm',
+  SYD: 'Sydney',
+  TYO: 'Tokyo',
+  WAS: 'Washington',
+  YTO: 'Toronto',
+  YVR: 'Vancouver',
+  ZRH: 'Zurich',
+  AMS: 'Amsterdam',
+  CPH: 'Copenhagen',
+  VIE: 'Vienna',
+};
+
+// Airports whose city code differs from their own, for when the response has no locations
+export const AIRPORT_CITY_CODES: Record<string, string> = {
+  JFK: 'NYC',
+  LGA: 'NYC',
+  EWR: 'NYC',
+  LHR: 'LON',
+  LGW: 'LON',
+  STN: 'LON',
+  CDG: 'PAR',
+  ORY: 'PAR',
+  ORD: 'CHI',
+  MDW: 'CHI',
+  IAD: 'WAS',
+  DCA: 'WAS',
+  NRT: 'TYO',
+  HND: 'TYO',
+  ICN: 'SEL',
+  PEK: 'BJS',
+  PVG: 'SHA',
+  FCO: 'ROM',
+  MXP: 'MIL',
+  GRU: 'SAO',
+  YYZ: 'YTO',
+  ARN: 'STO',
+};
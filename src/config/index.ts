@@ -0,0 +1,72 @@
+import { Platform } from 'react-native';
+import { ApiProfile, ApiProfileName, ApiTimeouts, MarketDefaults, RetryDefaults } from '../types/config';
+
+const DEFAULT_TIMEOUTS: ApiTimeouts = {
+  request: 10000,
+  search: 30000,
+  auth: 10000,
+};
+
+const DEFAULT_RETRY: RetryDefaults = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+};
+
+const DEFAULT_MARKET: MarketDefaults = {
+  market: 'en-US',
+  locale: 'en-US',
+  countryCode: 'US',
+  currency: 'USD',
+};
+
+// Android emulators reach the host machine through 10.0.2.2
+const LOCAL_HOST = Platform.OS === 'android' ? '10.0.2.2' : 'localhost';
+
+// Backend runs on port 3000 without /api prefix
+export const API_PROFILES: Record<ApiProfileName, ApiProfile> = {
+  dev: {
+    name: 'dev',
+    label: 'Development',
+    baseURL: 'http://3.214.204.171:3000',
+    timeouts: DEFAULT_TIMEOUTS,
+    retry: DEFAULT_RETRY,
+    defaults: DEFAULT_MARKET,
+  },
+  staging: {
+    name: 'staging',
+    label: 'Staging',
+    // Staging shares the dev host until it gets its own deployment
+    baseURL: 'http://3.214.204.171:3000',
+    timeouts: DEFAULT_TIMEOUTS,
+    retry: DEFAULT_RETRY,
+    defaults: DEFAULT_MARKET,
+  },
+  prod: {
+    name: 'prod',
+    label: 'Production',
+    baseURL: 'http://3.214.204.171:3000',
+    timeouts: DEFAULT_TIMEOUTS,
+    retry: DEFAULT_RETRY,
+    defaults: DEFAULT_MARKET,
+  },
+  local: {
+    name: 'local',
+    label: 'Local backend',
+    baseURL: `http://${LOCAL_HOST}:3000`,
+    timeouts: {
+      ...DEFAULT_TIMEOUTS,
+      request: 30000,
+      search: 60000,
+    },
+    // Fail fast against a local backend so errors surface while debugging
+    retry: {
+      ...DEFAULT_RETRY,
+      retries: 1,
+    },
+    defaults: DEFAULT_MARKET,
+  },
+};
+
+export const DEFAULT_PROFILE: ApiProfileName = __DEV__ ? 'dev' : 'prod';
@@ -0,0 +1,96 @@
+// Offline loyalty program data: which alliance each airline belongs to and
+// what its program is called
+import { Alliance } from '../types/traveler';
+
+export const ALLIANCE_NAMES: Record<Alliance, string> = {
+  ONEWORLD: 'oneworld',
+  STAR_ALLIANCE: 'Star Alliance',
+  SKYTEAM: 'SkyTeam',
+};
+
+// IATA airline designator to alliance, for full members only
+export const AIRLINE_ALLIANCES: Record<string, Alliance> = {
+  // oneworld
+  AA: 'ONEWORLD',
+  AS: 'ONEWORLD',
+  AY: 'ONEWORLD',
+  BA: 'ONEWORLD',
+  CX: 'ONEWORLD',
+  FJ: 'ONEWORLD',
+  IB: 'ONEWORLD',
+  JL: 'ONEWORLD',
+  MH: 'ONEWORLD',
+  QF: 'ONEWORLD',
+  QR: 'ONEWORLD',
+  RJ: 'ONEWORLD',
+  UL: 'ONEWORLD',
+  // Star Alliance
+  A3: 'STAR_ALLIANCE',
+  AC: 'STAR_ALLIANCE',
+  AI: 'STAR_ALLIANCE',
+  AV: 'STAR_ALLIANCE',
+  CA: 'STAR_ALLIANCE',
+  CM: 'STAR_ALLIANCE',
+  ET: 'STAR_ALLIANCE',
+  LH: 'STAR_ALLIANCE',
+  LO: 'STAR_ALLIANCE',
+  LX: 'STAR_ALLIANCE',
+  MS: 'STAR_ALLIANCE',
+  NH: 'STAR_ALLIANCE',
+  NZ: 'STAR_ALLIANCE',
+  OS: 'STAR_ALLIANCE',
+  OZ: 'STAR_ALLIANCE',
+  SA: 'STAR_ALLIANCE',
+  SK: 'STAR_ALLIANCE',
+  SN: 'STAR_ALLIANCE',
+  SQ: 'STAR_ALLIANCE',
+  TG: 'STAR_ALLIANCE',
+  TK: 'STAR_ALLIANCE',
+  TP: 'STAR_ALLIANCE',
+  UA: 'STAR_ALLIANCE',
+  // SkyTeam
+  AF: 'SKYTEAM',
+  AM: 'SKYTEAM',
+  AR: 'SKYTEAM',
+  CI: 'SKYTEAM',
+  DL: 'SKYTEAM',
+  GA: 'SKYTEAM',
+  KE: 'SKYTEAM',
+  KL: 'SKYTEAM',
+  KQ: 'SKYTEAM',
+  ME: 'SKYTEAM',
+  MU: 'SKYTEAM',
+  RO: 'SKYTEAM',
+  SV: 'SKYTEAM',
+  UX: 'SKYTEAM',
+  VN: 'SKYTEAM',
+  VS: 'SKYTEAM',
+};
+
+// IATA airline designator to the name of its loyalty program
+export const LOYALTY_PROGRAM_NAMES: Record<string, string> = {
+  AA: 'AAdvantage',
+  AC: 'Aeroplan',
+  AF: 'Flying Blue',
+  AS: 'Mileage Plan',
+  AY: 'Finnair Plus',
+  B6: 'TrueBlue',
+  BA: 'Executive Club',
+  CX: 'Asia Miles',
+  DL: 'SkyMiles',
+  EK: 'Skywards',
+  EY: 'Etihad Guest',
+  IB: 'Iberia Plus',
+  JL: 'JAL Mileage Bank',
+  KL: 'Flying Blue',
+  LH: 'Miles & More',
+  LX: 'Miles & More',
+  NH: 'ANA Mileage Club',
+  OS: 'Miles & More',
+  QF: 'Frequent Flyer',
+  QR: 'Privilege Club',
+  SQ: 'KrisFlyer',
+  TK: 'Miles&Smiles',
+  UA: 'MileagePlus',
+  VS: 'Flying Club',
+};
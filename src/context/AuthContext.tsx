@@ -1,6 +1,9 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import authService from '../services/authService';
-import { User, AuthError } from '../types/auth';
+import configService from '../services/configService';
+import preferencesService from '../services/preferencesService';
+import { User } from '../types/auth';
+import { AppError, AuthExpiredError, normalizeApiError } from '../api/errors';
 
 interface AuthContextType {
   user: User | null;
@@ -9,7 +12,7 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<void>;
   register: (name: string, email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
-  error: string | null;
+  error: AppError | null;
   clearError: () => void;
 }
 
@@ -22,7 +25,7 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AppError | null>(null);
 
   const isAuthenticated = !!user;
 
@@ -30,9 +33,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, []);
 
+  // Drop the stale user as soon as the backend rejects the session
+  useEffect(() => {
+    return authService.onSessionExpired(() => {
+      setUser(null);
+      setError(new AuthExpiredError('Your session has expired. Please sign in again.', 401));
+    });
+  }, []);
+
   const initializeAuth = async () => {
     try {
-      setIsLoading(true);
+      // Apply the persisted API profile and preferences before any request goes out
+      await configService.initializeConfig();
+      await preferencesService.initializePreferences();
       const isAuth = await authService.initializeAuth();
       if (isAuth) {
         setUser(authService.getCurrentUser());
@@ -50,9 +63,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setIsLoading(true);
       const response = await authService.login({ email, password });
       setUser(response.user);
-    } catch (error: any) {
-      setError(error.message || 'Login failed');
-      throw error;
+    } catch (loginError) {
+      const appError = normalizeApiError(loginError);
+      setError(appError);
+      throw appError;
     } finally {
       setIsLoading(false);
     }
@@ -65,9 +79,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const response = await authService.register({ name, email, password });
       console.log(response);
       setUser(response.user);
-    } catch (error: any) {
-      setError(error.message || 'Registration failed');
-      throw error;
+    } catch (registerError) {
+      const appError = normalizeApiError(registerError);
+      setError(appError);
+      throw appError;
     } finally {
       setIsLoading(false);
     }
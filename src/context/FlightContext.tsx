@@ -1,23 +1,36 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import {
+  FlightDictionaries,
   FlightOffer,
   FlightSearchRequest,
   FlightSearchResponse,
   PopularRoute,
   RecentSearch,
 } from '../types/flight';
+import { RetryAttempt } from '../types/api';
+import { isCancelledRequest } from '../api/inflight';
+import { AppError, normalizeApiError } from '../api/errors';
 import flightService from '../services/flightService';
 
+export type SearchOutcome =
+  | { status: 'completed' }
+  | { status: 'failed'; error: AppError }
+  | { status: 'superseded' }; // A newer search replaced this one
+
 interface FlightContextType {
   // State
   flightOffers: FlightOffer[];
+  // Carrier, aircraft and location names that came with flightOffers
+  dictionaries: FlightDictionaries;
   popularRoutes: PopularRoute[];
   recentSearches: RecentSearch[];
   isLoading: boolean;
-  searchError: string | null;
+  searchError: AppError | null;
+  retryAttempt: RetryAttempt | null;
 
   // Actions
-  searchFlights: (searchRequest: FlightSearchRequest) => Promise<void>;
+  searchFlights: (searchRequest: FlightSearchRequest) => Promise<SearchOutcome>;
+  cancelSearch: () => void;
   clearSearchResults: () => void;
   getPopularRoutes: () => Promise<void>;
   getRecentSearches: () => Promise<void>;
@@ -32,33 +45,70 @@ interface FlightProviderProps {
 
 export const FlightProvider: React.FC<FlightProviderProps> = ({ children }) => {
   const [flightOffers, setFlightOffers] = useState<FlightOffer[]>([]);
+  const [dictionaries, setDictionaries] = useState<FlightDictionaries>({});
   const [popularRoutes, setPopularRoutes] = useState<PopularRoute[]>([]);
   const [recentSearches, setRecentSearches] = useState<RecentSearch[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [searchError, setSearchError] = useState<string | null>(null);
+  const [searchError, setSearchError] = useState<AppError | null>(null);
+  const [retryAttempt, setRetryAttempt] = useState<RetryAttempt | null>(null);
+
+  const searchControllerRef = useRef<AbortController | null>(null);
+
+  // Search flights, cancelling any search that is still running
+  const searchFlights = async (searchRequest: FlightSearchRequest): Promise<SearchOutcome> => {
+    searchControllerRef.current?.abort();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
 
-  // Search flights
-  const searchFlights = async (searchRequest: FlightSearchRequest) => {
     try {
       setIsLoading(true);
       setSearchError(null);
+      setRetryAttempt(null);
       
-      const response: FlightSearchResponse = await flightService.searchFlights(searchRequest);
+      const response: FlightSearchResponse = await flightService.searchFlights(searchRequest, {
+        signal: controller.signal,
+        onRetry: setRetryAttempt,
+      });
+      if (controller.signal.aborted) {
+        return { status: 'superseded' };
+      }
       setFlightOffers(response.data);
+      setDictionaries(response.dictionaries || {});
       
       // Refresh recent searches to show the new search
       await getRecentSearches();
-    } catch (error: any) {
-      setSearchError(error.message || 'Failed to search flights');
+      return { status: 'completed' };
+    } catch (error) {
+      if (controller.signal.aborted || isCancelledRequest(error)) {
+        return { status: 'superseded' };
+      }
+      const appError = normalizeApiError(error);
+      setSearchError(appError);
       setFlightOffers([]);
+      setDictionaries({});
+      return { status: 'failed', error: appError };
     } finally {
-      setIsLoading(false);
+      // Only the latest search owns the loading state
+      if (searchControllerRef.current === controller) {
+        searchControllerRef.current = null;
+        setIsLoading(false);
+        setRetryAttempt(null);
+      }
     }
   };
 
+  // Cancel the running search, if any
+  const cancelSearch = () => {
+    searchControllerRef.current?.abort();
+    searchControllerRef.current = null;
+    setIsLoading(false);
+    setRetryAttempt(null);
+  };
+
   // Clear search results
   const clearSearchResults = () => {
     setFlightOffers([]);
+    setDictionaries({});
     setSearchError(null);
   };
 
@@ -101,13 +151,16 @@ export const FlightProvider: React.FC<FlightProviderProps> = ({ children }) => {
   const value: FlightContextType = {
     // State
     flightOffers,
+    dictionaries,
     popularRoutes,
     recentSearches,
     isLoading,
     searchError,
+    retryAttempt,
 
     // Actions
     searchFlights,
+    cancelSearch,
     clearSearchResults,
     getPopularRoutes,
     getRecentSearches,
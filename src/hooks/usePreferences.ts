@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import preferencesService from '../services/preferencesService';
+import { UserPreferences } from '../types/preferences';
+
+// Current preferences, re-rendering the caller whenever they are saved
+export const usePreferences = (): UserPreferences => {
+  const [preferences, setPreferences] = useState(preferencesService.getPreferences());
+
+  useEffect(() => {
+    // Catch changes made between the first render and subscribing
+    setPreferences(preferencesService.getPreferences());
+    return preferencesService.subscribe(setPreferences);
+  }, []);
+
+  return preferences;
+};
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import priceTrackingService from '../services/priceTrackingService';
+import { FareAlert, TrackedFare } from '../types/priceTracking';
+
+interface PriceTrackingState {
+  trackedFares: TrackedFare[];
+  alerts: FareAlert[];
+  unreadAlertCount: number;
+}
+
+// The signed-in user's tracked fares and their alerts, kept up to date as
+// prices are checked
+export const usePriceTracking = (): PriceTrackingState => {
+  const { user } = useAuth();
+  const userId = user?._id;
+  const [trackedFares, setTrackedFares] = useState<TrackedFare[]>([]);
+  const [alerts, setAlerts] = useState<FareAlert[]>([]);
+
+  useEffect(() => {
+    if (!userId) {
+      setTrackedFares([]);
+      setAlerts([]);
+      return;
+    }
+    let isActive = true;
+    Promise.all([priceTrackingService.getTrackedFares(userId), priceTrackingService.getAlerts(userId)])
+      .then(([fares, fareAlerts]) => {
+        if (isActive) {
+          setTrackedFares(fares);
+          setAlerts(fareAlerts);
+        }
+      });
+    const unsubscribe = priceTrackingService.subscribe((changedUserId, fares, fareAlerts) => {
+      if (changedUserId === userId) {
+        setTrackedFares(fares);
+        setAlerts(fareAlerts);
+      }
+    });
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  return { trackedFares, alerts, unreadAlertCount: alerts.filter(alert => !alert.isRead).length };
+};
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppError } from '../api/errors';
+import { useAuth } from '../context/AuthContext';
+import travelerProfileService from '../services/travelerProfileService';
+import { TravelerProfile } from '../types/traveler';
+
+interface TravelerProfilesState {
+  profiles: TravelerProfile[];
+  isSyncing: boolean;
+  hasUnsyncedChanges: boolean;
+  syncError: AppError | null;
+  sync: () => Promise<void>;
+}
+
+// Saved traveler profiles of the signed-in user, kept up to date as they
+// are edited or synced
+export const useTravelerProfiles = (): TravelerProfilesState => {
+  const { user } = useAuth();
+  const userId = user?._id;
+  const [profiles, setProfiles] = useState<TravelerProfile[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [hasUnsyncedChanges, setHasUnsyncedChanges] = useState(false);
+  const [syncError, setSyncError] = useState<AppError | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setProfiles([]);
+      return;
+    }
+    let isActive = true;
+    const refresh = async () => {
+      const [nextProfiles, unsynced] = await Promise.all([
+        travelerProfileService.getProfiles(userId),
+        travelerProfileService.hasUnsyncedChanges(userId),
+      ]);
+      if (isActive) {
+        setProfiles(nextProfiles);
+        setHasUnsyncedChanges(unsynced);
+      }
+    };
+    refresh();
+    const unsubscribe = travelerProfileService.subscribe(changedUserId => {
+      if (changedUserId === userId) {
+        refresh();
+      }
+    });
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const sync = useCallback(async () => {
+    if (!userId) {
+      return;
+    }
+    try {
+      setIsSyncing(true);
+      setSyncError(null);
+      await travelerProfileService.syncProfiles(userId);
+    } catch (error) {
+      setSyncError(error as AppError);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [userId]);
+
+  return { profiles, isSyncing, hasUnsyncedChanges, syncError, sync };
+};
@@ -1,7 +1,15 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
 import { NavigationContainer } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 
+import authService from '../services/authService';
+import priceTrackingService from '../services/priceTrackingService';
+import { useAuth } from '../context/AuthContext';
+import { navigationRef, rememberCurrentRoute, resumePendingRoute } from './navigationRef';
+import { linking } from './linking';
+
+import SplashScreen from '../screens/SplashScreen';
 import LandingScreen from '../screens/LandingScreen';
 import LoginScreen from '../screens/LoginScreen';
 import SignupScreen from '../screens/SignupScreen';
@@ -9,6 +17,17 @@ import HomeScreen from '../screens/HomeScreen';
 import AirportMapScreen from '../screens/AirportMapScreen';
 import FlightSearchScreen from '../screens/FlightSearchScreen';
 import FlightResultsScreen from '../screens/FlightResultsScreen';
+import FlightDetailsScreen from '../screens/FlightDetailsScreen';
+import OfferComparisonScreen from '../screens/OfferComparisonScreen';
+import BookingTravelersScreen from '../screens/BookingTravelersScreen';
+import BookingReviewScreen from '../screens/BookingReviewScreen';
+import BookingConfirmationScreen from '../screens/BookingConfirmationScreen';
+import FlexibleDatesScreen from '../screens/FlexibleDatesScreen';
+import PreferencesScreen from '../screens/PreferencesScreen';
+import TravelerProfilesScreen from '../screens/TravelerProfilesScreen';
+import TravelerProfileEditScreen from '../screens/TravelerProfileEditScreen';
+import PriceAlertsScreen from '../screens/PriceAlertsScreen';
+import DeveloperSettingsScreen from '../screens/DeveloperSettingsScreen';
 
 export type RootStackParamList = {
   Landing: undefined;
@@ -16,17 +35,107 @@ export type RootStackParamList = {
   Signup: undefined;
   Home: undefined;
   AirportMap: undefined;
-  FlightSearch: { selectedAirports?: { origin?: import('../types/flight').Airport; destination?: import('../types/flight').Airport } };
-  FlightResults: { searchRequest: import('../types/flight').FlightSearchRequest };
+  FlightSearch: {
+    selectedAirports?: { origin?: import('../types/flight').Airport; destination?: import('../types/flight').Airport };
+    // Prefilled from a search link, with the reason it could not run as is
+    prefill?: Partial<import('../types/flight').FlightSearchRequest>;
+    prefillError?: string;
+  } | undefined;
+  // autoSearch re-runs the search on open, e.g. when resuming after re-login
+  // sharedOfferKey points out the flight a shared link was sent for
+  FlightResults: { searchRequest: import('../types/flight').FlightSearchRequest; autoSearch?: boolean; sharedOfferKey?: string };
+  // One offer with every itinerary, segment and layover
+  FlightDetails: { offer: import('../types/flight').FlightOffer; searchRequest: import('../types/flight').FlightSearchRequest };
+  // Two to four offers picked on the results screen, side by side
+  OfferComparison: { offers: import('../types/flight').FlightOffer[]; searchRequest: import('../types/flight').FlightSearchRequest };
+  // Booking funnel: price check and traveler details, review, confirmation
+  BookingTravelers: { offer: import('../types/flight').FlightOffer; searchRequest: import('../types/flight').FlightSearchRequest };
+  BookingReview: {
+    offer: import('../types/flight').FlightOffer;
+    searchRequest: import('../types/flight').FlightSearchRequest;
+    travelers: import('../types/flight').BookingTraveler[];
+    contact: import('../types/flight').BookingContact;
+  };
+  BookingConfirmation: { booking: import('../types/flight').Booking };
+  // flexDays: how many days either side of the requested dates to compare
+  FlexibleDates: { searchRequest: import('../types/flight').FlightSearchRequest; flexDays: number };
+  Preferences: undefined;
+  // Saved travelers; profileId is missing when adding a new one
+  TravelerProfiles: undefined;
+  TravelerProfileEdit: { profileId?: string } | undefined;
+  // Tracked fares, their price history and alerts
+  PriceAlerts: undefined;
+  DeveloperSettings: undefined;
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
 
 const AppNavigator: React.FC = () => {
+  const { user, isAuthenticated, isLoading, error } = useAuth();
+  const userId = user?._id;
+  const isSessionExpired = error?.kind === 'auth_expired';
+  // isLoading also covers logging in, which must not unmount the stacks, so
+  // the splash only shows until the stored session has first been restored
+  const [isRestoringSession, setIsRestoringSession] = useState(isLoading);
+
+  useEffect(() => {
+    if (!isLoading) {
+      setIsRestoringSession(false);
+    }
+  }, [isLoading]);
+
+  // Capture the interrupted screen before the app stack unmounts
+  useEffect(() => {
+    return authService.onSessionExpired(rememberCurrentRoute);
+  }, []);
+
+  // Switching stacks resets history; then resume or explain what happened
+  useEffect(() => {
+    if (isAuthenticated) {
+      resumePendingRoute();
+    } else if (isSessionExpired && navigationRef.isReady()) {
+      navigationRef.navigate('Login');
+    }
+  }, [isAuthenticated, isSessionExpired]);
+
+  // Re-check tracked fares while signed in and tell the user about drops
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+    const unsubscribe = priceTrackingService.onAlerts(alerts => {
+      Alert.alert(
+        'Price Drop',
+        alerts.length === 1
+          ? `${alerts[0].label} is cheaper than before.`
+          : `${alerts.length} of your tracked fares are cheaper than before.`,
+        [
+          { text: 'Later', style: 'cancel' },
+          {
+            text: 'View',
+            onPress: () => {
+              if (navigationRef.isReady()) {
+                navigationRef.navigate('PriceAlerts');
+              }
+            },
+          },
+        ],
+      );
+    });
+    const stopPriceChecks = priceTrackingService.startPriceChecks(userId);
+    return () => {
+      unsubscribe();
+      stopPriceChecks();
+    };
+  }, [userId]);
+
+  if (isRestoringSession) {
+    return <SplashScreen />;
+  }
+
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef} linking={linking}>
       <Stack.Navigator
-        initialRouteName="Landing"
         screenOptions={{
           headerShown: false,
           gestureEnabled: true,
@@ -46,13 +155,38 @@ const AppNavigator: React.FC = () => {
           },
         }}
       >
-        <Stack.Screen name="Landing" component={LandingScreen} />
-        <Stack.Screen name="Login" component={LoginScreen} />
-        <Stack.Screen name="Signup" component={SignupScreen} />
-        <Stack.Screen name="Home" component={HomeScreen} />
-        <Stack.Screen name="AirportMap" component={AirportMapScreen} />
-        <Stack.Screen name="FlightSearch" component={FlightSearchScreen} />
-        <Stack.Screen name="FlightResults" component={FlightResultsScreen} />
+        {isAuthenticated ? (
+          // App stack: Home is the root once signed in
+          <Stack.Group>
+            <Stack.Screen name="Home" component={HomeScreen} />
+            <Stack.Screen name="AirportMap" component={AirportMapScreen} />
+            <Stack.Screen name="FlightSearch" component={FlightSearchScreen} />
+            <Stack.Screen name="FlightResults" component={FlightResultsScreen} />
+            <Stack.Screen name="FlightDetails" component={FlightDetailsScreen} />
+            <Stack.Screen name="OfferComparison" component={OfferComparisonScreen} />
+            <Stack.Screen name="BookingTravelers" component={BookingTravelersScreen} />
+            <Stack.Screen name="BookingReview" component={BookingReviewScreen} />
+            <Stack.Screen
+              name="BookingConfirmation"
+              component={BookingConfirmationScreen}
+              options={{ gestureEnabled: false }}
+            />
+            <Stack.Screen name="FlexibleDates" component={FlexibleDatesScreen} />
+            <Stack.Screen name="Preferences" component={PreferencesScreen} />
+            <Stack.Screen name="TravelerProfiles" component={TravelerProfilesScreen} />
+            <Stack.Screen name="TravelerProfileEdit" component={TravelerProfileEditScreen} />
+            <Stack.Screen name="PriceAlerts" component={PriceAlertsScreen} />
+          </Stack.Group>
+        ) : (
+          // Auth stack: Landing is the root while signed out
+          <Stack.Group>
+            <Stack.Screen name="Landing" component={LandingScreen} />
+            <Stack.Screen name="Login" component={LoginScreen} />
+            <Stack.Screen name="Signup" component={SignupScreen} />
+          </Stack.Group>
+        )}
+        {/* Switching backends is for development only; release builds always use prod */}
+        {__DEV__ && <Stack.Screen name="DeveloperSettings" component={DeveloperSettingsScreen} />}
       </Stack.Navigator>
     </NavigationContainer>
   );
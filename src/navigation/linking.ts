@@ -0,0 +1,48 @@
+import { LinkingOptions, getStateFromPath as getDefaultStateFromPath } from '@react-navigation/native';
+import authService from '../services/authService';
+import { SEARCH_LINK_BASE_URL, parseQueryString, parseSearchLink } from '../utils/searchLink';
+import { PendingRoute, setPendingRoute } from './navigationRef';
+import type { RootStackParamList } from './AppNavigator';
+
+export const LINK_PREFIXES = ['gflights://', SEARCH_LINK_BASE_URL.replace(/\/search$/, '')];
+
+const SEARCH_PATH = 'search';
+
+// Map a search link to the screen that should open for it
+const getSearchRoute = (query: string): PendingRoute => {
+  const result = parseSearchLink(parseQueryString(query));
+  if (result.status === 'valid') {
+    return {
+      name: 'FlightResults',
+      params: { searchRequest: result.searchRequest, autoSearch: true, sharedOfferKey: result.offerKey },
+    };
+  }
+  // Let the user complete what the link left out
+  return {
+    name: 'FlightSearch',
+    params: { prefill: result.prefill, prefillError: result.fieldErrors[0].message },
+  };
+};
+
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: LINK_PREFIXES,
+  config: {
+    screens: {
+      FlightResults: SEARCH_PATH,
+    },
+  },
+  getStateFromPath: (path, options) => {
+    const [pathname, query = ''] = path.replace(/^\//, '').split('?');
+    if (pathname.replace(/\/$/, '') !== SEARCH_PATH) {
+      return getDefaultStateFromPath(path, options);
+    }
+
+    const route = getSearchRoute(query);
+    // Signed-out users sign in first and land on the linked search afterwards
+    if (!authService.isAuthenticated()) {
+      setPendingRoute(route);
+      return { routes: [{ name: 'Landing' }, { name: 'Login' }] };
+    }
+    return { routes: [{ name: 'Home' }, route] };
+  },
+};
@@ -0,0 +1,47 @@
+import { StackActions, createNavigationContainerRef } from '@react-navigation/native';
+import type { RootStackParamList } from './AppNavigator';
+
+export type PendingRoute = {
+  [RouteName in keyof RootStackParamList]: {
+    name: RouteName;
+    params: RootStackParamList[RouteName];
+  };
+}[keyof RootStackParamList];
+
+// Routes that do not need a signed-in user, never worth resuming
+const PUBLIC_ROUTES: (keyof RootStackParamList)[] = __DEV__
+  ? ['Landing', 'Login', 'Signup', 'DeveloperSettings']
+  : ['Landing', 'Login', 'Signup'];
+
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+let pendingRoute: PendingRoute | null = null;
+
+// Remember where to send the user once they have signed in again
+export const setPendingRoute = (route: PendingRoute | null): void => {
+  pendingRoute = route;
+};
+
+// Remember the screen the user was on when their session ended
+export const rememberCurrentRoute = (): void => {
+  if (!navigationRef.isReady()) {
+    return;
+  }
+
+  const currentRoute = navigationRef.getCurrentRoute();
+  if (currentRoute && !PUBLIC_ROUTES.includes(currentRoute.name as keyof RootStackParamList)) {
+    pendingRoute = { name: currentRoute.name, params: currentRoute.params } as PendingRoute;
+  }
+};
+
+// Once the app stack is mounted again, reopen the interrupted screen if any
+export const resumePendingRoute = (): void => {
+  const route = pendingRoute;
+  pendingRoute = null;
+
+  if (!route || route.name === 'Home' || !navigationRef.isReady()) {
+    return;
+  }
+  // Home is already the root of the app stack, so this pushes on top of it
+  navigationRef.dispatch(StackActions.push(route.name, route.params));
+};
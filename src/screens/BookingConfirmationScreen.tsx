@@ -0,0 +1,212 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { Booking } from '../types/flight';
+import currencyService from '../services/currencyService';
+import { formatLocalDate, formatLocalTime } from '../utils/time';
+import { getOfferTotal } from '../utils/fares';
+
+type RootStackParamList = {
+  Home: undefined;
+  BookingConfirmation: { booking: Booking };
+};
+
+type BookingConfirmationScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'BookingConfirmation'
+>;
+
+type BookingConfirmationScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'BookingConfirmation'
+>;
+
+interface Props {
+  navigation: BookingConfirmationScreenNavigationProp;
+  route: BookingConfirmationScreenRouteProp;
+}
+
+const BookingConfirmationScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { booking } = route.params;
+  const insets = useSafeAreaInsets();
+  const { offer } = booking;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.placeholder} />
+        <Text style={styles.headerTitle}>Booking Confirmed</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.referenceCard}>
+          <Text style={styles.checkmark}>✓</Text>
+          <Text style={styles.referenceLabel}>Booking reference</Text>
+          <Text style={styles.reference} selectable>{booking.reference}</Text>
+          <Text style={styles.referenceHint}>
+            Use this code to manage your booking or check in with the airline. A confirmation
+            has been sent to {booking.contact.email.trim()}.
+          </Text>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Flights</Text>
+          {offer.itineraries.map((itinerary, index) => {
+            const firstSegment = itinerary.segments[0];
+            const lastSegment = itinerary.segments[itinerary.segments.length - 1];
+            return (
+              <View key={index} style={styles.row}>
+                <Text style={styles.rowTitle}>
+                  {firstSegment.departure.iataCode} → {lastSegment.arrival.iataCode}
+                </Text>
+                <Text style={styles.rowText}>
+                  {formatLocalDate(firstSegment.departure.at)} · {formatLocalTime(firstSegment.departure.at)}
+                  {' · '}
+                  {itinerary.segments.map(segment => `${segment.carrierCode} ${segment.number}`).join(', ')}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Travelers</Text>
+          {booking.travelers.map(traveler => (
+            <Text key={traveler.id} style={styles.rowText}>
+              {traveler.firstName.trim()} {traveler.lastName.trim()}
+            </Text>
+          ))}
+          <Text style={styles.totalText}>
+            Total {currencyService.formatAmount(getOfferTotal(offer), offer.price.currency)}
+          </Text>
+        </View>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={styles.doneButton} onPress={() => navigation.navigate('Home')}>
+          <Text style={styles.doneButtonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  referenceCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  checkmark: {
+    fontSize: 40,
+    color: '#2E7D32',
+    marginBottom: 8,
+  },
+  referenceLabel: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  reference: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    letterSpacing: 4,
+    marginVertical: 8,
+  },
+  referenceHint: {
+    fontSize: 14,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  row: {
+    marginBottom: 12,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  rowText: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+  },
+  totalText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginTop: 12,
+  },
+  footer: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E1E5E9',
+  },
+  doneButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  doneButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default BookingConfirmationScreen;
@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { Booking, BookingContact, BookingTraveler, FlightOffer, FlightSearchRequest } from '../types/flight';
+import { normalizeApiError } from '../api/errors';
+import FareBreakdown from '../components/FareBreakdown';
+import { useFlight } from '../context/FlightContext';
+import flightService from '../services/flightService';
+import { getCarrierName } from '../utils/flightNames';
+import { describeLoyaltyProgram } from '../utils/loyalty';
+import { describeRoute } from '../utils/searchLink';
+import { formatLocalDate, formatLocalTime } from '../utils/time';
+import { TRAVELER_TYPE_LABELS } from '../utils/travelers';
+
+type RootStackParamList = {
+  Home: undefined;
+  BookingReview: {
+    offer: FlightOffer;
+    searchRequest: FlightSearchRequest;
+    travelers: BookingTraveler[];
+    contact: BookingContact;
+  };
+  BookingConfirmation: { booking: Booking };
+};
+
+type BookingReviewScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'BookingReview'
+>;
+
+type BookingReviewScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'BookingReview'
+>;
+
+interface Props {
+  navigation: BookingReviewScreenNavigationProp;
+  route: BookingReviewScreenRouteProp;
+}
+
+// Last look at flights, travelers and price before the booking is made
+const BookingReviewScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { offer, searchRequest, travelers, contact } = route.params;
+  const insets = useSafeAreaInsets();
+  const { dictionaries } = useFlight();
+  const [isBooking, setIsBooking] = useState(false);
+
+  const handleBook = async () => {
+    try {
+      setIsBooking(true);
+      const booking = await flightService.createBooking({ offer, travelers, contact });
+      // Going back from the confirmation should not lead into a finished booking
+      navigation.reset({
+        index: 1,
+        routes: [{ name: 'Home' }, { name: 'BookingConfirmation', params: { booking } }],
+      });
+    } catch (error) {
+      const appError = normalizeApiError(error);
+      if (appError.kind === 'validation') {
+        Alert.alert('Check Traveler Details', appError.message, [
+          { text: 'Edit Details', onPress: () => navigation.goBack() },
+        ]);
+      } else {
+        Alert.alert('Booking Failed', appError.message);
+      }
+    } finally {
+      setIsBooking(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          disabled={isBooking}
+        >
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Review Booking</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{describeRoute(searchRequest)}</Text>
+          {offer.itineraries.map((itinerary, index) => {
+            const firstSegment = itinerary.segments[0];
+            const lastSegment = itinerary.segments[itinerary.segments.length - 1];
+            const stops = itinerary.segments.length - 1;
+            return (
+              <View key={index} style={styles.itineraryRow}>
+                <Text style={styles.rowTitle}>
+                  {firstSegment.departure.iataCode} → {lastSegment.arrival.iataCode} · {formatLocalDate(firstSegment.departure.at)}
+                </Text>
+                <Text style={styles.rowText}>
+                  {formatLocalTime(firstSegment.departure.at)} – {formatLocalTime(lastSegment.arrival.at)}
+                  {' · '}
+                  {stops === 0 ? 'Direct' : `${stops} stop${stops > 1 ? 's' : ''}`}
+                  {' · '}
+                  {getCarrierName(firstSegment.carrierCode, dictionaries)}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Travelers</Text>
+          {travelers.map(traveler => (
+            <View key={traveler.id} style={styles.itineraryRow}>
+              <Text style={styles.rowTitle}>
+                {traveler.firstName.trim()} {traveler.lastName.trim()}
+              </Text>
+              <Text style={styles.rowText}>
+                {TRAVELER_TYPE_LABELS[traveler.travelerType] || traveler.travelerType} · Born {traveler.dateOfBirth}
+              </Text>
+              {(traveler.loyaltyPrograms || []).map(membership => (
+                <Text key={membership.airlineCode} style={styles.rowText}>
+                  Earning with {describeLoyaltyProgram(membership.airlineCode)} · {membership.number}
+                </Text>
+              ))}
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Contact</Text>
+          <Text style={styles.rowText}>{contact.email.trim()}</Text>
+          <Text style={styles.rowText}>+{contact.phoneCountryCode.replace(/^\+/, '')} {contact.phoneNumber}</Text>
+        </View>
+
+        <FareBreakdown offer={offer} />
+
+        <Text style={styles.termsText}>
+          By booking you accept the airline's fare rules. Names cannot be changed after booking.
+        </Text>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.bookButton, isBooking && styles.disabledButton]}
+          onPress={handleBook}
+          disabled={isBooking}
+        >
+          {isBooking ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <Text style={styles.bookButtonText}>Confirm and Book</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  itineraryRow: {
+    marginBottom: 12,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  rowText: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+  },
+  termsText: {
+    fontSize: 12,
+    color: '#999999',
+    marginBottom: 24,
+  },
+  footer: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E1E5E9',
+  },
+  bookButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  bookButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+});
+
+export default BookingReviewScreen;
@@ -0,0 +1,646 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import {
+  BookingContact,
+  BookingTraveler,
+  FlightOffer,
+  FlightSearchRequest,
+  OfferPriceCheck,
+} from '../types/flight';
+import { AppError, ValidationError, getFieldError, normalizeApiError } from '../api/errors';
+import { isCancelledRequest } from '../api/inflight';
+import { usePreferences } from '../hooks/usePreferences';
+import { useTravelerProfiles } from '../hooks/useTravelerProfiles';
+import flightService from '../services/flightService';
+import currencyService from '../services/currencyService';
+import { FrequentFlyerNumber, TravelerProfile } from '../types/traveler';
+import { getEarningMemberships } from '../utils/loyalty';
+import { describeRoute } from '../utils/searchLink';
+import {
+  TRAVELER_TYPE_LABELS,
+  createBookingTravelers,
+  isProfileEligible,
+  validateContact,
+  validateTravelers,
+} from '../utils/travelers';
+
+const GENDER_OPTIONS: { value: NonNullable<BookingTraveler['gender']>; label: string }[] = [
+  { value: 'FEMALE', label: 'Female' },
+  { value: 'MALE', label: 'Male' },
+];
+
+type RootStackParamList = {
+  BookingTravelers: { offer: FlightOffer; searchRequest: FlightSearchRequest };
+  BookingReview: {
+    offer: FlightOffer;
+    searchRequest: FlightSearchRequest;
+    travelers: BookingTraveler[];
+    contact: BookingContact;
+  };
+};
+
+type BookingTravelersScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'BookingTravelers'
+>;
+
+type BookingTravelersScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'BookingTravelers'
+>;
+
+interface Props {
+  navigation: BookingTravelersScreenNavigationProp;
+  route: BookingTravelersScreenRouteProp;
+}
+
+// First step of booking: confirm the current price, then collect every
+// traveler's details and a contact for the booking
+const BookingTravelersScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { offer, searchRequest } = route.params;
+  const insets = useSafeAreaInsets();
+  const [priceCheck, setPriceCheck] = useState<OfferPriceCheck | null>(null);
+  const [pricingError, setPricingError] = useState<AppError | null>(null);
+  const [isNewPriceAccepted, setIsNewPriceAccepted] = useState(false);
+  const [travelers, setTravelers] = useState<BookingTraveler[]>(() => createBookingTravelers(offer));
+  const [contact, setContact] = useState<BookingContact>({ email: '', phoneCountryCode: '', phoneNumber: '' });
+  const [formError, setFormError] = useState<AppError | null>(null);
+  const { profiles } = useTravelerProfiles();
+  const { loyaltyMemberships } = usePreferences();
+
+  const checkPrice = (signal?: AbortSignal) => {
+    setPriceCheck(null);
+    setPricingError(null);
+    flightService.confirmOfferPrice(offer, { signal })
+      .then(setPriceCheck)
+      .catch((error) => {
+        if (!isCancelledRequest(error)) {
+          setPricingError(normalizeApiError(error));
+        }
+      });
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    checkPrice(controller.signal);
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [offer]);
+
+  // Numbers the traveler may use: their saved profile's, plus the user's own
+  // programs on the row that is the user
+  const getOwnMemberships = (traveler: BookingTraveler) => [
+    ...(profiles.find(profile => profile.id === traveler.profileId)?.frequentFlyerNumbers || []),
+    ...(traveler.isAccountHolder ? loyaltyMemberships : []),
+  ];
+
+  // Drop picked numbers that no longer belong to the traveler, e.g. once
+  // their details stop matching the profile they came from
+  const keepOwnPrograms = (traveler: BookingTraveler): BookingTraveler => {
+    const ownMemberships = getOwnMemberships(traveler);
+    return traveler.loyaltyPrograms ? {
+      ...traveler,
+      loyaltyPrograms: traveler.loyaltyPrograms.filter(selected => ownMemberships.some(own =>
+        own.airlineCode === selected.airlineCode && own.number === selected.number)),
+    } : traveler;
+  };
+
+  const updateTraveler = (index: number, changes: Partial<BookingTraveler>) => {
+    setTravelers(travelers.map((traveler, travelerIndex) => (
+      travelerIndex === index ? keepOwnPrograms({ ...traveler, ...changes }) : traveler
+    )));
+    setFormError(null);
+  };
+
+  // Only one traveler can be the signed-in user
+  const toggleAccountHolder = (index: number) => {
+    const isAccountHolder = !travelers[index].isAccountHolder;
+    setTravelers(travelers.map((traveler, travelerIndex) => keepOwnPrograms({
+      ...traveler,
+      isAccountHolder: travelerIndex === index && isAccountHolder,
+    })));
+    setFormError(null);
+  };
+
+  const fillFromProfile = (index: number, profile: TravelerProfile) => {
+    updateTraveler(index, {
+      firstName: profile.firstName,
+      lastName: profile.lastName,
+      dateOfBirth: profile.dateOfBirth,
+      gender: profile.gender,
+      profileId: profile.id,
+      // The saved number that earns on the most of these flights
+      loyaltyPrograms: getEarningMemberships(offer, profile.frequentFlyerNumbers).slice(0, 1),
+    });
+  };
+
+  // The traveler's own numbers that earn on this offer, unless another
+  // traveler already uses them
+  const getLoyaltyOptions = (traveler: BookingTraveler) => {
+    return getEarningMemberships(priceCheck?.offer || offer, getOwnMemberships(traveler))
+      .filter((membership, index, list) => list.findIndex(other =>
+        other.airlineCode === membership.airlineCode && other.number === membership.number) === index)
+      .filter(membership => !travelers.some(other => other !== traveler
+        && (other.loyaltyPrograms || []).some(used => used.number === membership.number)));
+  };
+
+  // One number per program; picking another number for the same airline swaps it
+  const toggleLoyaltyProgram = (index: number, membership: FrequentFlyerNumber) => {
+    const current = travelers[index].loyaltyPrograms || [];
+    const isSelected = current.some(selected => selected.number === membership.number);
+    updateTraveler(index, {
+      loyaltyPrograms: isSelected
+        ? current.filter(selected => selected.number !== membership.number)
+        : [...current.filter(selected => selected.airlineCode !== membership.airlineCode), membership],
+    });
+  };
+
+  const updateContact = (changes: Partial<BookingContact>) => {
+    setContact({ ...contact, ...changes });
+    setFormError(null);
+  };
+
+  const handleContinue = () => {
+    if (!priceCheck) {
+      return;
+    }
+    const fieldErrors = [
+      ...validateTravelers(travelers, priceCheck.offer),
+      ...validateContact(contact),
+    ];
+    if (fieldErrors.length > 0) {
+      setFormError(new ValidationError('Please check the highlighted fields.', fieldErrors));
+      return;
+    }
+    navigation.navigate('BookingReview', { offer: priceCheck.offer, searchRequest, travelers, contact });
+  };
+
+  // "Adult 1", "Child 1", "Infant (on lap) 1"
+  const getTravelerTitle = (traveler: BookingTraveler, index: number) => {
+    const number = travelers.slice(0, index + 1).filter(other => other.travelerType === traveler.travelerType).length;
+    return `${TRAVELER_TYPE_LABELS[traveler.travelerType] || traveler.travelerType} ${number}`;
+  };
+
+  const renderField = (
+    label: string,
+    path: string,
+    value: string,
+    onChangeText: (text: string) => void,
+    inputProps: React.ComponentProps<typeof TextInput> = {},
+  ) => (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={[styles.input, !!getFieldError(formError, path) && styles.inputInvalid]}
+        value={value}
+        onChangeText={onChangeText}
+        autoCorrect={false}
+        {...inputProps}
+      />
+      {getFieldError(formError, path) && (
+        <Text style={styles.fieldErrorText}>{getFieldError(formError, path)}</Text>
+      )}
+    </View>
+  );
+
+  // Saved travelers old enough (or young enough) for this seat, each used once
+  const getProfileOptions = (traveler: BookingTraveler) => {
+    if (!priceCheck) {
+      return [];
+    }
+    return profiles.filter(profile =>
+      isProfileEligible(profile, traveler.travelerType, priceCheck.offer)
+      && !travelers.some(other => other !== traveler && other.profileId === profile.id));
+  };
+
+  const renderTraveler = (traveler: BookingTraveler, index: number) => (
+    <View key={traveler.id} style={styles.card}>
+      <Text style={styles.cardTitle}>{getTravelerTitle(traveler, index)}</Text>
+      {getProfileOptions(traveler).length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.profileRow}
+          contentContainerStyle={styles.chipRow}
+        >
+          {getProfileOptions(traveler).map(profile => {
+            const isActive = traveler.profileId === profile.id;
+            return (
+              <TouchableOpacity
+                key={profile.id}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => fillFromProfile(index, profile)}
+              >
+                <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                  {profile.firstName} {profile.lastName}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+      {renderField('First name', `travelers.${index}.firstName`, traveler.firstName,
+        firstName => updateTraveler(index, { firstName, profileId: undefined }), { autoCapitalize: 'words', placeholder: 'As on passport' })}
+      {renderField('Last name', `travelers.${index}.lastName`, traveler.lastName,
+        lastName => updateTraveler(index, { lastName, profileId: undefined }), { autoCapitalize: 'words', placeholder: 'As on passport' })}
+      {renderField('Date of birth', `travelers.${index}.dateOfBirth`, traveler.dateOfBirth,
+        dateOfBirth => updateTraveler(index, { dateOfBirth: dateOfBirth.trim(), profileId: undefined }),
+        { placeholder: 'YYYY-MM-DD', keyboardType: 'numbers-and-punctuation', maxLength: 10 })}
+
+      <Text style={styles.label}>Gender</Text>
+      <View style={styles.chipRow}>
+        {GENDER_OPTIONS.map(option => {
+          const isActive = traveler.gender === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => updateTraveler(index, { gender: option.value })}
+            >
+              <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {getFieldError(formError, `travelers.${index}.gender`) && (
+        <Text style={styles.fieldErrorText}>{getFieldError(formError, `travelers.${index}.gender`)}</Text>
+      )}
+
+      {loyaltyMemberships.length > 0 && (
+        <View style={[styles.chipRow, styles.labelSpacing]}>
+          <TouchableOpacity
+            style={[styles.chip, traveler.isAccountHolder && styles.chipActive]}
+            onPress={() => toggleAccountHolder(index)}
+          >
+            <Text style={[styles.chipText, traveler.isAccountHolder && styles.chipTextActive]}>This is me</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {getLoyaltyOptions(traveler).length > 0 && (
+        <>
+          <Text style={[styles.label, styles.labelSpacing]}>Earn miles with</Text>
+          <View style={[styles.chipRow, styles.chipRowWrap]}>
+            {getLoyaltyOptions(traveler).map(membership => {
+              const isActive = (traveler.loyaltyPrograms || []).some(selected => selected.number === membership.number);
+              return (
+                <TouchableOpacity
+                  key={`${membership.airlineCode}-${membership.number}`}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() => toggleLoyaltyProgram(index, membership)}
+                >
+                  <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                    {membership.airlineCode} {membership.number}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {getFieldError(formError, `travelers.${index}.loyaltyPrograms`) && (
+            <Text style={styles.fieldErrorText}>{getFieldError(formError, `travelers.${index}.loyaltyPrograms`)}</Text>
+          )}
+        </>
+      )}
+    </View>
+  );
+
+  const renderContent = () => {
+    if (pricingError) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.errorTitle}>We could not confirm this price</Text>
+          <Text style={styles.errorMessage}>{pricingError.message}</Text>
+          {pricingError.recovery === 'retry' && (
+            <TouchableOpacity style={styles.primaryButton} onPress={() => checkPrice()}>
+              <Text style={styles.primaryButtonText}>Try Again</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => navigation.goBack()}>
+            <Text style={styles.secondaryButtonText}>Back to Flight</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (!priceCheck) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Checking the latest price...</Text>
+        </View>
+      );
+    }
+
+    const currency = priceCheck.offer.price.currency;
+    if (priceCheck.priceChanged && !isNewPriceAccepted) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.errorTitle}>The price has changed</Text>
+          <Text style={styles.errorMessage}>
+            The airline now charges {currencyService.formatAmount(priceCheck.currentTotal, currency)} instead
+            of {currencyService.formatAmount(priceCheck.previousTotal, offer.price.currency)} for this flight.
+          </Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={() => setIsNewPriceAccepted(true)}>
+            <Text style={styles.primaryButtonText}>Continue at New Price</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => navigation.goBack()}>
+            <Text style={styles.secondaryButtonText}>Back to Flight</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <View style={styles.summary}>
+            <Text style={styles.summaryRoute}>{describeRoute(searchRequest)}</Text>
+            <Text style={styles.summaryText}>
+              Price confirmed: {currencyService.formatAmount(priceCheck.currentTotal, currency)}
+            </Text>
+          </View>
+
+          <Text style={styles.sectionTitle}>Travelers</Text>
+          <Text style={styles.hintText}>
+            Enter names exactly as they appear on each passport{profiles.length > 0 ? ', or pick a saved traveler' : ''}.
+          </Text>
+          {travelers.map(renderTraveler)}
+
+          <Text style={styles.sectionTitle}>Contact</Text>
+          <View style={styles.card}>
+            {renderField('Email', 'contact.email', contact.email, email => updateContact({ email }), {
+              keyboardType: 'email-address',
+              autoCapitalize: 'none',
+              placeholder: 'For your confirmation',
+            })}
+            <View style={styles.phoneRow}>
+              <View style={styles.phoneCountryCode}>
+                {renderField('Code', 'contact.phoneCountryCode', contact.phoneCountryCode,
+                  phoneCountryCode => updateContact({ phoneCountryCode }),
+                  { keyboardType: 'phone-pad', placeholder: '+44', maxLength: 4 })}
+              </View>
+              <View style={styles.phoneNumber}>
+                {renderField('Phone', 'contact.phoneNumber', contact.phoneNumber,
+                  phoneNumber => updateContact({ phoneNumber }),
+                  { keyboardType: 'phone-pad', placeholder: 'For changes to your flight' })}
+              </View>
+            </View>
+          </View>
+
+          {formError && (
+            <Text style={styles.formErrorText}>{formError.message}</Text>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity style={styles.primaryButton} onPress={handleContinue}>
+            <Text style={styles.primaryButtonText}>Review Booking</Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Traveler Details</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {renderContent()}
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'stretch',
+    padding: 24,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666666',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  errorMessage: {
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  summary: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  summaryRoute: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#666666',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  labelSpacing: {
+    marginTop: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    backgroundColor: '#ffffff',
+  },
+  inputInvalid: {
+    borderColor: '#F44336',
+  },
+  fieldErrorText: {
+    fontSize: 13,
+    color: '#F44336',
+    marginTop: 6,
+  },
+  formErrorText: {
+    fontSize: 14,
+    color: '#F44336',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chipRowWrap: {
+    flexWrap: 'wrap',
+  },
+  profileRow: {
+    marginBottom: 16,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+    backgroundColor: '#ffffff',
+  },
+  chipActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  phoneRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  phoneCountryCode: {
+    width: 90,
+  },
+  phoneNumber: {
+    flex: 1,
+  },
+  footer: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E1E5E9',
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
+
+export default BookingTravelersScreen;
@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import configService from '../services/configService';
+import { ApiConfig, ApiProfileName } from '../types/config';
+
+type RootStackParamList = {
+  Landing: undefined;
+  Home: undefined;
+  DeveloperSettings: undefined;
+};
+
+type DeveloperSettingsScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'DeveloperSettings'
+>;
+
+interface Props {
+  navigation: DeveloperSettingsScreenNavigationProp;
+}
+
+const DeveloperSettingsScreen: React.FC<Props> = ({ navigation }) => {
+  const insets = useSafeAreaInsets();
+  const profiles = configService.getProfiles();
+
+  const [activeConfig, setActiveConfig] = useState<ApiConfig>(configService.getConfig());
+  const [selectedProfile, setSelectedProfile] = useState<ApiProfileName>(activeConfig.name);
+  const [baseURLOverride, setBaseURLOverride] = useState(
+    activeConfig.isBaseURLOverridden ? activeConfig.baseURL : ''
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const config = await configService.setProfile(selectedProfile, baseURLOverride);
+      setActiveConfig(config);
+      Alert.alert(
+        'Configuration Saved',
+        `Requests now go to ${config.baseURL}. You may need to sign in again on the new backend.`
+      );
+    } catch (error: any) {
+      Alert.alert('Invalid Configuration', error.message || 'Failed to save configuration');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    const config = await configService.resetConfig();
+    setActiveConfig(config);
+    setSelectedProfile(config.name);
+    setBaseURLOverride('');
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Developer Settings</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Active configuration */}
+        <View style={styles.activeCard}>
+          <Text style={styles.activeLabel}>Active profile</Text>
+          <Text style={styles.activeValue}>{activeConfig.label}</Text>
+          <Text style={styles.activeDetail}>{activeConfig.baseURL}</Text>
+          <Text style={styles.activeDetail}>
+            Timeouts: {activeConfig.timeouts.request}ms / search {activeConfig.timeouts.search}ms
+          </Text>
+          <Text style={styles.activeDetail}>
+            Market: {activeConfig.defaults.market} · {activeConfig.defaults.countryCode} · {activeConfig.defaults.currency}
+          </Text>
+        </View>
+
+        {/* Profiles */}
+        <Text style={styles.sectionTitle}>API Profile</Text>
+        {profiles.map((profile) => (
+          <TouchableOpacity
+            key={profile.name}
+            style={[
+              styles.profileCard,
+              selectedProfile === profile.name && styles.profileCardActive
+            ]}
+            onPress={() => setSelectedProfile(profile.name)}
+          >
+            <Text style={[
+              styles.profileName,
+              selectedProfile === profile.name && styles.profileNameActive
+            ]}>
+              {profile.label}
+            </Text>
+            <Text style={styles.profileURL}>{profile.baseURL}</Text>
+          </TouchableOpacity>
+        ))}
+
+        {/* Base URL override */}
+        <Text style={styles.sectionTitle}>Custom Base URL</Text>
+        <TextInput
+          style={styles.input}
+          value={baseURLOverride}
+          onChangeText={setBaseURLOverride}
+          placeholder="Optional, e.g. http://192.168.1.20:3000"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+
+        <TouchableOpacity
+          style={[styles.saveButton, isSaving && styles.disabledButton]}
+          onPress={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+          <Text style={styles.resetButtonText}>Reset to default</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  activeCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    borderLeftWidth: 4,
+    borderLeftColor: '#007AFF',
+  },
+  activeLabel: {
+    fontSize: 12,
+    color: '#666666',
+    marginBottom: 4,
+  },
+  activeValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  activeDetail: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  profileCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+  },
+  profileCardActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#E3F2FD',
+  },
+  profileName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  profileNameActive: {
+    color: '#007AFF',
+  },
+  profileURL: {
+    fontSize: 12,
+    color: '#666666',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    backgroundColor: '#ffffff',
+    marginBottom: 24,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  resetButton: {
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  resetButtonText: {
+    color: '#F44336',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
+
+export default DeveloperSettingsScreen;
@@ -0,0 +1,425 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import flightService from '../services/flightService';
+import { isCancelledRequest } from '../api/inflight';
+import { AppError, normalizeApiError } from '../api/errors';
+import { FlightSearchRequest, PriceMatrix, PriceMatrixCell } from '../types/flight';
+import { getCheapestCell, getFlexibleDates, getMatrixCell } from '../utils/priceMatrix';
+import { toDateString } from '../utils/dates';
+import { usePreferences } from '../hooks/usePreferences';
+import currencyService from '../services/currencyService';
+
+type RootStackParamList = {
+  FlightResults: { searchRequest: FlightSearchRequest; autoSearch?: boolean };
+  FlexibleDates: { searchRequest: FlightSearchRequest; flexDays: number };
+};
+
+type FlexibleDatesScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'FlexibleDates'
+>;
+
+type FlexibleDatesScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'FlexibleDates'
+>;
+
+interface Props {
+  navigation: FlexibleDatesScreenNavigationProp;
+  route: FlexibleDatesScreenRouteProp;
+}
+
+const FlexibleDatesScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { searchRequest, flexDays } = route.params;
+  const insets = useSafeAreaInsets();
+  const { displayCurrency } = usePreferences();
+
+  // Lay out the grid straight away; cells fill in as their searches finish
+  const [matrix, setMatrix] = useState<PriceMatrix>(() => {
+    const today = toDateString(new Date());
+    return {
+      departureDates: getFlexibleDates(searchRequest.departureDate, flexDays).filter(date => date >= today),
+      returnDates: searchRequest.returnDate ? getFlexibleDates(searchRequest.returnDate, flexDays) : [],
+      cells: [],
+    };
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<AppError | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+    setMatrix(prev => ({ ...prev, cells: [] }));
+
+    flightService.searchFlexibleDates(searchRequest, flexDays, {
+      signal: controller.signal,
+      onCell: (cell) => {
+        if (!controller.signal.aborted) {
+          setMatrix(prev => ({ ...prev, cells: [...prev.cells, cell] }));
+        }
+      },
+    })
+      .then((result) => {
+        if (!controller.signal.aborted) {
+          setMatrix(result);
+        }
+      })
+      .catch((searchError) => {
+        if (controller.signal.aborted || isCancelledRequest(searchError)) {
+          return;
+        }
+        setError(normalizeApiError(searchError));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      });
+
+    // Leaving the screen stops the remaining searches
+    return () => controller.abort();
+  }, [searchRequest, flexDays, attempt]);
+
+  const isRoundTrip = matrix.returnDates.length > 0;
+  const columns: (string | undefined)[] = isRoundTrip ? matrix.returnDates : [undefined];
+  const combinationCount = isRoundTrip
+    ? matrix.departureDates.reduce(
+      (count, departureDate) => count + matrix.returnDates.filter(returnDate => returnDate >= departureDate).length,
+      0,
+    )
+    : matrix.departureDates.length;
+  const cheapestCell = getCheapestCell(matrix.cells);
+
+  const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+  };
+
+  // Cells are too small for an "approx." label; the legend carries it instead
+  const formatPrice = (cell: PriceMatrixCell) => {
+    const price = currencyService.getDisplayPrice(cell.price || 0, cell.currency || 'USD', displayCurrency);
+    return currencyService.formatAmount(price.amount, price.currency, { wholeUnits: true });
+  };
+  const isConverted = matrix.cells.some(cell =>
+    currencyService.getDisplayPrice(cell.price || 0, cell.currency || 'USD', displayCurrency).isApproximate,
+  );
+
+  const handleCellPress = (cell: PriceMatrixCell) => {
+    navigation.navigate('FlightResults', {
+      searchRequest: {
+        ...searchRequest,
+        departureDate: cell.departureDate,
+        returnDate: cell.returnDate,
+      },
+      autoSearch: true,
+    });
+  };
+
+  const renderCell = (departureDate: string, returnDate?: string) => {
+    const key = `${departureDate}:${returnDate || ''}`;
+    // Coming back before leaving is not a trip
+    if (returnDate && returnDate < departureDate) {
+      return <View key={key} style={[styles.cell, styles.cellUnavailable]} />;
+    }
+
+    const cell = getMatrixCell(matrix, departureDate, returnDate);
+    const isRequestedDates = departureDate === searchRequest.departureDate
+      && returnDate === (searchRequest.returnDate || undefined);
+    const isCheapest = !!cell && cell === cheapestCell;
+
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[
+          styles.cell,
+          isRequestedDates && styles.cellRequested,
+          isCheapest && styles.cellCheapest,
+        ]}
+        onPress={() => cell && handleCellPress(cell)}
+        disabled={cell?.status !== 'loaded'}
+      >
+        {!cell ? (
+          <ActivityIndicator size="small" color="#007AFF" />
+        ) : cell.status === 'loaded' ? (
+          <Text style={[styles.cellPrice, isCheapest && styles.cellPriceCheapest]}>
+            {formatPrice(cell)}
+          </Text>
+        ) : (
+          <Text style={styles.cellEmpty}>{cell.status === 'failed' ? '!' : '—'}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Flexible Dates</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.summary}>
+          <Text style={styles.summaryRoute}>
+            {searchRequest.originLocationCode} → {searchRequest.destinationLocationCode}
+          </Text>
+          <Text style={styles.summaryText}>
+            ±{flexDays} day{flexDays > 1 ? 's' : ''} around your dates · cheapest fare per combination
+          </Text>
+          {isLoading && (
+            <Text style={styles.progressText}>
+              Checking {matrix.cells.length} of {combinationCount} date combinations…
+            </Text>
+          )}
+        </View>
+
+        {error ? (
+          <View style={styles.errorCard}>
+            <Text style={styles.errorText}>{error.message}</Text>
+            {error.recovery === 'retry' && (
+              <TouchableOpacity style={styles.errorActionButton} onPress={() => setAttempt(prev => prev + 1)}>
+                <Text style={styles.errorActionButtonText}>Try Again</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.matrix}>
+              {/* Column headers: return dates, or a single price column for one-way trips */}
+              <View style={styles.row}>
+                <View style={[styles.cell, styles.cornerCell]}>
+                  <Text style={styles.cornerText}>{isRoundTrip ? 'Depart ↓ / Return →' : 'Depart'}</Text>
+                </View>
+                {columns.map((returnDate) => (
+                  <View key={returnDate || 'price'} style={[styles.cell, styles.headerCell]}>
+                    <Text style={styles.headerCellText}>{returnDate ? formatDate(returnDate) : 'Price'}</Text>
+                  </View>
+                ))}
+              </View>
+
+              {matrix.departureDates.map((departureDate) => (
+                <View key={departureDate} style={styles.row}>
+                  <View style={[styles.cell, styles.headerCell]}>
+                    <Text style={styles.headerCellText}>{formatDate(departureDate)}</Text>
+                  </View>
+                  {columns.map((returnDate) => renderCell(departureDate, returnDate))}
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+        )}
+
+        {!error && (
+          <View style={styles.legend}>
+            <View style={styles.legendItem}>
+              <View style={[styles.legendSwatch, styles.cellCheapest]} />
+              <Text style={styles.legendText}>Cheapest</Text>
+            </View>
+            <View style={styles.legendItem}>
+              <View style={[styles.legendSwatch, styles.cellRequested]} />
+              <Text style={styles.legendText}>Your dates</Text>
+            </View>
+            <Text style={styles.legendText}>— no flights</Text>
+            {isConverted && (
+              <Text style={[styles.legendText, styles.legendNote]}>
+                Prices are approx., converted to {displayCurrency}
+              </Text>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  summary: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  summaryRoute: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  progressText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  matrix: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 8,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  cell: {
+    width: 80,
+    height: 48,
+    margin: 2,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+  },
+  cornerCell: {
+    backgroundColor: '#ffffff',
+  },
+  cornerText: {
+    fontSize: 10,
+    color: '#999999',
+    textAlign: 'center',
+  },
+  headerCell: {
+    backgroundColor: '#ffffff',
+  },
+  headerCellText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666666',
+    textAlign: 'center',
+  },
+  cellUnavailable: {
+    backgroundColor: '#f0f0f0',
+  },
+  cellRequested: {
+    borderWidth: 2,
+    borderColor: '#007AFF',
+  },
+  cellCheapest: {
+    backgroundColor: '#E8F5E9',
+  },
+  cellPrice: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  cellPriceCheapest: {
+    color: '#2E7D32',
+  },
+  cellEmpty: {
+    fontSize: 14,
+    color: '#999999',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginTop: 16,
+    marginBottom: 24,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  legendSwatch: {
+    width: 16,
+    height: 16,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#666666',
+  },
+  legendNote: {
+    width: '100%',
+    marginTop: 8,
+  },
+  errorCard: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 12,
+    padding: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#F44336',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#F44336',
+  },
+  errorActionButton: {
+    marginTop: 12,
+    alignSelf: 'flex-start',
+    backgroundColor: '#F44336',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  errorActionButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default FlexibleDatesScreen;
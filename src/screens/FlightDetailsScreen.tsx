@@ -0,0 +1,452 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { FlightOffer, FlightSearchRequest, Itinerary, Segment } from '../types/flight';
+import FareBreakdown from '../components/FareBreakdown';
+import { useFlight } from '../context/FlightContext';
+import { usePreferences } from '../hooks/usePreferences';
+import currencyService from '../services/currencyService';
+import { getDayOffset } from '../utils/dates';
+import { getOfferTotal } from '../utils/fares';
+import { Layover, formatMinutes, getLayovers, getSegmentFareDetails } from '../utils/itinerary';
+import { getAircraftName, getCarrierName, getCityName } from '../utils/flightNames';
+import { describeRoute } from '../utils/searchLink';
+import {
+  formatLocalDate,
+  formatLocalTime,
+  getItineraryMinutes,
+  getSegmentMinutes,
+  getUtcOffsetLabel,
+} from '../utils/time';
+
+const CABIN_LABELS: Record<string, string> = {
+  ECONOMY: 'Economy',
+  PREMIUM_ECONOMY: 'Premium Economy',
+  BUSINESS: 'Business',
+  FIRST: 'First',
+};
+
+// Connections shorter than this are easy to miss
+const SHORT_LAYOVER_MINUTES = 60;
+
+type RootStackParamList = {
+  FlightDetails: { offer: FlightOffer; searchRequest: FlightSearchRequest };
+  BookingTravelers: { offer: FlightOffer; searchRequest: FlightSearchRequest };
+};
+
+type FlightDetailsScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'FlightDetails'
+>;
+
+type FlightDetailsScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'FlightDetails'
+>;
+
+interface Props {
+  navigation: FlightDetailsScreenNavigationProp;
+  route: FlightDetailsScreenRouteProp;
+}
+
+const FlightDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { offer, searchRequest } = route.params;
+  const insets = useSafeAreaInsets();
+  const { displayCurrency } = usePreferences();
+  const { dictionaries } = useFlight();
+  const totalPrice = currencyService.formatAmount(getOfferTotal(offer), offer.price.currency);
+  const isConverted = !!displayCurrency && displayCurrency !== offer.price.currency;
+
+  // Times are the airport's local time, exactly as the backend sends them
+  const formatTime = formatLocalTime;
+  const formatDate = formatLocalDate;
+
+  const carrierName = (carrierCode: string) => getCarrierName(carrierCode, dictionaries);
+
+  // "London · Tue, Dec 1 · GMT+1 · Terminal 5"
+  const formatPlaceDetails = (location: Segment['departure']) => {
+    return [
+      getCityName(location.iataCode, dictionaries),
+      formatDate(location.at),
+      getUtcOffsetLabel(location),
+      location.terminal && `Terminal ${location.terminal}`,
+    ].filter(Boolean).join(' · ');
+  };
+
+  const getItineraryLabel = (index: number) => {
+    if (!searchRequest.legs && offer.itineraries.length === 2) {
+      return index === 0 ? 'Outbound' : 'Return';
+    }
+    return offer.itineraries.length > 1 ? `Flight ${index + 1}` : 'Your flight';
+  };
+
+  const handleSelectFlight = () => {
+    navigation.navigate('BookingTravelers', { offer, searchRequest });
+  };
+
+  const renderSegment = (segment: Segment, itineraryStart: string) => {
+    const fareDetails = getSegmentFareDetails(offer, segment.id);
+    const operatingCarrier = segment.operating?.carrierCode;
+    const arrivalDayOffset = getDayOffset(itineraryStart, segment.arrival.at);
+    const departureDayOffset = getDayOffset(itineraryStart, segment.departure.at);
+    const duration = getSegmentMinutes(segment);
+
+    return (
+      <View key={segment.id} style={styles.segment}>
+        <View style={styles.segmentTimeline}>
+          <View style={styles.timelineDot} />
+          <View style={styles.timelineLine} />
+          <View style={styles.timelineDot} />
+        </View>
+
+        <View style={styles.segmentBody}>
+          <View style={styles.segmentStop}>
+            <Text style={styles.segmentTime}>
+              {formatTime(segment.departure.at)}
+              {departureDayOffset > 0 && <Text style={styles.dayOffset}> +{departureDayOffset}</Text>}
+            </Text>
+            <View style={styles.segmentPlace}>
+              <Text style={styles.segmentAirport}>{segment.departure.iataCode}</Text>
+              <Text style={styles.segmentMeta}>{formatPlaceDetails(segment.departure)}</Text>
+            </View>
+          </View>
+
+          <View style={styles.segmentInfo}>
+            <Text style={styles.segmentCarrier}>
+              {carrierName(segment.carrierCode)} · {segment.carrierCode} {segment.number}
+            </Text>
+            {operatingCarrier && operatingCarrier !== segment.carrierCode && (
+              <Text style={styles.segmentDetail}>Operated by {carrierName(operatingCarrier)}</Text>
+            )}
+            <Text style={styles.segmentDetail}>
+              {duration !== null ? `${formatMinutes(duration)} · ` : ''}{getAircraftName(segment.aircraft.code, dictionaries)}
+            </Text>
+            {fareDetails && (
+              <Text style={styles.segmentDetail}>
+                {CABIN_LABELS[fareDetails.cabin] || fareDetails.cabin}
+                {fareDetails.class ? ` (${fareDetails.class})` : ''}
+                {fareDetails.fareBasis ? ` · Fare ${fareDetails.fareBasis}` : ''}
+                {fareDetails.includedCheckedBags
+                  ? ` · ${fareDetails.includedCheckedBags.quantity} checked bag${fareDetails.includedCheckedBags.quantity !== 1 ? 's' : ''}`
+                  : ''}
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.segmentStop}>
+            <Text style={styles.segmentTime}>
+              {formatTime(segment.arrival.at)}
+              {arrivalDayOffset > 0 && <Text style={styles.dayOffset}> +{arrivalDayOffset}</Text>}
+            </Text>
+            <View style={styles.segmentPlace}>
+              <Text style={styles.segmentAirport}>{segment.arrival.iataCode}</Text>
+              <Text style={styles.segmentMeta}>{formatPlaceDetails(segment.arrival)}</Text>
+            </View>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  const renderLayover = (layover: Layover, index: number) => {
+    const layoverCity = getCityName(layover.arrivalAirport, dictionaries);
+    const isAirportChange = layover.arrivalAirport !== layover.departureAirport;
+    const warnings = [
+      layover.isOvernight && 'Overnight layover',
+      isAirportChange && `Change airports: ${layover.arrivalAirport} to ${layover.departureAirport}`,
+      layover.isTerminalChange && `Change terminals: ${layover.arrivalTerminal} to ${layover.departureTerminal}`,
+      layover.minutes < SHORT_LAYOVER_MINUTES && 'Short connection',
+    ].filter(Boolean) as string[];
+
+    return (
+      <View key={`layover-${index}`} style={styles.layover}>
+        <Text style={styles.layoverText}>
+          {formatMinutes(layover.minutes)} layover in {layoverCity ? `${layoverCity} (${layover.arrivalAirport})` : layover.arrivalAirport}
+        </Text>
+        {warnings.map(warning => (
+          <Text key={warning} style={styles.layoverWarning}>⚠ {warning}</Text>
+        ))}
+      </View>
+    );
+  };
+
+  const renderItinerary = (itinerary: Itinerary, index: number) => {
+    const firstSegment = itinerary.segments[0];
+    const lastSegment = itinerary.segments[itinerary.segments.length - 1];
+    const layovers = getLayovers(itinerary);
+    const stops = itinerary.segments.length - 1;
+    const duration = getItineraryMinutes(itinerary);
+
+    return (
+      <View key={index} style={styles.itineraryCard}>
+        <Text style={styles.itineraryLabel}>{getItineraryLabel(index)}</Text>
+        <Text style={styles.itineraryRoute}>
+          {firstSegment.departure.iataCode} → {lastSegment.arrival.iataCode}
+        </Text>
+        <Text style={styles.itinerarySummary}>
+          {formatDate(firstSegment.departure.at)}
+          {duration !== null ? ` · ${formatMinutes(duration)}` : ''}
+          {' · '}
+          {stops === 0 ? 'Direct' : `${stops} stop${stops > 1 ? 's' : ''}`}
+        </Text>
+
+        {itinerary.segments.map((segment, segmentIndex) => (
+          <React.Fragment key={segment.id}>
+            {segmentIndex > 0 && renderLayover(layovers[segmentIndex - 1], segmentIndex - 1)}
+            {renderSegment(segment, firstSegment.departure.at)}
+          </React.Fragment>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Flight Details</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.summary}>
+          <Text style={styles.summaryRoute}>{describeRoute(searchRequest)}</Text>
+          <Text style={styles.summaryPrice}>{totalPrice}</Text>
+          <Text style={styles.summaryText}>
+            Total · {offer.numberOfBookableSeats} seats left
+          </Text>
+          {isConverted && (
+            <Text style={styles.summaryText}>
+              {currencyService.formatPrice(getOfferTotal(offer), offer.price.currency, displayCurrency)}
+            </Text>
+          )}
+        </View>
+
+        <Text style={styles.timesNote}>All times are local to each airport</Text>
+        {offer.itineraries.map(renderItinerary)}
+
+        <FareBreakdown offer={offer} />
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={styles.selectButton} onPress={handleSelectFlight}>
+          <Text style={styles.selectButtonText}>Select Flight</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  summary: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  summaryRoute: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  summaryPrice: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#007AFF',
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+  },
+  timesNote: {
+    fontSize: 12,
+    color: '#666666',
+    marginBottom: 12,
+  },
+  itineraryCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  itineraryLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666666',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  itineraryRoute: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  itinerarySummary: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+    marginBottom: 16,
+  },
+  segment: {
+    flexDirection: 'row',
+  },
+  segmentTimeline: {
+    width: 16,
+    alignItems: 'center',
+    paddingVertical: 6,
+    marginRight: 12,
+  },
+  timelineDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#007AFF',
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#007AFF',
+    marginVertical: 4,
+  },
+  segmentBody: {
+    flex: 1,
+  },
+  segmentStop: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  segmentTime: {
+    width: 72,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  dayOffset: {
+    fontSize: 12,
+    color: '#F44336',
+  },
+  segmentPlace: {
+    flex: 1,
+  },
+  segmentAirport: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  segmentMeta: {
+    fontSize: 12,
+    color: '#999999',
+  },
+  segmentInfo: {
+    marginLeft: 72,
+    paddingVertical: 12,
+  },
+  segmentCarrier: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1a1a1a',
+    marginBottom: 2,
+  },
+  segmentDetail: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
+  layover: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    marginVertical: 12,
+    marginLeft: 28,
+  },
+  layoverText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1a1a1a',
+  },
+  layoverWarning: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 4,
+  },
+  footer: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E1E5E9',
+  },
+  selectButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  selectButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
+
+export default FlightDetailsScreen;
@@ -8,20 +8,69 @@ import {
   ScrollView,
   ActivityIndicator,
   Alert,
+  Share,
+  Switch,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { useFlight } from '../context/FlightContext';
-import { FlightOffer, FlightSearchRequest } from '../types/flight';
+import { useAuth } from '../context/AuthContext';
+import { FlightOffer, FlightSearchRequest, FlightSortOrder, Itinerary } from '../types/flight';
+import { AppError } from '../api/errors';
+import { ResultSortKey, ResultView } from '../types/filters';
+import { getAircraftName, getCarrierName, getCityName } from '../utils/flightNames';
+import { getDayOffset } from '../utils/dates';
+import { formatMinutes } from '../utils/itinerary';
+import { formatLocalDate, formatLocalTime, getItineraryMinutes } from '../utils/time';
+import { getOfferTotal, getPricePerPerson } from '../utils/fares';
+import { usePreferences } from '../hooks/usePreferences';
+import { usePriceTracking } from '../hooks/usePriceTracking';
+import currencyService from '../services/currencyService';
+import resultViewService from '../services/resultViewService';
+import priceTrackingService from '../services/priceTrackingService';
+import ResultFiltersSheet from '../components/ResultFiltersSheet';
+import { MAX_COMPARED_OFFERS } from '../utils/comparison';
+import { OfferBadge, ResultSummary, getOfferBadges, getResultSummary, scoreOffers } from '../utils/offerScores';
+import { earnsMilesOnEveryFlight, getEarningMemberships } from '../utils/loyalty';
+import { DEFAULT_ALERT_RULES, getTrackingKey } from '../utils/priceTracking';
+import {
+  DEFAULT_RESULT_VIEW,
+  applyResultView,
+  countActiveFilters,
+  getRouteKey,
+} from '../utils/offerFilters';
+import {
+  buildOfferShareMessage,
+  buildSearchLink,
+  buildSearchShareMessage,
+  describeRoute,
+  getOfferKey,
+} from '../utils/searchLink';
+
+// Summary tabs, the order each one puts the loaded results in and the
+// matching backend ranking for the search request
+const SUMMARY_TABS: { badge: OfferBadge; label: string; sortKey: ResultSortKey; sortBy: FlightSortOrder }[] = [
+  { badge: 'best', label: 'Best', sortKey: 'best', sortBy: 'best' },
+  { badge: 'cheapest', label: 'Cheapest', sortKey: 'price', sortBy: 'cheapest' },
+  { badge: 'fastest', label: 'Fastest', sortKey: 'duration', sortBy: 'fastest' },
+];
+
+const BADGE_LABELS: Record<OfferBadge, string> = {
+  best: 'Best',
+  cheapest: 'Cheapest',
+  fastest: 'Fastest',
+};
 
 type RootStackParamList = {
   Landing: undefined;
-  Login: undefined;
   Signup: undefined;
   Home: undefined;
   FlightSearch: undefined;
-  FlightResults: { searchRequest: FlightSearchRequest };
+  FlightResults: { searchRequest: FlightSearchRequest; autoSearch?: boolean; sharedOfferKey?: string };
+  FlightDetails: { offer: FlightOffer; searchRequest: FlightSearchRequest };
+  OfferComparison: { offers: FlightOffer[]; searchRequest: FlightSearchRequest };
+  PriceAlerts: undefined;
 };
 
 type FlightResultsScreenNavigationProp = StackNavigationProp<
@@ -40,9 +89,25 @@ interface Props {
 }
 
 const FlightResultsScreen: React.FC<Props> = ({ navigation, route }) => {
-  const { flightOffers, isLoading, searchError, clearSearchResults } = useFlight();
-  const [selectedOffer, setSelectedOffer] = useState<FlightOffer | null>(null);
+  const {
+    flightOffers,
+    dictionaries,
+    isLoading,
+    searchError,
+    retryAttempt,
+    searchFlights,
+    clearSearchResults,
+  } = useFlight();
+  const { user, logout } = useAuth();
+  const [resultView, setResultView] = useState<ResultView>(DEFAULT_RESULT_VIEW);
+  const [showFilters, setShowFilters] = useState(false);
+  const [showPricePerPerson, setShowPricePerPerson] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const { displayCurrency, scoreWeights, preferredDepartureWindows, loyaltyMemberships } = usePreferences();
+  const { trackedFares } = usePriceTracking();
   const insets = useSafeAreaInsets();
+  const routeKey = getRouteKey(route.params.searchRequest);
+  const trackedFareKeys = new Map(trackedFares.map(fare => [getTrackingKey(fare.searchRequest, fare.offerKey), fare]));
 
   useEffect(() => {
     // Clear results when component unmounts
@@ -51,117 +116,331 @@ const FlightResultsScreen: React.FC<Props> = ({ navigation, route }) => {
     };
   }, []);
 
-  const formatTime = (dateTime: string) => {
-    return new Date(dateTime).toLocaleTimeString('en-US', {
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false,
+  // Run the search ourselves when opened without results, e.g. after re-login
+  useEffect(() => {
+    if (route.params.autoSearch) {
+      searchFlights(route.params.searchRequest);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [route.params.autoSearch, route.params.searchRequest]);
+
+  // Offer ids only mean something within one set of results
+  useEffect(() => {
+    setCompareIds([]);
+  }, [flightOffers]);
+
+  // Filters and sort order are remembered per route
+  useEffect(() => {
+    let isCurrent = true;
+    resultViewService.getView(routeKey).then((view) => {
+      if (isCurrent) {
+        setResultView(view);
+      }
     });
+    return () => {
+      isCurrent = false;
+    };
+  }, [routeKey]);
+
+  const handleResultViewChange = (view: ResultView) => {
+    setResultView(view);
+    resultViewService.saveView(routeKey, view);
   };
 
-  const formatDuration = (duration: string) => {
-    // Convert PT5H30M to 5h 30m format
-    const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?/);
-    if (!match) return duration;
-    
-    const hours = match[1] ? `${match[1]}h` : '';
-    const minutes = match[2] ? ` ${match[2]}m` : '';
-    return `${hours}${minutes}`.trim();
+  // Each end shows the local time at its airport, not the phone's time
+  const formatTime = (dateTime: string) => formatLocalTime(dateTime);
+
+  const formatDuration = (itinerary: Itinerary) => {
+    const minutes = getItineraryMinutes(itinerary);
+    return minutes === null ? '' : formatMinutes(minutes);
   };
 
-  const getCarrierName = (carrierCode: string) => {
-    const carriers: Record<string, string> = {
-      AA: 'American Airlines',
-      DL: 'Delta Air Lines',
-      UA: 'United Airlines',
-      BA: 'British Airways',
-      LH: 'Lufthansa',
-      AF: 'Air France',
-      JL: 'Japan Airlines',
-      EK: 'Emirates',
-    };
-    return carriers[carrierCode] || carrierCode;
+  // Round trips have an outbound and a return; multi-city trips number their flights
+  const getItineraryLabel = (index: number, count: number) => {
+    if (!route.params.searchRequest.legs && count === 2) {
+      return index === 0 ? 'Outbound' : 'Return';
+    }
+    return `Flight ${index + 1}`;
   };
 
   const handleSelectFlight = (offer: FlightOffer) => {
-    setSelectedOffer(offer);
-    Alert.alert(
-      'Flight Selected',
-      `You selected ${getCarrierName(offer.itineraries[0].segments[0].carrierCode)} flight ${offer.itineraries[0].segments[0].number} for $${offer.price.total}`,
-      [
-        { text: 'Continue', onPress: () => console.log('Proceed to booking') },
-        { text: 'Cancel', style: 'cancel' },
-      ]
+    navigation.navigate('FlightDetails', { offer, searchRequest: route.params.searchRequest });
+  };
+
+  const handleToggleCompare = (offer: FlightOffer) => {
+    if (compareIds.includes(offer.id)) {
+      setCompareIds(compareIds.filter(id => id !== offer.id));
+    } else if (compareIds.length >= MAX_COMPARED_OFFERS) {
+      Alert.alert('Compare Flights', `You can compare up to ${MAX_COMPARED_OFFERS} flights at a time`);
+    } else {
+      setCompareIds([...compareIds, offer.id]);
+    }
+  };
+
+  const handleCompare = () => {
+    const offers = compareIds
+      .map(id => flightOffers.find(offer => offer.id === id))
+      .filter((offer): offer is FlightOffer => !!offer);
+    navigation.navigate('OfferComparison', { offers, searchRequest: route.params.searchRequest });
+  };
+
+  // Every offer of the search is loaded, so a tab only reorders them here.
+  // The request keeps the order for shared links and later searches.
+  const handleSummaryTabPress = (tab: typeof SUMMARY_TABS[number]) => {
+    handleResultViewChange({ ...resultView, sortKey: tab.sortKey });
+    if (tab.sortBy !== (route.params.searchRequest.sortBy || 'best')) {
+      navigation.setParams({
+        searchRequest: { ...route.params.searchRequest, sortBy: tab.sortBy },
+        autoSearch: false,
+      });
+    }
+  };
+
+  const carrierName = (carrierCode: string) => getCarrierName(carrierCode, dictionaries);
+
+  // Open the system share sheet for the whole search or a single flight
+  const handleShare = async (offer?: FlightOffer) => {
+    const { searchRequest } = route.params;
+    try {
+      await Share.share({
+        message: offer
+          ? buildOfferShareMessage(searchRequest, offer, carrierName)
+          : buildSearchShareMessage(searchRequest),
+        // iOS shows the link as a separate attachment; Android reads it from the message
+        url: buildSearchLink(searchRequest, offer),
+      });
+    } catch (error: any) {
+      Alert.alert('Share Error', error.message || 'Failed to share');
+    }
+  };
+
+  // Watch the cheapest fare of this search, or one flight of it; tracking
+  // again stops it
+  const handleToggleTracking = async (offer?: FlightOffer) => {
+    const { searchRequest } = route.params;
+    const tracked = trackedFareKeys.get(getTrackingKey(searchRequest, offer && getOfferKey(offer)));
+    if (!user) {
+      return;
+    }
+    try {
+      if (tracked) {
+        await priceTrackingService.untrack(user._id, tracked.id);
+        return;
+      }
+      const fare = offer
+        ? await priceTrackingService.trackOffer(user._id, searchRequest, offer)
+        : await priceTrackingService.trackRoute(user._id, searchRequest, flightOffers);
+      Alert.alert(
+        'Tracking Prices',
+        `We'll check ${fare.label} when you open the app and alert you when it drops ${DEFAULT_ALERT_RULES.dropPercent}% or more.`,
+        [
+          { text: 'OK' },
+          { text: 'Change Alerts', onPress: () => navigation.navigate('PriceAlerts') },
+        ],
+      );
+    } catch (error: any) {
+      Alert.alert('Price Alerts', error.message || 'Failed to track prices');
+    }
+  };
+
+  // Offer the action that can actually get the user past the error
+  const renderSearchError = (error: AppError) => {
+    let actionLabel: string | null = null;
+    let onAction = () => {};
+
+    switch (error.recovery) {
+      case 'retry':
+      case 'wait':
+        actionLabel = 'Try Again';
+        onAction = () => {
+          searchFlights(route.params.searchRequest);
+        };
+        break;
+      case 'login':
+        actionLabel = 'Sign In';
+        // Signing out swaps to the auth stack
+        onAction = () => {
+          logout();
+        };
+        break;
+      case 'fix_input':
+        actionLabel = 'Edit Search';
+        onAction = () => navigation.goBack();
+        break;
+    }
+
+    return (
+      <View style={styles.errorCard}>
+        <Text style={styles.errorText}>{error.message}</Text>
+        {error.kind === 'validation' && error.fieldErrors.map((fieldError) => (
+          <Text key={fieldError.path} style={styles.errorDetailText}>
+            • {fieldError.message}
+          </Text>
+        ))}
+        {actionLabel && (
+          <TouchableOpacity style={styles.errorActionButton} onPress={onAction}>
+            <Text style={styles.errorActionButtonText}>{actionLabel}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
     );
   };
 
+  const renderCityName = (iataCode: string) => {
+    const cityName = getCityName(iataCode, dictionaries);
+    return cityName ? <Text style={styles.cityText} numberOfLines={1}>{cityName}</Text> : null;
+  };
+
+  // Best, cheapest and fastest at a glance; each tab also sorts by its measure
+  const renderSummaryTabs = (resultSummary: ResultSummary) => (
+    <View style={styles.summaryTabs}>
+      {SUMMARY_TABS.map((tab) => {
+        const offer = resultSummary[tab.badge];
+        const isActive = resultView.sortKey === tab.sortKey;
+        if (!offer) {
+          return null;
+        }
+        const amount = showPricePerPerson ? getPricePerPerson(offer).amount : getOfferTotal(offer);
+        return (
+          <TouchableOpacity
+            key={tab.badge}
+            style={[styles.summaryTab, isActive && styles.summaryTabActive]}
+            onPress={() => handleSummaryTabPress(tab)}
+            accessibilityRole="tab"
+            accessibilityState={{ selected: isActive }}
+          >
+            <Text style={[styles.summaryTabLabel, isActive && styles.summaryTabLabelActive]}>{tab.label}</Text>
+            <Text style={styles.summaryTabPrice}>
+              {currencyService.formatPrice(amount, offer.price.currency, displayCurrency, { wholeUnits: true })}
+            </Text>
+            <Text style={styles.summaryTabDuration}>{formatDuration(offer.itineraries[0])}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
   const renderFlightOffer = (offer: FlightOffer, index: number) => {
     const firstSegment = offer.itineraries[0].segments[0];
-    const carrierName = getCarrierName(firstSegment.carrierCode);
-    
+    const isTracked = trackedFareKeys.has(getTrackingKey(route.params.searchRequest, getOfferKey(offer)));
+    const isSharedOffer = !!route.params.sharedOfferKey && getOfferKey(offer) === route.params.sharedOfferKey;
+    const isCompared = compareIds.includes(offer.id);
+    const badges = getOfferBadges(offer, summary);
+    const earnsMiles = earnsMilesOnEveryFlight(offer, loyaltyMemberships);
+    const pricePerPerson = showPricePerPerson ? getPricePerPerson(offer) : null;
+    const displayPrice = currencyService.getDisplayPrice(
+      pricePerPerson ? pricePerPerson.amount : getOfferTotal(offer),
+      offer.price.currency,
+      displayCurrency,
+    );
+
     return (
       <TouchableOpacity
         key={offer.id}
-        style={styles.flightCard}
+        style={[styles.flightCard, isSharedOffer && styles.sharedFlightCard, isCompared && styles.comparedFlightCard]}
         onPress={() => handleSelectFlight(offer)}
       >
+        {(isSharedOffer || badges.length > 0 || earnsMiles) && (
+          <View style={styles.badgeRow}>
+            {isSharedOffer && (
+              <Text style={styles.sharedFlightBadge}>Shared with you</Text>
+            )}
+            {badges.map(badge => (
+              <Text key={badge} style={[styles.offerBadge, styles[`${badge}Badge`]]}>
+                {BADGE_LABELS[badge]}
+              </Text>
+            ))}
+            {earnsMiles && (
+              <Text style={[styles.offerBadge, styles.milesBadge]}>
+                Earns miles · {getEarningMemberships(offer, loyaltyMemberships)
+                  .map(membership => membership.airlineCode)
+                  .join(', ')}
+              </Text>
+            )}
+          </View>
+        )}
         <View style={styles.flightHeader}>
           <View style={styles.carrierInfo}>
-            <Text style={styles.carrierName}>{carrierName}</Text>
+            <Text style={styles.carrierName}>{carrierName(firstSegment.carrierCode)}</Text>
             <Text style={styles.flightNumber}>
               {firstSegment.carrierCode} {firstSegment.number}
             </Text>
           </View>
           <View style={styles.priceContainer}>
-            <Text style={styles.price}>${offer.price.total}</Text>
-            <Text style={styles.priceCurrency}>{offer.price.currency}</Text>
-          </View>
-        </View>
-
-        <View style={styles.flightRoute}>
-          <View style={styles.departureInfo}>
-            <Text style={styles.timeText}>
-              {formatTime(firstSegment.departure.at)}
-            </Text>
-            <Text style={styles.airportText}>
-              {firstSegment.departure.iataCode}
+            <Text style={styles.price}>
+              {currencyService.formatAmount(displayPrice.amount, displayPrice.currency)}
             </Text>
-            <Text style={styles.terminalText}>
-              {firstSegment.departure.terminal && `Terminal ${firstSegment.departure.terminal}`}
+            <Text style={styles.priceCurrency}>
+              {displayPrice.isApproximate ? 'approx. · ' : ''}
+              {pricePerPerson ? (pricePerPerson.isAverage ? 'avg. per person' : 'per person') : 'total'}
             </Text>
           </View>
+        </View>
 
-          <View style={styles.flightPath}>
-            <Text style={styles.durationText}>
-              {formatDuration(offer.itineraries[0].duration)}
-            </Text>
-            <View style={styles.flightLine}>
-              <View style={styles.flightDot} />
-              <View style={styles.flightLinePath} />
-              <View style={styles.flightDot} />
-            </View>
-            <Text style={styles.stopsText}>
-              {firstSegment.numberOfStops === 0 ? 'Direct' : `${firstSegment.numberOfStops} stop${firstSegment.numberOfStops > 1 ? 's' : ''}`}
-            </Text>
-          </View>
+        {/* One row per itinerary: outbound, return or each multi-city flight */}
+        {offer.itineraries.map((itinerary, itineraryIndex) => {
+          const departureSegment = itinerary.segments[0];
+          const arrivalSegment = itinerary.segments[itinerary.segments.length - 1];
+          const stops = itinerary.segments.length - 1;
+          const arrivalDayOffset = getDayOffset(departureSegment.departure.at, arrivalSegment.arrival.at);
 
-          <View style={styles.arrivalInfo}>
-            <Text style={styles.timeText}>
-              {formatTime(firstSegment.arrival.at)}
-            </Text>
-            <Text style={styles.airportText}>
-              {firstSegment.arrival.iataCode}
-            </Text>
-            <Text style={styles.terminalText}>
-              {firstSegment.arrival.terminal && `Terminal ${firstSegment.arrival.terminal}`}
-            </Text>
-          </View>
-        </View>
+          return (
+            <View key={itineraryIndex}>
+              {offer.itineraries.length > 1 && (
+                <Text style={styles.itineraryLabel}>
+                  {getItineraryLabel(itineraryIndex, offer.itineraries.length)}
+                </Text>
+              )}
+              <View style={styles.flightRoute}>
+                <View style={styles.departureInfo}>
+                  <Text style={styles.timeText}>
+                    {formatTime(departureSegment.departure.at)}
+                  </Text>
+                  <Text style={styles.airportText}>
+                    {departureSegment.departure.iataCode}
+                  </Text>
+                  {renderCityName(departureSegment.departure.iataCode)}
+                  <Text style={styles.terminalText}>
+                    {departureSegment.departure.terminal && `Terminal ${departureSegment.departure.terminal}`}
+                  </Text>
+                </View>
+
+                <View style={styles.flightPath}>
+                  <Text style={styles.durationText}>
+                    {formatDuration(itinerary)}
+                  </Text>
+                  <View style={styles.flightLine}>
+                    <View style={styles.flightDot} />
+                    <View style={styles.flightLinePath} />
+                    <View style={styles.flightDot} />
+                  </View>
+                  <Text style={styles.stopsText}>
+                    {stops === 0 ? 'Direct' : `${stops} stop${stops > 1 ? 's' : ''}`}
+                  </Text>
+                </View>
+
+                <View style={styles.arrivalInfo}>
+                  <Text style={styles.timeText}>
+                    {formatTime(arrivalSegment.arrival.at)}
+                    {arrivalDayOffset > 0 && <Text style={styles.dayOffsetText}> +{arrivalDayOffset}</Text>}
+                  </Text>
+                  <Text style={styles.airportText}>
+                    {arrivalSegment.arrival.iataCode}
+                  </Text>
+                  {renderCityName(arrivalSegment.arrival.iataCode)}
+                  <Text style={styles.terminalText}>
+                    {arrivalSegment.arrival.terminal && `Terminal ${arrivalSegment.arrival.terminal}`}
+                  </Text>
+                </View>
+              </View>
+            </View>
+          );
+        })}
 
         <View style={styles.flightFooter}>
           <View style={styles.aircraftInfo}>
             <Text style={styles.aircraftText}>
-              Aircraft: {firstSegment.aircraft.code}
+              {getAircraftName(firstSegment.aircraft.code, dictionaries)}
             </Text>
           </View>
           <View style={styles.seatsInfo}>
@@ -169,11 +448,46 @@ const FlightResultsScreen: React.FC<Props> = ({ navigation, route }) => {
               {offer.numberOfBookableSeats} seats available
             </Text>
           </View>
+          <TouchableOpacity
+            style={[styles.compareToggle, isCompared && styles.compareToggleActive]}
+            onPress={() => handleToggleCompare(offer)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: isCompared }}
+          >
+            <Text style={[styles.compareToggleText, isCompared && styles.compareToggleTextActive]}>
+              {isCompared ? '✓ Compare' : 'Compare'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.shareButton}
+            onPress={() => handleToggleTracking(offer)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: isTracked }}
+          >
+            <Text style={styles.shareButtonText}>{isTracked ? '✓ Tracking' : 'Track'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.shareButton} onPress={() => handleShare(offer)}>
+            <Text style={styles.shareButtonText}>Share</Text>
+          </TouchableOpacity>
         </View>
       </TouchableOpacity>
     );
   };
 
+  // A flight opened from a shared link goes first, whatever the filters
+  const sharedOffer = route.params.sharedOfferKey
+    ? flightOffers.find(offer => getOfferKey(offer) === route.params.sharedOfferKey)
+    : undefined;
+  const scores = scoreOffers(flightOffers, { weights: scoreWeights, preferredDepartureWindows });
+  const filteredOffers = applyResultView(flightOffers, resultView, scores, loyaltyMemberships);
+  // Badges and tabs describe what the filters leave
+  const summary = getResultSummary(filteredOffers, scores);
+  const sortedOffers = sharedOffer
+    ? [sharedOffer, ...filteredOffers.filter(offer => offer !== sharedOffer)]
+    : filteredOffers;
+  const activeFilterCount = countActiveFilters(resultView.filters);
+  const isSharedOfferMissing = !!route.params.sharedOfferKey && !sharedOffer;
+
   if (isLoading) {
     return (
       <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
@@ -191,6 +505,11 @@ const FlightResultsScreen: React.FC<Props> = ({ navigation, route }) => {
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#007AFF" />
           <Text style={styles.loadingText}>Searching for flights...</Text>
+          {retryAttempt && (
+            <Text style={styles.retryText}>
+              Retrying… (attempt {retryAttempt.attempt} of {retryAttempt.maxRetries})
+            </Text>
+          )}
         </View>
       </View>
     );
@@ -217,38 +536,94 @@ const FlightResultsScreen: React.FC<Props> = ({ navigation, route }) => {
         </TouchableOpacity>
       </View>
 
+      {!searchError && filteredOffers.length > 0 && renderSummaryTabs(summary)}
+
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         {/* Search Summary */}
         <View style={styles.searchSummary}>
           <Text style={styles.searchSummaryText}>
-            {route.params.searchRequest.originLocationCode} → {route.params.searchRequest.destinationLocationCode}
+            {describeRoute(route.params.searchRequest)}
           </Text>
           <Text style={styles.searchSummaryDate}>
-            {new Date(route.params.searchRequest.departureDate).toLocaleDateString()}
-          </Text>
-          <Text style={styles.searchSummaryPassengers}>
-            {route.params.searchRequest.adults} passenger{route.params.searchRequest.adults > 1 ? 's' : ''}
+            {(route.params.searchRequest.legs || [route.params.searchRequest])
+              .map(leg => formatLocalDate(leg.departureDate))
+              .join(' · ')}
           </Text>
+          <View style={styles.searchSummaryFooter}>
+            <Text style={styles.searchSummaryPassengers}>
+              {route.params.searchRequest.adults} passenger{route.params.searchRequest.adults > 1 ? 's' : ''}
+            </Text>
+            <View style={styles.searchSummaryActions}>
+              {!searchError && (
+                <TouchableOpacity onPress={() => handleToggleTracking()}>
+                  <Text style={styles.shareButtonText}>
+                    {trackedFareKeys.has(getTrackingKey(route.params.searchRequest)) ? '✓ Tracking prices' : 'Track prices'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.shareButton} onPress={() => handleShare()}>
+                <Text style={styles.shareButtonText}>Share search</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
         </View>
 
         {/* Results Count */}
         <View style={styles.resultsHeader}>
-          <Text style={styles.resultsCount}>
-            {flightOffers.length} flight{flightOffers.length !== 1 ? 's' : ''} found
-          </Text>
-          <Text style={styles.resultsSubtext}>
-            Prices shown are per passenger
-          </Text>
+          <View style={styles.resultsCountRow}>
+            <Text style={styles.resultsCount}>
+              {activeFilterCount > 0
+                ? `${filteredOffers.length} of ${flightOffers.length} flights`
+                : `${flightOffers.length} flight${flightOffers.length !== 1 ? 's' : ''} found`}
+            </Text>
+            {flightOffers.length > 0 && (
+              <TouchableOpacity
+                style={[styles.filterButton, activeFilterCount > 0 && styles.filterButtonActive]}
+                onPress={() => setShowFilters(true)}
+              >
+                <Text style={[styles.filterButtonText, activeFilterCount > 0 && styles.filterButtonTextActive]}>
+                  Sort & Filter{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <View style={styles.priceModeRow}>
+            <Text style={styles.resultsSubtext}>
+              {showPricePerPerson ? 'Prices shown are per person' : 'Prices shown are for all travelers'}
+            </Text>
+            <Switch
+              value={showPricePerPerson}
+              onValueChange={setShowPricePerPerson}
+              accessibilityLabel="Show price per person"
+            />
+          </View>
         </View>
 
         {/* Flight Results */}
         {searchError ? (
-          <View style={styles.errorCard}>
-            <Text style={styles.errorText}>{searchError}</Text>
-          </View>
+          renderSearchError(searchError)
         ) : flightOffers.length > 0 ? (
           <View style={styles.flightsList}>
-            {flightOffers.map((offer, index) => renderFlightOffer(offer, index))}
+            {isSharedOfferMissing && (
+              <Text style={styles.sharedFlightMissingText}>
+                The shared flight is no longer available. Here are the current options for this search.
+              </Text>
+            )}
+            {sortedOffers.map((offer, index) => renderFlightOffer(offer, index))}
+            {filteredOffers.length === 0 && (
+              <View style={styles.noResultsContainer}>
+                <Text style={styles.noResultsText}>No flights match your filters</Text>
+                <Text style={styles.noResultsSubtext}>
+                  {flightOffers.length} flight{flightOffers.length !== 1 ? 's are' : ' is'} hidden by your filters
+                </Text>
+                <TouchableOpacity
+                  style={styles.newSearchButtonLarge}
+                  onPress={() => handleResultViewChange({ ...resultView, filters: DEFAULT_RESULT_VIEW.filters })}
+                >
+                  <Text style={styles.newSearchButtonLargeText}>Clear Filters</Text>
+                </TouchableOpacity>
+              </View>
+            )}
           </View>
         ) : (
           <View style={styles.noResultsContainer}>
@@ -265,6 +640,37 @@ const FlightResultsScreen: React.FC<Props> = ({ navigation, route }) => {
           </View>
         )}
       </ScrollView>
+
+      {compareIds.length > 0 && (
+        <View style={styles.compareBar}>
+          <View style={styles.compareBarInfo}>
+            <Text style={styles.compareBarText}>
+              {compareIds.length} of {MAX_COMPARED_OFFERS} selected
+            </Text>
+            <TouchableOpacity onPress={() => setCompareIds([])}>
+              <Text style={styles.compareBarClearText}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity
+            style={[styles.compareButton, compareIds.length < 2 && styles.compareButtonDisabled]}
+            onPress={handleCompare}
+            disabled={compareIds.length < 2}
+          >
+            <Text style={styles.compareButtonText}>
+              {compareIds.length < 2 ? 'Pick another flight' : 'Compare'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <ResultFiltersSheet
+        visible={showFilters}
+        offers={flightOffers}
+        view={resultView}
+        onChange={handleResultViewChange}
+        onClose={() => setShowFilters(false)}
+        getCarrierName={carrierName}
+      />
     </View>
   );
 };
@@ -325,6 +731,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666666',
   },
+  retryText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#FF9500',
+  },
   searchSummary: {
     backgroundColor: '#ffffff',
     borderRadius: 12,
@@ -346,19 +757,207 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666666',
   },
+  searchSummaryFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  searchSummaryActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  shareButton: {
+    marginLeft: 12,
+  },
+  shareButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  sharedFlightCard: {
+    borderWidth: 2,
+    borderColor: '#007AFF',
+  },
+  comparedFlightCard: {
+    borderWidth: 2,
+    borderColor: '#007AFF',
+  },
+  compareToggle: {
+    marginLeft: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  compareToggleActive: {
+    backgroundColor: '#007AFF',
+  },
+  compareToggleText: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  compareToggleTextActive: {
+    color: '#ffffff',
+  },
+  compareBar: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: '#E1E5E9',
+  },
+  compareBarInfo: {
+    flex: 1,
+  },
+  compareBarText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  compareBarClearText: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginTop: 2,
+  },
+  compareButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+  },
+  compareButtonDisabled: {
+    backgroundColor: '#cccccc',
+  },
+  compareButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  sharedFlightBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ffffff',
+    backgroundColor: '#007AFF',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  offerBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  bestBadge: {
+    color: '#007AFF',
+    backgroundColor: '#E3F2FD',
+  },
+  cheapestBadge: {
+    color: '#2E7D32',
+    backgroundColor: '#E8F5E9',
+  },
+  fastestBadge: {
+    color: '#FF9500',
+    backgroundColor: '#FFF3E0',
+  },
+  milesBadge: {
+    color: '#666666',
+    backgroundColor: '#f8f9fa',
+  },
+  sharedFlightMissingText: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 12,
+  },
   resultsHeader: {
     marginBottom: 16,
   },
+  resultsCountRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  filterButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  filterButtonActive: {
+    backgroundColor: '#007AFF',
+  },
+  filterButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  filterButtonTextActive: {
+    color: '#ffffff',
+  },
   resultsCount: {
     fontSize: 16,
     fontWeight: '600',
     color: '#1a1a1a',
   },
+  priceModeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   resultsSubtext: {
     fontSize: 14,
     color: '#666666',
     marginTop: 4,
   },
+  summaryTabs: {
+    flexDirection: 'row',
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  summaryTab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 3,
+    borderBottomColor: 'transparent',
+  },
+  summaryTabActive: {
+    borderBottomColor: '#007AFF',
+  },
+  summaryTabLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666666',
+  },
+  summaryTabLabelActive: {
+    color: '#007AFF',
+  },
+  summaryTabPrice: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginTop: 2,
+  },
+  summaryTabDuration: {
+    fontSize: 12,
+    color: '#999999',
+  },
   flightsList: {
     gap: 16,
   },
@@ -406,6 +1005,12 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#666666',
   },
+  itineraryLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666666',
+    marginBottom: 4,
+  },
   flightRoute: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -425,11 +1030,20 @@ const styles = StyleSheet.create({
     color: '#1a1a1a',
     marginBottom: 2,
   },
+  dayOffsetText: {
+    fontSize: 12,
+    color: '#F44336',
+  },
   airportText: {
     fontSize: 14,
     color: '#666666',
     marginBottom: 2,
   },
+  cityText: {
+    fontSize: 12,
+    color: '#666666',
+    marginBottom: 2,
+  },
   terminalText: {
     fontSize: 12,
     color: '#999999',
@@ -501,6 +1115,24 @@ const styles = StyleSheet.create({
     color: '#F44336',
     fontWeight: '500',
   },
+  errorDetailText: {
+    fontSize: 13,
+    color: '#F44336',
+    marginTop: 4,
+  },
+  errorActionButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    backgroundColor: '#F44336',
+    borderRadius: 8,
+  },
+  errorActionButtonText: {
+    fontSize: 14,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
   noResultsContainer: {
     flex: 1,
     justifyContent: 'center',
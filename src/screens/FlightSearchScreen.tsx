@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -15,9 +15,20 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { useFlight } from '../context/FlightContext';
-import { FlightSearchRequest, FlightOffer, Airport } from '../types/flight';
-import flightService from '../services/flightService';
-import {Calendar, LocaleConfig} from 'react-native-calendars';
+import { FlightSearchRequest, FlightSearchLeg, FlightOffer, Airport, PriceCalendar } from '../types/flight';
+import flightService, { MULTI_CITY_MAX_LEGS, MULTI_CITY_MIN_LEGS } from '../services/flightService';
+import configService from '../services/configService';
+import preferencesService from '../services/preferencesService';
+import priceCalendarService from '../services/priceCalendarService';
+import currencyService from '../services/currencyService';
+import { usePreferences } from '../hooks/usePreferences';
+import PriceCalendarDay, { DayPrice } from '../components/PriceCalendarDay';
+import { getLatestBookableDate, getPriceLevels } from '../utils/priceCalendar';
+import { isCancelledRequest } from '../api/inflight';
+import { getFieldError } from '../api/errors';
+import { setPendingRoute } from '../navigation/navigationRef';
+import { FLEXIBLE_DAY_OPTIONS } from '../utils/priceMatrix';
+import {Calendar, CalendarProps, LocaleConfig} from 'react-native-calendars';
 
 // Configure calendar locale
 LocaleConfig.locales['en'] = {
@@ -37,14 +48,28 @@ LocaleConfig.locales['en'] = {
 };
 LocaleConfig.defaultLocale = 'en';
 
+// Wait for the user to pause typing before hitting the airport search
+const AIRPORT_SEARCH_DEBOUNCE_MS = 300;
+
+const EMPTY_LEG: FlightSearchLeg = {
+  originLocationCode: '',
+  destinationLocationCode: '',
+  departureDate: '',
+};
+
 type RootStackParamList = {
   Landing: undefined;
   Login: undefined;
   Signup: undefined;
   Home: undefined;
   AirportMap: undefined;
-  FlightSearch: { selectedAirports?: { origin?: Airport; destination?: Airport } };
-  FlightResults: { searchRequest: FlightSearchRequest };
+  FlightSearch: {
+    selectedAirports?: { origin?: Airport; destination?: Airport };
+    prefill?: Partial<FlightSearchRequest>;
+    prefillError?: string;
+  } | undefined;
+  FlightResults: { searchRequest: FlightSearchRequest; autoSearch?: boolean };
+  FlexibleDates: { searchRequest: FlightSearchRequest; flexDays: number };
 };
 
 type FlightSearchScreenNavigationProp = StackNavigationProp<
@@ -63,7 +88,7 @@ interface Props {
 }
 
 const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
-  const { searchFlights, isLoading, searchError } = useFlight();
+  const { searchFlights, cancelSearch, isLoading, searchError, retryAttempt } = useFlight();
   const insets = useSafeAreaInsets();
   
   const [searchRequest, setSearchRequest] = useState<FlightSearchRequest>({
@@ -75,10 +100,21 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
     children: 0,
     infants: 0,
     travelClass: 'ECONOMY',
-    currencyCode: 'USD',
+    // Search in the currency prices are shown in, else the API profile's
+    currencyCode: preferencesService.getPreferences().displayCurrency || configService.getConfig().defaults.currency,
+    // Sort order, market and country from the user's preferences or device region
+    ...preferencesService.getSearchDefaults(),
   });
 
-  const [isRoundTrip, setIsRoundTrip] = useState(false);
+  const [isRoundTrip, setIsRoundTrip] = useState(!!route.params?.prefill?.returnDate);
+  const [isMultiCity, setIsMultiCity] = useState(!!route.params?.prefill?.legs);
+  const [legs, setLegs] = useState<FlightSearchLeg[]>(
+    route.params?.prefill?.legs || [EMPTY_LEG, EMPTY_LEG]
+  );
+  // Days either side of the chosen dates to compare; null searches the exact dates
+  const [flexDays, setFlexDays] = useState<number | null>(null);
+  // Multi-city leg the airport or date modal is editing
+  const [selectedLegIndex, setSelectedLegIndex] = useState<number | null>(null);
   const [showAirportModal, setShowAirportModal] = useState(false);
   const [selectedAirportType, setSelectedAirportType] = useState<'origin' | 'destination'>('origin');
   const [airportSearchQuery, setAirportSearchQuery] = useState('');
@@ -90,6 +126,16 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
   }>({});
   const [showCalendarModal, setShowCalendarModal] = useState(false);
   const [selectedDateType, setSelectedDateType] = useState<'departure' | 'return'>('departure');
+  const [priceCalendar, setPriceCalendar] = useState<PriceCalendar | null>(null);
+  const [isLoadingPriceCalendar, setIsLoadingPriceCalendar] = useState(false);
+  const { displayCurrency } = usePreferences();
+  const originFieldError = getFieldError(searchError, 'originLocationCode');
+  const destinationFieldError = getFieldError(searchError, 'destinationLocationCode');
+  const departureFieldError = getFieldError(searchError, 'departureDate');
+  const airportSearchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const airportSearchController = useRef<AbortController | null>(null);
+  const latestAirportQuery = useRef('');
+  const keepPrefilledDates = useRef(false);
 
   // Format date for input
   const formatDateForInput = (date: Date): string => {
@@ -112,7 +158,9 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
     const selectedDate = day.dateString;
     console.log('Selected date:', selectedDate, 'Type:', selectedDateType);
     
-    if (selectedDateType === 'departure') {
+    if (selectedLegIndex !== null) {
+      updateLeg(selectedLegIndex, { departureDate: selectedDate });
+    } else if (selectedDateType === 'departure') {
       setSearchRequest(prev => ({ ...prev, departureDate: selectedDate }));
     } else {
       setSearchRequest(prev => ({ ...prev, returnDate: selectedDate }));
@@ -122,17 +170,74 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
   };
 
   // Open calendar modal for date selection
-  const openCalendarModal = (dateType: 'departure' | 'return') => {
+  const openCalendarModal = (dateType: 'departure' | 'return', legIndex: number | null = null) => {
     setSelectedDateType(dateType);
+    setSelectedLegIndex(legIndex);
     setShowCalendarModal(true);
   };
 
+  const openAirportModal = (airportType: 'origin' | 'destination', legIndex: number | null = null) => {
+    setSelectedAirportType(airportType);
+    setSelectedLegIndex(legIndex);
+    setShowAirportModal(true);
+  };
+
+  const updateLeg = (index: number, changes: Partial<FlightSearchLeg>) => {
+    setLegs(prev => prev.map((leg, legIndex) => (legIndex === index ? { ...leg, ...changes } : leg)));
+  };
+
+  // Start the multi-city form from whatever the one-way form already has
+  const switchToMultiCity = () => {
+    if (!isMultiCity && !legs[0].originLocationCode) {
+      const firstLeg: FlightSearchLeg = {
+        originLocationCode: searchRequest.originLocationCode,
+        destinationLocationCode: searchRequest.destinationLocationCode,
+        originEntityId: searchRequest.originEntityId,
+        destinationEntityId: searchRequest.destinationEntityId,
+        departureDate: searchRequest.departureDate,
+      };
+      setLegs([
+        firstLeg,
+        {
+          ...EMPTY_LEG,
+          originLocationCode: firstLeg.destinationLocationCode,
+          originEntityId: firstLeg.destinationEntityId,
+        },
+      ]);
+    }
+    setIsMultiCity(true);
+  };
+
+  // A new leg starts where the previous one ended
+  const addLeg = () => {
+    setLegs(prev => {
+      const lastLeg = prev[prev.length - 1];
+      return [
+        ...prev,
+        {
+          ...EMPTY_LEG,
+          originLocationCode: lastLeg.destinationLocationCode,
+          originEntityId: lastLeg.destinationEntityId,
+        },
+      ];
+    });
+  };
+
+  const removeLeg = (index: number) => {
+    setLegs(prev => prev.filter((_, legIndex) => legIndex !== index));
+  };
+
   // Get today's date and tomorrow's date
   const today = new Date();
   const tomorrow = new Date(today);
   tomorrow.setDate(tomorrow.getDate() + 1);
 
   useEffect(() => {
+    // Switching to round trip for a search link keeps the link's dates
+    if (keepPrefilledDates.current) {
+      keepPrefilledDates.current = false;
+      return;
+    }
     setSearchRequest(prev => ({
       ...prev,
       departureDate: formatDateForInput(tomorrow),
@@ -165,50 +270,213 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   }, [route.params?.selectedAirports]);
 
+  // Fill the form from a search link; entity IDs are looked up when searching
+  useEffect(() => {
+    const prefill = route.params?.prefill;
+    if (!prefill) {
+      return;
+    }
+
+    setSearchRequest(prev => ({ ...prev, ...prefill }));
+    if (prefill.legs) {
+      setLegs(prefill.legs);
+      setIsMultiCity(true);
+    } else if (prefill.returnDate && !isRoundTrip) {
+      keepPrefilledDates.current = true;
+      setIsRoundTrip(true);
+    }
+    if (route.params?.prefillError) {
+      Alert.alert('Incomplete Link', `${route.params.prefillError}. Please check the search details.`);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [route.params?.prefill, route.params?.prefillError]);
+
+  // The request for the current trip type; multi-city mirrors its first leg at the top level
+  const buildSearchRequest = (): FlightSearchRequest => {
+    if (!isMultiCity) {
+      return { ...searchRequest, legs: undefined };
+    }
+    return {
+      ...searchRequest,
+      ...legs[0],
+      returnDate: undefined,
+      legs,
+    };
+  };
+
   const handleSearch = async () => {
-    if (!searchRequest.originLocationCode || !searchRequest.destinationLocationCode || !searchRequest.departureDate) {
+    const request = buildSearchRequest();
+    const tripLegs: FlightSearchLeg[] = request.legs || [request];
+
+    if (tripLegs.some(leg => !leg.originLocationCode || !leg.destinationLocationCode || !leg.departureDate)) {
       Alert.alert('Missing Information', 'Please fill in all required fields');
       return;
     }
 
-    if (searchRequest.originLocationCode === searchRequest.destinationLocationCode) {
+    if (tripLegs.some(leg => leg.originLocationCode === leg.destinationLocationCode)) {
       Alert.alert('Invalid Route', 'Origin and destination cannot be the same');
       return;
     }
 
-    console.log('Search request data:', JSON.stringify(searchRequest, null, 2));
+    console.log('Search request data:', JSON.stringify(request, null, 2));
+
+    // The matrix screen runs its own searches, one per date combination
+    if (flexDays && !isMultiCity) {
+      navigation.navigate('FlexibleDates', { searchRequest: request, flexDays });
+      return;
+    }
 
     try {
-      await searchFlights(searchRequest);
-      navigation.navigate('FlightResults', { searchRequest });
+      const outcome = await searchFlights(request);
+      // The session expired mid-search: run it again once the user is back
+      if (outcome.status === 'failed' && outcome.error.kind === 'auth_expired') {
+        setPendingRoute({ name: 'FlightResults', params: { searchRequest: request, autoSearch: true } });
+        return;
+      }
+      // Input problems are shown next to the fields instead of on the results screen
+      if (outcome.status === 'superseded' || (outcome.status === 'failed' && outcome.error.kind === 'validation')) {
+        return;
+      }
+      navigation.navigate('FlightResults', { searchRequest: request });
     } catch (error: any) {
       Alert.alert('Search Error', error.message || 'Failed to search flights');
     }
   };
 
-  // Search airports
-  const searchAirports = async (query: string) => {
-    if (query.length < 2) {
-      setAirportSearchResults([]);
+  // Drop any pending or running airport search
+  const cancelAirportSearch = () => {
+    if (airportSearchTimer.current) {
+      clearTimeout(airportSearchTimer.current);
+      airportSearchTimer.current = null;
+    }
+    airportSearchController.current?.abort();
+    airportSearchController.current = null;
+  };
+
+  // Route and first selectable day of the date being picked; the return
+  // calendar prices the trip back
+  const calendarLeg = selectedLegIndex !== null ? legs[selectedLegIndex] : undefined;
+  const calendarOrigin = calendarLeg ? calendarLeg.originLocationCode
+    : selectedDateType === 'departure' ? searchRequest.originLocationCode : searchRequest.destinationLocationCode;
+  const calendarDestination = calendarLeg ? calendarLeg.destinationLocationCode
+    : selectedDateType === 'departure' ? searchRequest.destinationLocationCode : searchRequest.originLocationCode;
+  const calendarMinDate = selectedLegIndex !== null
+    // A flight cannot leave before the previous one
+    ? legs[selectedLegIndex - 1]?.departureDate || formatDateForInput(new Date())
+    : selectedDateType === 'departure' ? formatDateForInput(new Date()) : searchRequest.departureDate;
+
+  // Lowest fares for the open date picker, once both airports are known
+  useEffect(() => {
+    setPriceCalendar(null);
+    if (!showCalendarModal || !calendarOrigin || !calendarDestination) {
       return;
     }
+    const controller = new AbortController();
+    setIsLoadingPriceCalendar(true);
+    priceCalendarService
+      .getCalendar(calendarOrigin, calendarDestination, calendarMinDate || formatDateForInput(new Date()), {
+        signal: controller.signal,
+      })
+      .then(setPriceCalendar)
+      // The picker still works without prices
+      .catch(() => undefined)
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsLoadingPriceCalendar(false);
+        }
+      });
+    return () => {
+      controller.abort();
+      setIsLoadingPriceCalendar(false);
+    };
+  }, [showCalendarModal, calendarOrigin, calendarDestination, calendarMinDate]);
 
-    try {
-      setIsSearchingAirports(true);
-      const response = await flightService.searchAirports(query);
-      setAirportSearchResults(response.data);
-    } catch (error: any) {
-      console.error('Airport search error:', error);
-      Alert.alert('Search Error', error.message || 'Failed to search airports');
-    } finally {
+  const dayPrices = useMemo(() => {
+    if (!priceCalendar) {
+      return {};
+    }
+    const levels = getPriceLevels(priceCalendar.days);
+    return priceCalendar.days.reduce<Record<string, DayPrice>>((prices, day) => {
+      if (day.price !== null) {
+        const price = currencyService.getDisplayPrice(day.price, priceCalendar.currency, displayCurrency);
+        prices[day.date] = {
+          label: currencyService.formatAmount(price.amount, price.currency, { wholeUnits: true }),
+          level: levels[day.date],
+        };
+      }
+      return prices;
+    }, {});
+  }, [priceCalendar, displayCurrency]);
+
+  const renderPriceDay = useCallback<NonNullable<CalendarProps['dayComponent']>>(
+    (props) => <PriceCalendarDay {...props} price={props.date ? dayPrices[props.date.dateString] : undefined} />,
+    [dayPrices],
+  );
+
+  // Cancel outstanding airport searches when leaving the screen
+  useEffect(() => {
+    return () => {
+      if (airportSearchTimer.current) {
+        clearTimeout(airportSearchTimer.current);
+      }
+      airportSearchController.current?.abort();
+    };
+  }, []);
+
+  // Search airports (debounced, only the latest query's results are applied)
+  const searchAirports = (query: string) => {
+    latestAirportQuery.current = query;
+    cancelAirportSearch();
+
+    if (query.length < 2) {
+      setAirportSearchResults([]);
       setIsSearchingAirports(false);
+      return;
     }
+
+    setIsSearchingAirports(true);
+    airportSearchTimer.current = setTimeout(async () => {
+      airportSearchTimer.current = null;
+      const controller = new AbortController();
+      airportSearchController.current = controller;
+
+      try {
+        const response = await flightService.searchAirports(query, { signal: controller.signal });
+        if (latestAirportQuery.current === query) {
+          setAirportSearchResults(response.data);
+        }
+      } catch (error: any) {
+        if (isCancelledRequest(error)) {
+          return;
+        }
+        console.error('Airport search error:', error);
+        Alert.alert('Search Error', error.message || 'Failed to search airports');
+      } finally {
+        if (airportSearchController.current === controller) {
+          airportSearchController.current = null;
+          setIsSearchingAirports(false);
+        }
+      }
+    }, AIRPORT_SEARCH_DEBOUNCE_MS);
   };
 
   const handleAirportSelect = (airport: Airport) => {
     console.log('Selected airport:', airport);
     
-    if (selectedAirportType === 'origin') {
+    if (selectedLegIndex !== null) {
+      const code = airport.skyId || airport.iataCode;
+      const entityId = airport.entityId || airport.id;
+      if (selectedAirportType === 'origin') {
+        updateLeg(selectedLegIndex, { originLocationCode: code, originEntityId: entityId });
+      } else {
+        updateLeg(selectedLegIndex, { destinationLocationCode: code, destinationEntityId: entityId });
+        // The next flight usually leaves from where this one lands
+        const nextLeg = legs[selectedLegIndex + 1];
+        if (nextLeg && !nextLeg.originLocationCode) {
+          updateLeg(selectedLegIndex + 1, { originLocationCode: code, originEntityId: entityId });
+        }
+      }
+    } else if (selectedAirportType === 'origin') {
       setSearchRequest(prev => ({ 
         ...prev, 
         originLocationCode: airport.skyId || airport.iataCode, // Use skyId if available, fallback to iataCode
@@ -223,9 +491,11 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
       }));
       setSelectedAirports(prev => ({ ...prev, destination: airport }));
     }
+    cancelAirportSearch();
     setShowAirportModal(false);
     setAirportSearchQuery('');
     setAirportSearchResults([]);
+    setIsSearchingAirports(false);
   };
 
   const handleAirportCodeSelect = (airportCode: string) => {
@@ -271,12 +541,17 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
+  // Entity IDs travel with their codes, including those a search link filled
+  // in, since searching only looks up the ones that are missing
   const swapAirports = () => {
     setSearchRequest(prev => ({
       ...prev,
       originLocationCode: prev.destinationLocationCode,
+      originEntityId: prev.destinationEntityId,
       destinationLocationCode: prev.originLocationCode,
+      destinationEntityId: prev.originEntityId,
     }));
+    setSelectedAirports(prev => ({ origin: prev.destination, destination: prev.origin }));
   };
 
   return (
@@ -287,7 +562,10 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
       <View style={styles.header}>
         <TouchableOpacity
           style={styles.backButton}
-          onPress={() => navigation.goBack()}
+          onPress={() => {
+            cancelSearch();
+            navigation.goBack();
+          }}
         >
           <Text style={styles.backButtonText}>← Back</Text>
         </TouchableOpacity>
@@ -303,13 +581,16 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
             <TouchableOpacity
               style={[
                 styles.tripTypeButton,
-                !isRoundTrip && styles.tripTypeButtonActive
+                !isRoundTrip && !isMultiCity && styles.tripTypeButtonActive
               ]}
-              onPress={() => setIsRoundTrip(false)}
+              onPress={() => {
+                setIsMultiCity(false);
+                setIsRoundTrip(false);
+              }}
             >
               <Text style={[
                 styles.tripTypeButtonText,
-                !isRoundTrip && styles.tripTypeButtonTextActive
+                !isRoundTrip && !isMultiCity && styles.tripTypeButtonTextActive
               ]}>
                 One Way
               </Text>
@@ -317,102 +598,219 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
             <TouchableOpacity
               style={[
                 styles.tripTypeButton,
-                isRoundTrip && styles.tripTypeButtonActive
+                isRoundTrip && !isMultiCity && styles.tripTypeButtonActive
               ]}
-              onPress={() => setIsRoundTrip(true)}
-            >
-              <Text style={[
-                styles.tripTypeButtonText,
-                isRoundTrip && styles.tripTypeButtonTextActive
-              ]}>
-                Round Trip
-              </Text>
-            </TouchableOpacity>
-          </View>
-        </View>
-
-        {/* Airports */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>From & To</Text>
-          <View style={styles.airportContainer}>
-            <TouchableOpacity
-              style={styles.airportInput}
               onPress={() => {
-                setSelectedAirportType('origin');
-                setShowAirportModal(true);
+                setIsMultiCity(false);
+                setIsRoundTrip(true);
               }}
             >
-              <Text style={styles.airportLabel}>From</Text>
               <Text style={[
-                styles.airportCode,
-                !searchRequest.originLocationCode && styles.airportCodePlaceholder
+                styles.tripTypeButtonText,
+                isRoundTrip && !isMultiCity && styles.tripTypeButtonTextActive
               ]}>
-                {searchRequest.originLocationCode || 'Select airport'}
+                Round Trip
               </Text>
             </TouchableOpacity>
-            
-            <TouchableOpacity style={styles.swapButton} onPress={swapAirports}>
-              <Text style={styles.swapButtonText}>⇄</Text>
-            </TouchableOpacity>
-            
             <TouchableOpacity
-              style={styles.airportInput}
-              onPress={() => {
-                setSelectedAirportType('destination');
-                setShowAirportModal(true);
-              }}
+              style={[
+                styles.tripTypeButton,
+                isMultiCity && styles.tripTypeButtonActive
+              ]}
+              onPress={switchToMultiCity}
             >
-              <Text style={styles.airportLabel}>To</Text>
               <Text style={[
-                styles.airportCode,
-                !searchRequest.destinationLocationCode && styles.airportCodePlaceholder
+                styles.tripTypeButtonText,
+                isMultiCity && styles.tripTypeButtonTextActive
               ]}>
-                {searchRequest.destinationLocationCode || 'Select airport'}
+                Multi-City
               </Text>
             </TouchableOpacity>
           </View>
         </View>
 
-        {/* Dates */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Departure Date</Text>
-          <TouchableOpacity
-            style={styles.dateButton}
-            onPress={() => openCalendarModal('departure')}
-          >
-            <Text style={[
-              styles.dateButtonText,
-              !searchRequest.departureDate && styles.dateButtonPlaceholder
-            ]}>
-              {searchRequest.departureDate 
-                ? formatDateForDisplay(searchRequest.departureDate)
-                : 'Select departure date'
-              }
-            </Text>
-            <Text style={styles.calendarIcon}>📅</Text>
-          </TouchableOpacity>
-          
-          {isRoundTrip && (
-            <>
-              <Text style={styles.sectionTitle}>Return Date</Text>
+        {isMultiCity ? (
+          // Multi-city: one card per flight
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Flights</Text>
+            {getFieldError(searchError, 'legs') && (
+              <Text style={styles.fieldErrorText}>{getFieldError(searchError, 'legs')}</Text>
+            )}
+            {legs.map((leg, index) => {
+              const legFieldErrors = ['originLocationCode', 'destinationLocationCode', 'departureDate']
+                .map(field => getFieldError(searchError, `legs.${index}.${field}`))
+                .filter(Boolean);
+              return (
+                <View key={index} style={styles.legCard}>
+                  <View style={styles.legHeader}>
+                    <Text style={styles.legTitle}>Flight {index + 1}</Text>
+                    {legs.length > MULTI_CITY_MIN_LEGS && (
+                      <TouchableOpacity onPress={() => removeLeg(index)}>
+                        <Text style={styles.legRemoveText}>Remove</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  <View style={styles.airportContainer}>
+                    <TouchableOpacity
+                      style={styles.airportInput}
+                      onPress={() => openAirportModal('origin', index)}
+                    >
+                      <Text style={styles.airportLabel}>From</Text>
+                      <Text style={[
+                        styles.airportCode,
+                        !leg.originLocationCode && styles.airportCodePlaceholder
+                      ]}>
+                        {leg.originLocationCode || 'Select airport'}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.airportInput, styles.legDestinationInput]}
+                      onPress={() => openAirportModal('destination', index)}
+                    >
+                      <Text style={styles.airportLabel}>To</Text>
+                      <Text style={[
+                        styles.airportCode,
+                        !leg.destinationLocationCode && styles.airportCodePlaceholder
+                      ]}>
+                        {leg.destinationLocationCode || 'Select airport'}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                  <TouchableOpacity
+                    style={[styles.dateButton, styles.legDateButton]}
+                    onPress={() => openCalendarModal('departure', index)}
+                  >
+                    <Text style={[
+                      styles.dateButtonText,
+                      !leg.departureDate && styles.dateButtonPlaceholder
+                    ]}>
+                      {leg.departureDate
+                        ? formatDateForDisplay(leg.departureDate)
+                        : 'Select date'
+                      }
+                    </Text>
+                    <Text style={styles.calendarIcon}>📅</Text>
+                  </TouchableOpacity>
+                  {legFieldErrors.map((message) => (
+                    <Text key={message} style={styles.fieldErrorText}>{message}</Text>
+                  ))}
+                </View>
+              );
+            })}
+            {legs.length < MULTI_CITY_MAX_LEGS && (
+              <TouchableOpacity style={styles.addLegButton} onPress={addLeg}>
+                <Text style={styles.addLegButtonText}>+ Add flight</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : (
+          <>
+            {/* Airports */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>From & To</Text>
+              <View style={styles.airportContainer}>
+                <TouchableOpacity
+                  style={styles.airportInput}
+                  onPress={() => openAirportModal('origin')}
+                >
+                  <Text style={styles.airportLabel}>From</Text>
+                  <Text style={[
+                    styles.airportCode,
+                    !searchRequest.originLocationCode && styles.airportCodePlaceholder
+                  ]}>
+                    {searchRequest.originLocationCode || 'Select airport'}
+                  </Text>
+                </TouchableOpacity>
+                
+                <TouchableOpacity style={styles.swapButton} onPress={swapAirports}>
+                  <Text style={styles.swapButtonText}>⇄</Text>
+                </TouchableOpacity>
+                
+                <TouchableOpacity
+                  style={styles.airportInput}
+                  onPress={() => openAirportModal('destination')}
+                >
+                  <Text style={styles.airportLabel}>To</Text>
+                  <Text style={[
+                    styles.airportCode,
+                    !searchRequest.destinationLocationCode && styles.airportCodePlaceholder
+                  ]}>
+                    {searchRequest.destinationLocationCode || 'Select airport'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              {[originFieldError, destinationFieldError].filter(Boolean).map((message) => (
+                <Text key={message} style={styles.fieldErrorText}>{message}</Text>
+              ))}
+            </View>
+
+            {/* Dates */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Departure Date</Text>
               <TouchableOpacity
                 style={styles.dateButton}
-                onPress={() => openCalendarModal('return')}
+                onPress={() => openCalendarModal('departure')}
               >
                 <Text style={[
                   styles.dateButtonText,
-                  !searchRequest.returnDate && styles.dateButtonPlaceholder
+                  !searchRequest.departureDate && styles.dateButtonPlaceholder
                 ]}>
-                  {searchRequest.returnDate 
-                    ? formatDateForDisplay(searchRequest.returnDate)
-                    : 'Select return date'
+                  {searchRequest.departureDate 
+                    ? formatDateForDisplay(searchRequest.departureDate)
+                    : 'Select departure date'
                   }
                 </Text>
                 <Text style={styles.calendarIcon}>📅</Text>
               </TouchableOpacity>
-            </>
-          )}
-        </View>
+              {departureFieldError && (
+                <Text style={styles.fieldErrorText}>{departureFieldError}</Text>
+              )}
+              
+              {isRoundTrip && (
+                <>
+                  <Text style={styles.sectionTitle}>Return Date</Text>
+                  <TouchableOpacity
+                    style={styles.dateButton}
+                    onPress={() => openCalendarModal('return')}
+                  >
+                    <Text style={[
+                      styles.dateButtonText,
+                      !searchRequest.returnDate && styles.dateButtonPlaceholder
+                    ]}>
+                      {searchRequest.returnDate 
+                        ? formatDateForDisplay(searchRequest.returnDate)
+                        : 'Select return date'
+                      }
+                    </Text>
+                    <Text style={styles.calendarIcon}>📅</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+
+              {/* Flexible dates */}
+              <Text style={styles.sectionTitle}>Flexible Dates</Text>
+              <View style={styles.flexDaysContainer}>
+                {[null, ...FLEXIBLE_DAY_OPTIONS].map((days) => (
+                  <TouchableOpacity
+                    key={days ?? 'exact'}
+                    style={[
+                      styles.flexDaysButton,
+                      flexDays === days && styles.flexDaysButtonActive
+                    ]}
+                    onPress={() => setFlexDays(days)}
+                  >
+                    <Text style={[
+                      styles.flexDaysButtonText,
+                      flexDays === days && styles.flexDaysButtonTextActive
+                    ]}>
+                      {days ? `±${days} day${days > 1 ? 's' : ''}` : 'Exact'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          </>
+        )}
 
         {/* Passengers */}
         <View style={styles.section}>
@@ -506,13 +904,21 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
           {isLoading ? (
             <ActivityIndicator color="#ffffff" />
           ) : (
-            <Text style={styles.searchButtonText}>Search Flights</Text>
+            <Text style={styles.searchButtonText}>
+              {flexDays && !isMultiCity ? 'Compare Prices' : 'Search Flights'}
+            </Text>
           )}
         </TouchableOpacity>
 
+        {isLoading && retryAttempt && (
+          <Text style={styles.retryText}>
+            Connection problem, retrying… (attempt {retryAttempt.attempt} of {retryAttempt.maxRetries})
+          </Text>
+        )}
+
         {searchError && (
           <View style={styles.errorCard}>
-            <Text style={styles.errorText}>{searchError}</Text>
+            <Text style={styles.errorText}>{searchError.message}</Text>
           </View>
         )}
       </ScrollView>
@@ -530,7 +936,11 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
             </Text>
             <TouchableOpacity
               style={styles.modalCloseButton}
-              onPress={() => setShowAirportModal(false)}
+              onPress={() => {
+                cancelAirportSearch();
+                setIsSearchingAirports(false);
+                setShowAirportModal(false);
+              }}
             >
               <Text style={styles.modalCloseButtonText}>✕</Text>
             </TouchableOpacity>
@@ -614,7 +1024,9 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
         <View style={styles.modalContainer}>
           <View style={styles.modalHeader}>
             <Text style={styles.modalTitle}>
-              Select {selectedDateType === 'departure' ? 'Departure' : 'Return'} Date
+              {selectedLegIndex !== null
+                ? `Select Date for Flight ${selectedLegIndex + 1}`
+                : `Select ${selectedDateType === 'departure' ? 'Departure' : 'Return'} Date`}
             </Text>
             <TouchableOpacity
               style={styles.modalCloseButton}
@@ -627,9 +1039,18 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
           <View style={styles.calendarContainer}>
             <Calendar
               onDayPress={handleDateSelect}
-              minDate={selectedDateType === 'departure' ? formatDateForInput(new Date()) : searchRequest.departureDate}
-              maxDate={selectedDateType === 'departure' ? '2025-12-31' : '2025-12-31'}
-              markedDates={{
+              minDate={calendarMinDate}
+              maxDate={getLatestBookableDate()}
+              dayComponent={priceCalendar ? renderPriceDay : undefined}
+              markedDates={selectedLegIndex !== null ? {
+                ...(legs[selectedLegIndex]?.departureDate && {
+                  [legs[selectedLegIndex].departureDate]: {
+                    selected: true,
+                    selectedColor: '#007AFF',
+                    selectedTextColor: '#ffffff'
+                  }
+                })
+              } : {
                 ...(searchRequest.departureDate && {
                   [searchRequest.departureDate]: {
                     selected: true,
@@ -668,6 +1089,24 @@ const FlightSearchScreen: React.FC<Props> = ({ navigation, route }) => {
                 textDayHeaderFontSize: 14
               }}
             />
+            {isLoadingPriceCalendar ? (
+              <Text style={styles.priceLegendNote}>Loading prices…</Text>
+            ) : priceCalendar && Object.keys(dayPrices).length > 0 && (
+              <View style={styles.priceLegend}>
+                <View style={styles.priceLegendItems}>
+                  <View style={[styles.priceLegendSwatch, styles.priceLegendCheap]} />
+                  <Text style={styles.priceLegendLabel}>Cheap</Text>
+                  <View style={[styles.priceLegendSwatch, styles.priceLegendAverage]} />
+                  <Text style={styles.priceLegendLabel}>Average</Text>
+                  <View style={[styles.priceLegendSwatch, styles.priceLegendExpensive]} />
+                  <Text style={styles.priceLegendLabel}>Expensive</Text>
+                </View>
+                <Text style={styles.priceLegendNote}>
+                  Lowest one-way fares per day, indicative only
+                  {priceCalendar.currency !== displayCurrency ? ' (approx. in your currency)' : ''}
+                </Text>
+              </View>
+            )}
           </View>
         </View>
       </Modal>
@@ -774,6 +1213,74 @@ const styles = StyleSheet.create({
     fontSize: 20,
     color: '#007AFF',
   },
+  flexDaysContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  flexDaysButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+    backgroundColor: '#ffffff',
+  },
+  flexDaysButtonActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF',
+  },
+  flexDaysButtonText: {
+    fontSize: 14,
+    color: '#666666',
+    fontWeight: '500',
+  },
+  flexDaysButtonTextActive: {
+    color: '#ffffff',
+  },
+  legCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+  },
+  legHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  legTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  legRemoveText: {
+    fontSize: 14,
+    color: '#F44336',
+    fontWeight: '500',
+  },
+  legDestinationInput: {
+    marginLeft: 12,
+  },
+  legDateButton: {
+    marginTop: 8,
+  },
+  addLegButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderStyle: 'dashed',
+  },
+  addLegButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
   passengerContainer: {
     backgroundColor: '#ffffff',
     borderRadius: 12,
@@ -853,6 +1360,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  retryText: {
+    fontSize: 14,
+    color: '#FF9500',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  fieldErrorText: {
+    fontSize: 13,
+    color: '#F44336',
+    marginTop: 6,
+  },
   errorCard: {
     backgroundColor: '#FFEBEE',
     borderRadius: 12,
@@ -1006,6 +1524,40 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 20,
   },
+  priceLegend: {
+    marginTop: 16,
+  },
+  priceLegendItems: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  priceLegendSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  priceLegendCheap: {
+    backgroundColor: '#E8F5E9',
+  },
+  priceLegendAverage: {
+    backgroundColor: '#FFF3E0',
+  },
+  priceLegendExpensive: {
+    backgroundColor: '#FFEBEE',
+  },
+  priceLegendLabel: {
+    fontSize: 13,
+    color: '#666666',
+    marginRight: 16,
+  },
+  priceLegendNote: {
+    fontSize: 12,
+    color: '#999999',
+    textAlign: 'center',
+    marginTop: 8,
+  },
 });
 
 export default FlightSearchScreen;
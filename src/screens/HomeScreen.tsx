@@ -13,6 +13,9 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../context/AuthContext';
 import { useFlight } from '../context/FlightContext';
+import { usePreferences } from '../hooks/usePreferences';
+import { usePriceTracking } from '../hooks/usePriceTracking';
+import currencyService from '../services/currencyService';
 import { PopularRoute, RecentSearch } from '../types/flight';
 
 type RootStackParamList = {
@@ -23,6 +26,10 @@ type RootStackParamList = {
   AirportMap: undefined;
   FlightSearch: { selectedAirports?: { origin?: import('../types/flight').Airport; destination?: import('../types/flight').Airport } };
   FlightResults: { searchRequest: import('../types/flight').FlightSearchRequest };
+  Preferences: undefined;
+  TravelerProfiles: undefined;
+  PriceAlerts: undefined;
+  DeveloperSettings: undefined;
 };
 
 type HomeScreenNavigationProp = StackNavigationProp<
@@ -36,6 +43,8 @@ interface Props {
 
 const HomeScreen: React.FC<Props> = ({ navigation }) => {
   const { user, logout } = useAuth();
+  const { displayCurrency } = usePreferences();
+  const { unreadAlertCount } = usePriceTracking();
   const { 
     popularRoutes, 
     recentSearches, 
@@ -64,10 +73,8 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
         {
           text: 'Logout',
           style: 'destructive',
-          onPress: async () => {
-            await logout();
-            navigation.navigate('Landing');
-          },
+          // Clearing the user swaps to the auth stack and drops this history
+          onPress: logout,
         },
       ]
     );
@@ -104,14 +111,41 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
       <ScrollView style={styles.scrollView}>
         <View style={styles.header}>
           <View style={styles.headerContent}>
-            <Text style={styles.title}>Welcome to GFlights</Text>
+            <Text
+              style={styles.title}
+              onLongPress={__DEV__ ? () => navigation.navigate('DeveloperSettings') : undefined}
+            >
+              Welcome to GFlights
+            </Text>
             <Text style={styles.subtitle}>
               Hello, {user?.name || 'User'}! Your flight booking companion
             </Text>
           </View>
-          <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
-            <Text style={styles.logoutButtonText}>Logout</Text>
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.logoutButton}
+              onPress={() => navigation.navigate('PriceAlerts')}
+            >
+              <Text style={styles.logoutButtonText}>
+                Alerts{unreadAlertCount > 0 ? ` (${unreadAlertCount})` : ''}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.logoutButton}
+              onPress={() => navigation.navigate('TravelerProfiles')}
+            >
+              <Text style={styles.logoutButtonText}>Travelers</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.logoutButton}
+              onPress={() => navigation.navigate('Preferences')}
+            >
+              <Text style={styles.logoutButtonText}>Settings</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
+              <Text style={styles.logoutButtonText}>Logout</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         <View style={styles.content}>
@@ -178,9 +212,16 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
                     <Text style={styles.popularRoute}>
                       {route.originName} → {route.destinationName}
                     </Text>
-                    <Text style={styles.popularPrice}>
-                      From ${route.averagePrice}
-                    </Text>
+                    {route.averagePrice && (
+                      <Text style={styles.popularPrice}>
+                        From {currencyService.formatPrice(
+                          route.averagePrice,
+                          route.currency || 'USD',
+                          displayCurrency,
+                          { wholeUnits: true },
+                        )}
+                      </Text>
+                    )}
                   </View>
                   <View style={styles.popularBadge}>
                     <Text style={styles.popularBadgeText}>Popular</Text>
@@ -197,7 +238,9 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
                 <View key={search.id} style={styles.recentCard}>
                   <View style={styles.recentRouteInfo}>
                     <Text style={styles.recentRoute}>
-                      {search.origin} → {search.destination}
+                      {search.legs
+                        ? [search.legs[0].originLocationCode, ...search.legs.map(leg => leg.destinationLocationCode)].join(' → ')
+                        : `${search.origin} → ${search.destination}`}
                     </Text>
                     <Text style={styles.recentPassengers}>
                       {search.passengers} passenger{search.passengers > 1 ? 's' : ''}
@@ -219,7 +262,7 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
 
           {searchError && (
             <View style={styles.errorCard}>
-              <Text style={styles.errorText}>{searchError}</Text>
+              <Text style={styles.errorText}>{searchError.message}</Text>
             </View>
           )}
         </View>
@@ -259,6 +302,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666666',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   logoutButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
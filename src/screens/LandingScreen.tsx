@@ -14,6 +14,7 @@ type RootStackParamList = {
   Login: undefined;
   Signup: undefined;
   Home: undefined;
+  DeveloperSettings: undefined;
 };
 
 type LandingScreenNavigationProp = StackNavigationProp<
@@ -33,7 +34,13 @@ const LandingScreen: React.FC<Props> = ({ navigation }) => {
       <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
       <View style={styles.content}>
         <View style={styles.header}>
-          <Text style={styles.title}>GFlights</Text>
+          {/* Long-press the title to open the hidden developer settings (dev builds only) */}
+          <Text
+            style={styles.title}
+            onLongPress={__DEV__ ? () => navigation.navigate('DeveloperSettings') : undefined}
+          >
+            GFlights
+          </Text>
           <Text style={styles.subtitle}>Find the best flight deals</Text>
           <Text style={styles.description}>
             Discover amazing destinations with our comprehensive flight search and booking platform
@@ -12,6 +12,7 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../context/AuthContext';
+import { getFieldError, isAppError } from '../api/errors';
 
 type RootStackParamList = {
   Landing: undefined;
@@ -42,10 +43,13 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
     }
 
     try {
+      // AppNavigator swaps to the app stack once the user is set
       await login(email, password);
-      navigation.navigate('Home');
-    } catch (error: any) {
-      Alert.alert('Login Failed', error.message || 'An error occurred during login');
+    } catch (loginError) {
+      // Field-level problems are rendered under the inputs
+      if (!isAppError(loginError) || loginError.kind !== 'validation' || loginError.fieldErrors.length === 0) {
+        Alert.alert('Login Failed', isAppError(loginError) ? loginError.message : 'An error occurred during login');
+      }
     }
   };
 
@@ -58,18 +62,30 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
           <Text style={styles.subtitle}>Sign in to your account</Text>
         </View>
 
+        {error?.kind === 'auth_expired' && (
+          <View style={styles.sessionExpiredCard}>
+            <Text style={styles.sessionExpiredText}>{error.message}</Text>
+          </View>
+        )}
+
         <View style={styles.form}>
           <View style={styles.inputContainer}>
             <Text style={styles.label}>Email</Text>
             <TextInput
               style={styles.input}
               value={email}
-              onChangeText={setEmail}
+              onChangeText={(text) => {
+                setEmail(text);
+                clearError();
+              }}
               placeholder="Enter your email"
               keyboardType="email-address"
               autoCapitalize="none"
               autoCorrect={false}
             />
+            {getFieldError(error, 'email') && (
+              <Text style={styles.fieldErrorText}>{getFieldError(error, 'email')}</Text>
+            )}
           </View>
 
           <View style={styles.inputContainer}>
@@ -77,10 +93,16 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
             <TextInput
               style={styles.input}
               value={password}
-              onChangeText={setPassword}
+              onChangeText={(text) => {
+                setPassword(text);
+                clearError();
+              }}
               placeholder="Enter your password"
               secureTextEntry
             />
+            {getFieldError(error, 'password') && (
+              <Text style={styles.fieldErrorText}>{getFieldError(error, 'password')}</Text>
+            )}
           </View>
 
           <TouchableOpacity style={styles.forgotPassword}>
@@ -192,6 +214,23 @@ const styles = StyleSheet.create({
   disabledButton: {
     opacity: 0.6,
   },
+  sessionExpiredCard: {
+    backgroundColor: '#FFF3E0',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF9500',
+  },
+  sessionExpiredText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  fieldErrorText: {
+    fontSize: 13,
+    color: '#F44336',
+    marginTop: 6,
+  },
 });
 
 export default LoginScreen;
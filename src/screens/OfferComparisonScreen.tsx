@@ -0,0 +1,304 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { FlightOffer, FlightSearchRequest } from '../types/flight';
+import { useFlight } from '../context/FlightContext';
+import { usePreferences } from '../hooks/usePreferences';
+import currencyService from '../services/currencyService';
+import { ComparisonRowKey, OfferComparison, getComparisonRows, getOfferComparison } from '../utils/comparison';
+import { getDayOffset } from '../utils/dates';
+import { getCarrierName } from '../utils/flightNames';
+import { formatMinutes } from '../utils/itinerary';
+import { describeRoute } from '../utils/searchLink';
+import { formatLocalDate, formatLocalTime } from '../utils/time';
+
+const ROW_LABELS: Record<ComparisonRowKey, string> = {
+  price: 'Price',
+  duration: 'Total duration',
+  stops: 'Stops',
+  layovers: 'Time in layovers',
+  departure: 'Departs',
+  arrival: 'Arrives',
+  checkedBags: 'Checked bags',
+  fareType: 'Fare type',
+  seatsLeft: 'Seats left',
+  ticketingDeadline: 'Book by',
+};
+
+const FARE_TYPE_LABELS: Record<string, string> = {
+  PUBLISHED: 'Published',
+  NEGOTIATED: 'Negotiated',
+  CORPORATE: 'Corporate',
+};
+
+type RootStackParamList = {
+  FlightDetails: { offer: FlightOffer; searchRequest: FlightSearchRequest };
+  OfferComparison: { offers: FlightOffer[]; searchRequest: FlightSearchRequest };
+};
+
+type OfferComparisonScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'OfferComparison'
+>;
+
+type OfferComparisonScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'OfferComparison'
+>;
+
+interface Props {
+  navigation: OfferComparisonScreenNavigationProp;
+  route: OfferComparisonScreenRouteProp;
+}
+
+// Selected offers side by side, one column each, with the best value in
+// every row highlighted
+const OfferComparisonScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { offers, searchRequest } = route.params;
+  const insets = useSafeAreaInsets();
+  const { dictionaries } = useFlight();
+  const { displayCurrency } = usePreferences();
+  const comparisons = offers.map(getOfferComparison);
+  const rows = getComparisonRows(comparisons);
+  const hasSeveralItineraries = offers.some(offer => offer.itineraries.length > 1);
+
+  const formatStops = (stops: number) => (stops === 0 ? 'Direct' : `${stops} stop${stops > 1 ? 's' : ''}`);
+
+  // Main line and an optional smaller line below it
+  const formatCell = (key: ComparisonRowKey, comparison: OfferComparison): [string, string?] => {
+    switch (key) {
+      case 'price':
+        return [currencyService.formatPrice(comparison.price, comparison.offer.price.currency, displayCurrency)];
+      case 'duration':
+        return [comparison.durationMinutes === null ? '—' : formatMinutes(comparison.durationMinutes)];
+      case 'stops':
+        return [formatStops(comparison.stops)];
+      case 'layovers':
+        return [comparison.layoverMinutes === 0 ? 'None' : formatMinutes(comparison.layoverMinutes)];
+      case 'departure':
+        return [formatLocalTime(comparison.departureAt), formatLocalDate(comparison.departureAt)];
+      case 'arrival': {
+        const dayOffset = getDayOffset(comparison.departureAt, comparison.arrivalAt);
+        return [
+          `${formatLocalTime(comparison.arrivalAt)}${dayOffset > 0 ? ` +${dayOffset}` : ''}`,
+          formatLocalDate(comparison.arrivalAt),
+        ];
+      }
+      case 'checkedBags':
+        if (comparison.checkedBags === null) {
+          return ['—'];
+        }
+        return [comparison.checkedBags === 0 ? 'None' : `${comparison.checkedBags} per traveler`];
+      case 'fareType':
+        return [comparison.fareTypes.map(type => FARE_TYPE_LABELS[type] || type).join(', ') || '—'];
+      case 'seatsLeft':
+        return [String(comparison.seatsLeft)];
+      case 'ticketingDeadline':
+        return [comparison.lastTicketingDate ? formatLocalDate(comparison.lastTicketingDate) : '—'];
+    }
+  };
+
+  const renderOfferHeader = (comparison: OfferComparison, index: number) => {
+    const firstSegment = comparison.offer.itineraries[0].segments[0];
+    return (
+      <View key={comparison.offer.id} style={[styles.cell, styles.offerHeaderCell]}>
+        <Text style={styles.offerCarrier} numberOfLines={2}>
+          {getCarrierName(firstSegment.carrierCode, dictionaries)}
+        </Text>
+        <Text style={styles.offerFlightNumber}>
+          {firstSegment.carrierCode} {firstSegment.number}
+        </Text>
+        <TouchableOpacity
+          onPress={() => navigation.navigate('FlightDetails', { offer: comparison.offer, searchRequest })}
+          accessibilityLabel={`View details of option ${index + 1}`}
+        >
+          <Text style={styles.detailsLink}>Details</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Compare Flights</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.summaryRoute}>{describeRoute(searchRequest)}</Text>
+        <Text style={styles.summaryText}>
+          {offers.length} flights · best value in each row highlighted
+        </Text>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={styles.table}>
+            <View style={styles.row}>
+              <View style={[styles.cell, styles.labelCell]} />
+              {comparisons.map(renderOfferHeader)}
+            </View>
+
+            {rows.map(row => (
+              <View key={row.key} style={styles.row}>
+                <View style={[styles.cell, styles.labelCell]}>
+                  <Text style={styles.labelText}>{ROW_LABELS[row.key]}</Text>
+                </View>
+                {comparisons.map((comparison, index) => {
+                  const isBest = row.bestIndexes.includes(index);
+                  const [value, detail] = formatCell(row.key, comparison);
+                  return (
+                    <View key={comparison.offer.id} style={[styles.cell, isBest && styles.bestCell]}>
+                      <Text style={[styles.valueText, isBest && styles.bestValueText]}>{value}</Text>
+                      {detail && <Text style={styles.detailText}>{detail}</Text>}
+                    </View>
+                  );
+                })}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+
+        <Text style={styles.note}>
+          Times are local to each airport.
+          {hasSeveralItineraries
+            ? ' Departure and arrival are for the first flight; duration, stops and layovers cover the whole trip.'
+            : ''}
+        </Text>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  summaryRoute: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 16,
+  },
+  table: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  cell: {
+    width: 120,
+    paddingVertical: 12,
+    paddingHorizontal: 10,
+    justifyContent: 'center',
+  },
+  labelCell: {
+    width: 100,
+    backgroundColor: '#f8f9fa',
+  },
+  offerHeaderCell: {
+    justifyContent: 'flex-start',
+  },
+  offerCarrier: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  offerFlightNumber: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
+  detailsLink: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontWeight: '500',
+    marginTop: 6,
+  },
+  labelText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666666',
+  },
+  valueText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  detailText: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 2,
+  },
+  bestCell: {
+    backgroundColor: '#E8F5E9',
+  },
+  bestValueText: {
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
+  note: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 12,
+    marginBottom: 24,
+  },
+});
+
+export default OfferComparisonScreen;
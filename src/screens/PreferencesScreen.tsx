@@ -0,0 +1,524 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import preferencesService from '../services/preferencesService';
+import currencyService from '../services/currencyService';
+import { FlightSortOrder } from '../types/flight';
+import { TimeWindow } from '../types/filters';
+import { ScoreWeights } from '../types/preferences';
+import { FrequentFlyerNumber } from '../types/traveler';
+import { getDeviceLocale, getMarketFromLocale } from '../utils/locale';
+import { describeLoyaltyProgram } from '../utils/loyalty';
+import { TIME_WINDOWS } from '../utils/offerFilters';
+import { MAX_SCORE_WEIGHT } from '../utils/offerScores';
+
+const SORT_OPTIONS: { value: FlightSortOrder; label: string; description: string }[] = [
+  { value: 'best', label: 'Best', description: 'Balance of price, duration and stops' },
+  { value: 'cheapest', label: 'Cheapest', description: 'Lowest price first' },
+  { value: 'fastest', label: 'Fastest', description: 'Shortest travel time first' },
+];
+
+const WEIGHT_FACTORS: { key: keyof ScoreWeights; label: string }[] = [
+  { key: 'price', label: 'Price' },
+  { key: 'duration', label: 'Duration' },
+  { key: 'stops', label: 'Fewer stops' },
+  { key: 'departureTime', label: 'Departure time' },
+];
+
+const WEIGHT_LABELS = ['Off', 'Low', 'Medium', 'High'];
+
+const TIME_WINDOW_LABELS: Record<TimeWindow, string> = {
+  early_morning: 'Before 6am',
+  morning: '6am–12pm',
+  afternoon: '12pm–6pm',
+  evening: 'After 6pm',
+};
+
+type RootStackParamList = {
+  Home: undefined;
+  Preferences: undefined;
+};
+
+type PreferencesScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'Preferences'
+>;
+
+interface Props {
+  navigation: PreferencesScreenNavigationProp;
+}
+
+const PreferencesScreen: React.FC<Props> = ({ navigation }) => {
+  const insets = useSafeAreaInsets();
+  const preferences = preferencesService.getPreferences();
+  const deviceMarket = getMarketFromLocale(getDeviceLocale());
+
+  const [sortBy, setSortBy] = useState<FlightSortOrder>(preferences.sortBy);
+  const [useDeviceRegion, setUseDeviceRegion] = useState(preferences.market === null);
+  const [market, setMarket] = useState(preferences.market || deviceMarket?.market || '');
+  const [countryCode, setCountryCode] = useState(preferences.countryCode || deviceMarket?.countryCode || '');
+  const [displayCurrency, setDisplayCurrency] = useState(preferences.displayCurrency);
+  const [scoreWeights, setScoreWeights] = useState(preferences.scoreWeights);
+  const [preferredDepartureWindows, setPreferredDepartureWindows] = useState(preferences.preferredDepartureWindows);
+  const [loyaltyMemberships, setLoyaltyMemberships] = useState(preferences.loyaltyMemberships);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await preferencesService.setPreferences({
+        sortBy,
+        market: useDeviceRegion ? null : market.trim(),
+        countryCode: useDeviceRegion ? null : countryCode.trim().toUpperCase(),
+        displayCurrency,
+        scoreWeights,
+        preferredDepartureWindows,
+        // Rows left empty are dropped rather than rejected
+        loyaltyMemberships: loyaltyMemberships
+          .map(membership => ({
+            airlineCode: membership.airlineCode.trim().toUpperCase(),
+            number: membership.number.trim().toUpperCase(),
+          }))
+          .filter(membership => membership.airlineCode || membership.number),
+      });
+      navigation.goBack();
+    } catch (error: any) {
+      Alert.alert('Invalid Preferences', error.message || 'Failed to save preferences');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleDepartureWindow = (window: TimeWindow) => {
+    setPreferredDepartureWindows(preferredDepartureWindows.includes(window)
+      ? preferredDepartureWindows.filter(item => item !== window)
+      : [...preferredDepartureWindows, window]);
+  };
+
+  const updateMembership = (index: number, changes: Partial<FrequentFlyerNumber>) => {
+    setLoyaltyMemberships(loyaltyMemberships.map((membership, membershipIndex) => (
+      membershipIndex === index ? { ...membership, ...changes } : membership
+    )));
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Preferences</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Sort order */}
+        <Text style={styles.sectionTitle}>Sort results by</Text>
+        {SORT_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.optionCard, sortBy === option.value && styles.optionCardActive]}
+            onPress={() => setSortBy(option.value)}
+          >
+            <Text style={[styles.optionName, sortBy === option.value && styles.optionNameActive]}>
+              {option.label}
+            </Text>
+            <Text style={styles.optionDescription}>{option.description}</Text>
+          </TouchableOpacity>
+        ))}
+
+        {/* Market */}
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Prices for</Text>
+        <TouchableOpacity
+          style={[styles.optionCard, useDeviceRegion && styles.optionCardActive]}
+          onPress={() => setUseDeviceRegion(true)}
+        >
+          <Text style={[styles.optionName, useDeviceRegion && styles.optionNameActive]}>
+            This device's region
+          </Text>
+          <Text style={styles.optionDescription}>
+            {deviceMarket
+              ? `${deviceMarket.market} · ${deviceMarket.countryCode}`
+              : 'Not available, the app default is used'}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.optionCard, !useDeviceRegion && styles.optionCardActive]}
+          onPress={() => setUseDeviceRegion(false)}
+        >
+          <Text style={[styles.optionName, !useDeviceRegion && styles.optionNameActive]}>
+            A specific market
+          </Text>
+          <Text style={styles.optionDescription}>
+            Search as if you were in another country
+          </Text>
+        </TouchableOpacity>
+
+        {!useDeviceRegion && (
+          <View style={styles.marketInputs}>
+            <View style={styles.marketInput}>
+              <Text style={styles.inputLabel}>Market</Text>
+              <TextInput
+                style={styles.input}
+                value={market}
+                onChangeText={setMarket}
+                placeholder="en-GB"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+            <View style={styles.marketInput}>
+              <Text style={styles.inputLabel}>Country</Text>
+              <TextInput
+                style={styles.input}
+                value={countryCode}
+                onChangeText={setCountryCode}
+                placeholder="GB"
+                autoCapitalize="characters"
+                autoCorrect={false}
+                maxLength={2}
+              />
+            </View>
+          </View>
+        )}
+
+        {/* Display currency */}
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Show prices in</Text>
+        <View style={styles.chipRow}>
+          {[null, ...currencyService.getSupportedCurrencies()].map((currency) => {
+            const isActive = displayCurrency === currency;
+            return (
+              <TouchableOpacity
+                key={currency || 'quoted'}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => setDisplayCurrency(currency)}
+              >
+                <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                  {currency || 'As quoted'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={styles.hintText}>
+          {displayCurrency
+            ? `Other currencies are converted with offline rates from ${currencyService.getRatesAsOf()} and marked "approx."; you are always charged in the quoted currency.`
+            : 'Prices are shown in the currency the airline quotes.'}
+        </Text>
+
+        {/* Best flight score */}
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>What makes a flight "Best"</Text>
+        {WEIGHT_FACTORS.map((factor) => (
+          <View key={factor.key} style={styles.weightRow}>
+            <Text style={styles.weightLabel}>{factor.label}</Text>
+            <View style={styles.weightOptions}>
+              {WEIGHT_LABELS.slice(0, MAX_SCORE_WEIGHT + 1).map((label, weight) => {
+                const isActive = scoreWeights[factor.key] === weight;
+                return (
+                  <TouchableOpacity
+                    key={label}
+                    style={[styles.weightOption, isActive && styles.chipActive]}
+                    onPress={() => setScoreWeights({ ...scoreWeights, [factor.key]: weight })}
+                  >
+                    <Text style={[styles.weightOptionText, isActive && styles.chipTextActive]}>{label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+
+        <Text style={styles.inputLabel}>Preferred departure times</Text>
+        <View style={styles.chipRow}>
+          {TIME_WINDOWS.map((window) => {
+            const isActive = preferredDepartureWindows.includes(window);
+            return (
+              <TouchableOpacity
+                key={window}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => toggleDepartureWindow(window)}
+              >
+                <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                  {TIME_WINDOW_LABELS[window]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={styles.hintText}>
+          {preferredDepartureWindows.length > 0
+            ? 'Flights leaving at other times score lower when departure time counts.'
+            : 'Pick times of day to favour; with none picked, departure time does not matter.'}
+        </Text>
+
+        {/* Loyalty programs */}
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>My loyalty programs</Text>
+        {loyaltyMemberships.map((membership, index) => (
+          <View key={index} style={styles.membershipRow}>
+            <View style={styles.membershipInputs}>
+              <TextInput
+                style={[styles.input, styles.airlineInput]}
+                value={membership.airlineCode}
+                onChangeText={airlineCode => updateMembership(index, { airlineCode })}
+                placeholder="BA"
+                autoCapitalize="characters"
+                autoCorrect={false}
+                maxLength={2}
+              />
+              <TextInput
+                style={[styles.input, styles.numberInput]}
+                value={membership.number}
+                onChangeText={number => updateMembership(index, { number })}
+                placeholder="Membership number"
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => setLoyaltyMemberships(loyaltyMemberships.filter((_, membershipIndex) => membershipIndex !== index))}
+              >
+                <Text style={styles.removeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            {membership.airlineCode.trim().length === 2 && (
+              <Text style={styles.optionDescription}>{describeLoyaltyProgram(membership.airlineCode.trim())}</Text>
+            )}
+          </View>
+        ))}
+        <TouchableOpacity
+          onPress={() => setLoyaltyMemberships([...loyaltyMemberships, { airlineCode: '', number: '' }])}
+        >
+          <Text style={styles.linkText}>+ Add program</Text>
+        </TouchableOpacity>
+        <Text style={styles.hintText}>
+          Flights on the program's airline and its alliance partners are marked as earning miles.
+        </Text>
+
+        <TouchableOpacity
+          style={[styles.saveButton, isSaving && styles.disabledButton]}
+          onPress={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  sectionSpacing: {
+    marginTop: 16,
+  },
+  optionCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+  },
+  optionCardActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#E3F2FD',
+  },
+  optionName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  optionNameActive: {
+    color: '#007AFF',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#666666',
+  },
+  marketInputs: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  marketInput: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    backgroundColor: '#ffffff',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+    backgroundColor: '#ffffff',
+  },
+  chipActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  weightRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  weightLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  weightOptions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  weightOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+    backgroundColor: '#ffffff',
+  },
+  weightOptionText: {
+    fontSize: 12,
+    color: '#1a1a1a',
+    fontWeight: '500',
+  },
+  membershipRow: {
+    marginBottom: 12,
+  },
+  membershipInputs: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  airlineInput: {
+    width: 72,
+  },
+  numberInput: {
+    flex: 1,
+  },
+  removeButton: {
+    paddingHorizontal: 4,
+  },
+  removeButtonText: {
+    fontSize: 16,
+    color: '#999999',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 8,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 24,
+    marginBottom: 24,
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+});
+
+export default PreferencesScreen;
@@ -0,0 +1,509 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { FlightSearchRequest } from '../types/flight';
+import { FareAlert, TrackedFare } from '../types/priceTracking';
+import { useAuth } from '../context/AuthContext';
+import { usePreferences } from '../hooks/usePreferences';
+import { usePriceTracking } from '../hooks/usePriceTracking';
+import currencyService from '../services/currencyService';
+import priceTrackingService from '../services/priceTrackingService';
+import { getLatestPrice, getPriceChangePercent } from '../utils/priceTracking';
+import { formatLocalDate } from '../utils/time';
+
+// Most recent checks drawn in the price history
+const HISTORY_BARS = 14;
+
+type RootStackParamList = {
+  Home: undefined;
+  FlightResults: { searchRequest: FlightSearchRequest; autoSearch?: boolean; sharedOfferKey?: string };
+  PriceAlerts: undefined;
+};
+
+type PriceAlertsScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'PriceAlerts'
+>;
+
+interface Props {
+  navigation: PriceAlertsScreenNavigationProp;
+}
+
+// Empty input turns a rule off
+const parseRuleInput = (value: string): number | null => {
+  const trimmed = value.trim();
+  return trimmed === '' ? null : Number(trimmed);
+};
+
+interface TrackedFareCardProps {
+  fare: TrackedFare;
+  displayCurrency: string | null;
+  onOpen: (fare: TrackedFare) => void;
+}
+
+const TrackedFareCard: React.FC<TrackedFareCardProps> = ({ fare, displayCurrency, onOpen }) => {
+  const { user } = useAuth();
+  const [belowPrice, setBelowPrice] = useState(fare.rules.belowPrice?.toString() || '');
+  const [dropPercent, setDropPercent] = useState(fare.rules.dropPercent?.toString() || '');
+  const latestPrice = getLatestPrice(fare);
+  const changePercent = getPriceChangePercent(fare);
+  const history = fare.history.slice(-HISTORY_BARS);
+  const knownPrices = history
+    .map(point => point.price)
+    .filter((price): price is number => price !== null);
+  const highestPrice = Math.max(...knownPrices, 0);
+  const isDirty = belowPrice !== (fare.rules.belowPrice?.toString() || '')
+    || dropPercent !== (fare.rules.dropPercent?.toString() || '');
+
+  const handleSaveRules = async () => {
+    if (!user) {
+      return;
+    }
+    try {
+      await priceTrackingService.setAlertRules(user._id, fare.id, {
+        belowPrice: parseRuleInput(belowPrice),
+        dropPercent: parseRuleInput(dropPercent),
+      });
+    } catch (error: any) {
+      Alert.alert('Price Alerts', error.message);
+    }
+  };
+
+  const handleStopTracking = () => {
+    Alert.alert('Stop Tracking', `Stop tracking ${fare.label}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Stop', style: 'destructive', onPress: () => user && priceTrackingService.untrack(user._id, fare.id) },
+    ]);
+  };
+
+  return (
+    <View style={styles.fareCard}>
+      <View style={styles.fareHeader}>
+        <View style={styles.fareInfo}>
+          <Text style={styles.fareLabel}>{fare.label}</Text>
+          <Text style={styles.fareText}>
+            {(fare.searchRequest.legs || [fare.searchRequest])
+              .map(leg => formatLocalDate(leg.departureDate))
+              .concat(!fare.searchRequest.legs && fare.searchRequest.returnDate
+                ? [formatLocalDate(fare.searchRequest.returnDate)]
+                : [])
+              .join(' – ')}
+            {fare.kind === 'offer' ? ' · This flight' : ' · Cheapest flight'}
+          </Text>
+        </View>
+        <View style={styles.farePrice}>
+          <Text style={styles.farePriceText}>
+            {latestPrice === null
+              ? 'Sold out'
+              : currencyService.formatPrice(latestPrice, fare.currency, displayCurrency, { wholeUnits: true })}
+          </Text>
+          {changePercent !== null && Math.round(changePercent) !== 0 && (
+            <Text style={[styles.fareChange, changePercent < 0 ? styles.fareChangeDown : styles.fareChangeUp]}>
+              {changePercent < 0 ? '↓' : '↑'} {Math.abs(Math.round(changePercent))}%
+            </Text>
+          )}
+        </View>
+      </View>
+
+      {/* One bar per check, scaled to the highest price shown */}
+      {knownPrices.length > 1 && (
+        <View style={styles.historyChart} accessibilityLabel="Price history">
+          {history.map(point => (
+            <View
+              key={point.checkedAt}
+              style={[
+                styles.historyBar,
+                point.price === null
+                  ? styles.historyBarMissing
+                  : { height: `${Math.max((point.price / highestPrice) * 100, 8)}%` },
+              ]}
+            />
+          ))}
+        </View>
+      )}
+      <Text style={styles.fareText}>
+        {fare.history.length} check{fare.history.length !== 1 ? 's' : ''} · last{' '}
+        {new Date(fare.history[fare.history.length - 1].checkedAt).toLocaleString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+        })}
+      </Text>
+
+      <View style={styles.ruleRow}>
+        <View style={styles.ruleInput}>
+          <Text style={styles.inputLabel}>Alert below ({fare.currency})</Text>
+          <TextInput
+            style={styles.input}
+            value={belowPrice}
+            onChangeText={setBelowPrice}
+            placeholder="Off"
+            keyboardType="decimal-pad"
+          />
+        </View>
+        <View style={styles.ruleInput}>
+          <Text style={styles.inputLabel}>Alert on drop of %</Text>
+          <TextInput
+            style={styles.input}
+            value={dropPercent}
+            onChangeText={setDropPercent}
+            placeholder="Off"
+            keyboardType="number-pad"
+          />
+        </View>
+      </View>
+
+      <View style={styles.fareActions}>
+        <TouchableOpacity onPress={handleStopTracking}>
+          <Text style={styles.stopText}>Stop tracking</Text>
+        </TouchableOpacity>
+        <View style={styles.fareActionsRight}>
+          {isDirty && (
+            <TouchableOpacity onPress={handleSaveRules}>
+              <Text style={styles.actionText}>Save alerts</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={() => onOpen(fare)}>
+            <Text style={styles.actionText}>Search</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+};
+
+// Fares the user tracks, their price history and the alerts they raised
+const PriceAlertsScreen: React.FC<Props> = ({ navigation }) => {
+  const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const { displayCurrency } = usePreferences();
+  const { trackedFares, alerts } = usePriceTracking();
+  const [isChecking, setIsChecking] = useState(false);
+  const userId = user?._id;
+
+  // Alerts seen here are no longer new
+  useEffect(() => {
+    return () => {
+      if (userId) {
+        priceTrackingService.markAlertsRead(userId);
+      }
+    };
+  }, [userId]);
+
+  const handleCheckNow = async () => {
+    if (!userId) {
+      return;
+    }
+    try {
+      setIsChecking(true);
+      const newAlerts = await priceTrackingService.checkPrices(userId, { force: true });
+      if (newAlerts.length === 0) {
+        Alert.alert('Price Alerts', 'No price drops since the last check');
+      }
+    } catch (error: any) {
+      Alert.alert('Price Alerts', error.message || 'Failed to check prices');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleOpenFare = (fare: TrackedFare) => {
+    navigation.navigate('FlightResults', { searchRequest: fare.searchRequest, autoSearch: true });
+  };
+
+  const describeAlert = (alert: FareAlert) => {
+    const fare = trackedFares.find(entry => entry.id === alert.trackedFareId);
+    const reasons = alert.reasons.map(reason => {
+      if (reason === 'below_price' && fare?.rules.belowPrice) {
+        return `Below your ${currencyService.formatAmount(fare.rules.belowPrice, alert.currency, { wholeUnits: true })} alert`;
+      }
+      if (reason === 'price_drop' && alert.previousPrice) {
+        const drop = Math.round(((alert.previousPrice - alert.price) / alert.previousPrice) * 100);
+        return `Down ${drop}% from ${currencyService.formatPrice(alert.previousPrice, alert.currency, displayCurrency, { wholeUnits: true })}`;
+      }
+      return reason === 'below_price' ? 'Below your price alert' : 'Price drop';
+    });
+    return reasons.join(' · ');
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Price Alerts</Text>
+        <TouchableOpacity
+          style={styles.checkButton}
+          onPress={handleCheckNow}
+          disabled={isChecking || trackedFares.length === 0}
+        >
+          {isChecking ? (
+            <ActivityIndicator size="small" color="#007AFF" />
+          ) : (
+            <Text style={[styles.checkButtonText, trackedFares.length === 0 && styles.checkButtonTextDisabled]}>
+              Check
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {alerts.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Alerts</Text>
+              <TouchableOpacity onPress={() => userId && priceTrackingService.clearAlerts(userId)}>
+                <Text style={styles.actionText}>Clear</Text>
+              </TouchableOpacity>
+            </View>
+            {alerts.map(alert => (
+              <View key={alert.id} style={[styles.alertCard, !alert.isRead && styles.alertCardUnread]}>
+                <View style={styles.fareInfo}>
+                  <Text style={styles.fareLabel}>{alert.label}</Text>
+                  <Text style={styles.fareText}>{describeAlert(alert)}</Text>
+                </View>
+                <Text style={styles.alertPrice}>
+                  {currencyService.formatPrice(alert.price, alert.currency, displayCurrency, { wholeUnits: true })}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>Tracked fares</Text>
+        {trackedFares.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>No tracked fares</Text>
+            <Text style={styles.emptyText}>
+              Tap "Track prices" on your search results to watch a route or a flight. Prices are checked
+              when you open the app.
+            </Text>
+          </View>
+        ) : (
+          trackedFares.map(fare => (
+            <TrackedFareCard key={fare.id} fare={fare} displayCurrency={displayCurrency} onOpen={handleOpenFare} />
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  checkButton: {
+    width: 60,
+    paddingVertical: 8,
+    alignItems: 'flex-end',
+  },
+  checkButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  checkButtonTextDisabled: {
+    color: '#999999',
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  alertCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  alertCardUnread: {
+    backgroundColor: '#E3F2FD',
+  },
+  alertPrice: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2E7D32',
+    marginLeft: 12,
+  },
+  emptyState: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  fareCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 12,
+  },
+  fareHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  fareInfo: {
+    flex: 1,
+  },
+  fareLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  fareText: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+  },
+  farePrice: {
+    alignItems: 'flex-end',
+    marginLeft: 12,
+  },
+  farePriceText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#007AFF',
+  },
+  fareChange: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  fareChangeDown: {
+    color: '#2E7D32',
+  },
+  fareChangeUp: {
+    color: '#F44336',
+  },
+  historyChart: {
+    height: 48,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 4,
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  historyBar: {
+    flex: 1,
+    backgroundColor: '#007AFF',
+    borderRadius: 2,
+  },
+  historyBarMissing: {
+    height: 2,
+    backgroundColor: '#E1E5E9',
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  ruleInput: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: '#ffffff',
+  },
+  fareActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  fareActionsRight: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  actionText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  stopText: {
+    fontSize: 14,
+    color: '#F44336',
+    fontWeight: '600',
+  },
+});
+
+export default PriceAlertsScreen;
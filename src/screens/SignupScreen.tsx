@@ -12,6 +12,7 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../context/AuthContext';
+import { getFieldError, isAppError } from '../api/errors';
 
 type RootStackParamList = {
   Landing: undefined;
@@ -59,15 +60,14 @@ const SignupScreen: React.FC<Props> = ({ navigation }) => {
     }
 
     try {
+      // AppNavigator swaps to the app stack once the user is set
       await register(fullName, email, password);
-      Alert.alert('Success', 'Account created successfully!', [
-        {
-          text: 'OK',
-          onPress: () => navigation.navigate('Home'),
-        },
-      ]);
-    } catch (error: any) {
-      Alert.alert('Registration Failed', error.message || 'An error occurred during registration');
+      Alert.alert('Success', 'Account created successfully!');
+    } catch (registerError) {
+      // Field-level problems are rendered under the inputs
+      if (!isAppError(registerError) || registerError.kind !== 'validation' || registerError.fieldErrors.length === 0) {
+        Alert.alert('Registration Failed', isAppError(registerError) ? registerError.message : 'An error occurred during registration');
+      }
     }
   };
 
@@ -86,10 +86,16 @@ const SignupScreen: React.FC<Props> = ({ navigation }) => {
             <TextInput
               style={styles.input}
               value={fullName}
-              onChangeText={setFullName}
+              onChangeText={(text) => {
+                setFullName(text);
+                clearError();
+              }}
               placeholder="Enter your full name"
               autoCapitalize="words"
             />
+            {getFieldError(error, 'name') && (
+              <Text style={styles.fieldErrorText}>{getFieldError(error, 'name')}</Text>
+            )}
           </View>
 
           <View style={styles.inputContainer}>
@@ -97,12 +103,18 @@ const SignupScreen: React.FC<Props> = ({ navigation }) => {
             <TextInput
               style={styles.input}
               value={email}
-              onChangeText={setEmail}
+              onChangeText={(text) => {
+                setEmail(text);
+                clearError();
+              }}
               placeholder="Enter your email"
               keyboardType="email-address"
               autoCapitalize="none"
               autoCorrect={false}
             />
+            {getFieldError(error, 'email') && (
+              <Text style={styles.fieldErrorText}>{getFieldError(error, 'email')}</Text>
+            )}
           </View>
 
           <View style={styles.inputContainer}>
@@ -110,10 +122,16 @@ const SignupScreen: React.FC<Props> = ({ navigation }) => {
             <TextInput
               style={styles.input}
               value={password}
-              onChangeText={setPassword}
+              onChangeText={(text) => {
+                setPassword(text);
+                clearError();
+              }}
               placeholder="Create a password"
               secureTextEntry
             />
+            {getFieldError(error, 'password') && (
+              <Text style={styles.fieldErrorText}>{getFieldError(error, 'password')}</Text>
+            )}
           </View>
 
           <View style={styles.inputContainer}>
@@ -225,6 +243,11 @@ const styles = StyleSheet.create({
   disabledButton: {
     opacity: 0.6,
   },
+  fieldErrorText: {
+    fontSize: 13,
+    color: '#F44336',
+    marginTop: 6,
+  },
 });
 
 export default SignupScreen;
@@ -0,0 +1,36 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  ActivityIndicator,
+} from 'react-native';
+
+// Shown while the stored session is restored on a cold start
+const SplashScreen: React.FC = () => {
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+      <Text style={styles.title}>GFlights</Text>
+      <ActivityIndicator size="large" color="#007AFF" />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 48,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 24,
+  },
+});
+
+export default SplashScreen;
@@ -0,0 +1,493 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { AppError, getFieldError, normalizeApiError } from '../api/errors';
+import { useAuth } from '../context/AuthContext';
+import travelerProfileService from '../services/travelerProfileService';
+import {
+  FrequentFlyerNumber,
+  MealPreference,
+  SeatPreference,
+  TravelerProfile,
+  TravelerProfileDraft,
+} from '../types/traveler';
+
+const GENDER_OPTIONS: { value: NonNullable<TravelerProfile['gender']>; label: string }[] = [
+  { value: 'FEMALE', label: 'Female' },
+  { value: 'MALE', label: 'Male' },
+];
+
+const MEAL_OPTIONS: { value: MealPreference | null; label: string }[] = [
+  { value: null, label: 'Standard' },
+  { value: 'VEGETARIAN', label: 'Vegetarian' },
+  { value: 'VEGAN', label: 'Vegan' },
+  { value: 'HALAL', label: 'Halal' },
+  { value: 'KOSHER', label: 'Kosher' },
+  { value: 'GLUTEN_FREE', label: 'Gluten-free' },
+  { value: 'DIABETIC', label: 'Diabetic' },
+];
+
+const SEAT_OPTIONS: { value: SeatPreference | null; label: string }[] = [
+  { value: null, label: 'No preference' },
+  { value: 'WINDOW', label: 'Window' },
+  { value: 'AISLE', label: 'Aisle' },
+];
+
+const EMPTY_DRAFT: TravelerProfileDraft = {
+  firstName: '',
+  lastName: '',
+  dateOfBirth: '',
+  gender: null,
+  passportNumber: '',
+  passportExpiry: '',
+  nationality: '',
+  knownTravelerNumber: '',
+  frequentFlyerNumbers: [],
+  mealPreference: null,
+  seatPreference: null,
+};
+
+type RootStackParamList = {
+  TravelerProfiles: undefined;
+  TravelerProfileEdit: { profileId?: string } | undefined;
+};
+
+type TravelerProfileEditScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'TravelerProfileEdit'
+>;
+
+type TravelerProfileEditScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'TravelerProfileEdit'
+>;
+
+interface Props {
+  navigation: TravelerProfileEditScreenNavigationProp;
+  route: TravelerProfileEditScreenRouteProp;
+}
+
+const TravelerProfileEditScreen: React.FC<Props> = ({ navigation, route }) => {
+  const profileId = route.params?.profileId;
+  const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<TravelerProfileDraft | null>(profileId ? null : EMPTY_DRAFT);
+  const [formError, setFormError] = useState<AppError | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!profileId || !user) {
+      return;
+    }
+    travelerProfileService.getProfiles(user._id).then(profiles => {
+      // Deleted on another device since the list was shown
+      setDraft(profiles.find(profile => profile.id === profileId) || EMPTY_DRAFT);
+    });
+  }, [profileId, user]);
+
+  const updateDraft = (changes: Partial<TravelerProfileDraft>) => {
+    setDraft(current => (current ? { ...current, ...changes } : current));
+    setFormError(null);
+  };
+
+  const updateFrequentFlyer = (index: number, changes: Partial<FrequentFlyerNumber>) => {
+    if (!draft) {
+      return;
+    }
+    updateDraft({
+      frequentFlyerNumbers: draft.frequentFlyerNumbers.map((membership, membershipIndex) => (
+        membershipIndex === index ? { ...membership, ...changes } : membership
+      )),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !user) {
+      return;
+    }
+    try {
+      setIsSaving(true);
+      await travelerProfileService.saveProfile(user._id, draft);
+      navigation.goBack();
+    } catch (error) {
+      const appError = normalizeApiError(error);
+      if (appError.kind === 'validation') {
+        setFormError(appError);
+      } else {
+        Alert.alert('Could Not Save', appError.message);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!profileId || !user || !draft) {
+      return;
+    }
+    Alert.alert(
+      'Delete Traveler',
+      `Remove ${draft.firstName} ${draft.lastName} from your saved travelers?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await travelerProfileService.deleteProfile(user._id, profileId);
+            navigation.goBack();
+          },
+        },
+      ],
+    );
+  };
+
+  const renderField = (
+    label: string,
+    path: string,
+    value: string,
+    onChangeText: (text: string) => void,
+    inputProps: React.ComponentProps<typeof TextInput> = {},
+  ) => (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={[styles.input, !!getFieldError(formError, path) && styles.inputInvalid]}
+        value={value}
+        onChangeText={onChangeText}
+        autoCorrect={false}
+        {...inputProps}
+      />
+      {getFieldError(formError, path) && (
+        <Text style={styles.fieldErrorText}>{getFieldError(formError, path)}</Text>
+      )}
+    </View>
+  );
+
+  const renderChips = <T,>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void,
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => {
+        const isActive = selected === option.value;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.chip, isActive && styles.chipActive]}
+            onPress={() => onSelect(option.value)}
+          >
+            <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderForm = (form: TravelerProfileDraft) => (
+    <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Name and birth date</Text>
+        {renderField('First name', 'firstName', form.firstName,
+          firstName => updateDraft({ firstName }), { autoCapitalize: 'words', placeholder: 'As on passport' })}
+        {renderField('Last name', 'lastName', form.lastName,
+          lastName => updateDraft({ lastName }), { autoCapitalize: 'words', placeholder: 'As on passport' })}
+        {renderField('Date of birth', 'dateOfBirth', form.dateOfBirth,
+          dateOfBirth => updateDraft({ dateOfBirth: dateOfBirth.trim() }),
+          { placeholder: 'YYYY-MM-DD', keyboardType: 'numbers-and-punctuation', maxLength: 10 })}
+        <Text style={styles.label}>Gender</Text>
+        {renderChips(GENDER_OPTIONS, form.gender, gender => updateDraft({ gender }))}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Travel documents</Text>
+        {renderField('Passport number', 'passportNumber', form.passportNumber,
+          passportNumber => updateDraft({ passportNumber }), { autoCapitalize: 'characters', placeholder: 'Optional' })}
+        <View style={styles.fieldRow}>
+          <View style={styles.fieldColumn}>
+            {renderField('Passport expiry', 'passportExpiry', form.passportExpiry,
+              passportExpiry => updateDraft({ passportExpiry: passportExpiry.trim() }),
+              { placeholder: 'YYYY-MM-DD', keyboardType: 'numbers-and-punctuation', maxLength: 10 })}
+          </View>
+          <View style={styles.fieldColumn}>
+            {renderField('Nationality', 'nationality', form.nationality,
+              nationality => updateDraft({ nationality }),
+              { autoCapitalize: 'characters', placeholder: 'GB', maxLength: 2 })}
+          </View>
+        </View>
+        {renderField('Known traveler number', 'knownTravelerNumber', form.knownTravelerNumber,
+          knownTravelerNumber => updateDraft({ knownTravelerNumber }),
+          { autoCapitalize: 'characters', placeholder: 'TSA PreCheck or Global Entry' })}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Frequent flyer numbers</Text>
+        {form.frequentFlyerNumbers.map((membership, index) => (
+          <View key={index} style={styles.fieldRow}>
+            <View style={styles.airlineColumn}>
+              {renderField('Airline', `frequentFlyerNumbers.${index}.airlineCode`, membership.airlineCode,
+                airlineCode => updateFrequentFlyer(index, { airlineCode }),
+                { autoCapitalize: 'characters', placeholder: 'BA', maxLength: 2 })}
+            </View>
+            <View style={styles.fieldColumn}>
+              {renderField('Number', `frequentFlyerNumbers.${index}.number`, membership.number,
+                number => updateFrequentFlyer(index, { number }), { autoCapitalize: 'characters' })}
+            </View>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => updateDraft({
+                frequentFlyerNumbers: form.frequentFlyerNumbers.filter((_, membershipIndex) => membershipIndex !== index),
+              })}
+            >
+              <Text style={styles.removeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        <TouchableOpacity
+          onPress={() => updateDraft({
+            frequentFlyerNumbers: [...form.frequentFlyerNumbers, { airlineCode: '', number: '' }],
+          })}
+        >
+          <Text style={styles.linkText}>+ Add frequent flyer number</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Preferences</Text>
+        <Text style={styles.label}>Meal</Text>
+        {renderChips(MEAL_OPTIONS, form.mealPreference, mealPreference => updateDraft({ mealPreference }))}
+        <Text style={[styles.label, styles.labelSpacing]}>Seat</Text>
+        {renderChips(SEAT_OPTIONS, form.seatPreference, seatPreference => updateDraft({ seatPreference }))}
+      </View>
+
+      {formError && (
+        <Text style={styles.formErrorText}>{formError.message}</Text>
+      )}
+
+      <TouchableOpacity
+        style={[styles.saveButton, isSaving && styles.disabledButton]}
+        onPress={handleSave}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <ActivityIndicator color="#ffffff" />
+        ) : (
+          <Text style={styles.saveButtonText}>Save Traveler</Text>
+        )}
+      </TouchableOpacity>
+
+      {profileId && (
+        <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+          <Text style={styles.deleteButtonText}>Delete Traveler</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{profileId ? 'Edit Traveler' : 'New Traveler'}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {draft ? renderForm(draft) : (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      )}
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  placeholder: {
+    width: 60,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  labelSpacing: {
+    marginTop: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    backgroundColor: '#ffffff',
+  },
+  inputInvalid: {
+    borderColor: '#F44336',
+  },
+  fieldErrorText: {
+    fontSize: 13,
+    color: '#F44336',
+    marginTop: 6,
+  },
+  formErrorText: {
+    fontSize: 14,
+    color: '#F44336',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  fieldColumn: {
+    flex: 1,
+  },
+  airlineColumn: {
+    width: 80,
+  },
+  removeButton: {
+    paddingTop: 44,
+    paddingHorizontal: 4,
+  },
+  removeButtonText: {
+    fontSize: 16,
+    color: '#999999',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E1E5E9',
+    backgroundColor: '#ffffff',
+  },
+  chipActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  deleteButton: {
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  deleteButtonText: {
+    color: '#F44336',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
+
+export default TravelerProfileEditScreen;
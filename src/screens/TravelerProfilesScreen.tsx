@@ -0,0 +1,249 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useTravelerProfiles } from '../hooks/useTravelerProfiles';
+import { getCarrierName } from '../utils/flightNames';
+
+type RootStackParamList = {
+  Home: undefined;
+  TravelerProfiles: undefined;
+  TravelerProfileEdit: { profileId?: string } | undefined;
+};
+
+type TravelerProfilesScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'TravelerProfiles'
+>;
+
+interface Props {
+  navigation: TravelerProfilesScreenNavigationProp;
+}
+
+// People the user books for, synced with their account
+const TravelerProfilesScreen: React.FC<Props> = ({ navigation }) => {
+  const insets = useSafeAreaInsets();
+  const { profiles, isSyncing, hasUnsyncedChanges, syncError, sync } = useTravelerProfiles();
+
+  // Pick up profiles edited on other devices
+  useEffect(() => {
+    sync();
+  }, [sync]);
+
+  const renderSyncStatus = () => {
+    if (isSyncing) {
+      return (
+        <View style={styles.syncRow}>
+          <ActivityIndicator size="small" color="#007AFF" />
+          <Text style={styles.syncText}>Syncing with your account…</Text>
+        </View>
+      );
+    }
+    if (syncError || hasUnsyncedChanges) {
+      return (
+        <View style={[styles.syncRow, styles.syncWarning]}>
+          <Text style={styles.syncWarningText}>
+            {syncError
+              ? `${syncError.message} Changes are saved on this device.`
+              : 'Some changes are only saved on this device.'}
+          </Text>
+          <TouchableOpacity onPress={sync}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Travelers</Text>
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => navigation.navigate('TravelerProfileEdit')}
+        >
+          <Text style={styles.addButtonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {renderSyncStatus()}
+
+        {profiles.length === 0 && !isSyncing ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>No saved travelers</Text>
+            <Text style={styles.emptyText}>
+              Save the people you book for and fill in their details with one tap when booking.
+            </Text>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() => navigation.navigate('TravelerProfileEdit')}
+            >
+              <Text style={styles.primaryButtonText}>Add Traveler</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          profiles.map(profile => (
+            <TouchableOpacity
+              key={profile.id}
+              style={styles.profileCard}
+              onPress={() => navigation.navigate('TravelerProfileEdit', { profileId: profile.id })}
+            >
+              <Text style={styles.profileName}>
+                {profile.firstName} {profile.lastName}
+              </Text>
+              <Text style={styles.profileText}>
+                Born {profile.dateOfBirth}
+                {profile.nationality ? ` · ${profile.nationality}` : ''}
+                {profile.passportNumber ? ` · Passport expires ${profile.passportExpiry}` : ' · No passport saved'}
+              </Text>
+              {profile.frequentFlyerNumbers.length > 0 && (
+                <Text style={styles.profileText}>
+                  {profile.frequentFlyerNumbers
+                    .map(membership => getCarrierName(membership.airlineCode))
+                    .join(', ')}
+                </Text>
+              )}
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  backButton: {
+    paddingVertical: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  addButton: {
+    width: 60,
+    paddingVertical: 8,
+    alignItems: 'flex-end',
+  },
+  addButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  syncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  syncText: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  syncWarning: {
+    backgroundColor: '#FFF3E0',
+    borderRadius: 12,
+    padding: 12,
+  },
+  syncWarningText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  retryText: {
+    fontSize: 14,
+    color: '#FF9500',
+    fontWeight: '600',
+  },
+  emptyState: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666666',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  profileCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 12,
+  },
+  profileName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  profileText: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+  },
+});
+
+export default TravelerProfilesScreen;
@@ -1,28 +1,64 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import api from '../api';
-import { AuthResponse, LoginRequest, RegisterRequest, AuthError } from '../types/auth';
+import api, { setSessionHandler } from '../api';
+import configService from './configService';
+import preferencesService from './preferencesService';
+import travelerProfileService from './travelerProfileService';
+import { AuthResponse, LoginRequest, RefreshTokenResponse, RegisterRequest } from '../types/auth';
+import { AuthExpiredError, normalizeApiError } from '../api/errors';
+import { isTokenExpiring } from '../utils/jwt';
+import { getSecureItem, removeSecureItem, setSecureItem } from '../utils/secureStorage';
 
+// Tokens live in secure storage and the user in AsyncStorage. Older versions
+// kept the tokens in AsyncStorage too, under the same keys.
 const TOKEN_KEY = '@gflights_token';
+const REFRESH_TOKEN_KEY = '@gflights_refresh_token';
 const USER_KEY = '@gflights_user';
 
+// Refresh this long before the access token actually expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
 class AuthService {
   private token: string | null = null;
+  private refreshToken: string | null = null;
   private user: any = null;
+  private sessionExpiredListeners = new Set<() => void>();
+
+  constructor() {
+    // The api instance asks us for tokens and reports 401s it could not recover from
+    setSessionHandler({
+      getAccessToken: () => this.token,
+      shouldRefreshAccessToken: () => this.shouldRefreshAccessToken(),
+      canRefreshAccessToken: () => !!this.refreshToken,
+      refreshAccessToken: () => this.refreshAccessToken(),
+      onUnauthorized: () => {
+        this.expireSession();
+      },
+    });
+  }
 
   // Initialize auth state from storage
   async initializeAuth(): Promise<boolean> {
     try {
-      const [storedToken, storedUser] = await Promise.all([
-        AsyncStorage.getItem(TOKEN_KEY),
+      const [storedToken, storedRefreshToken, storedUser] = await Promise.all([
+        this.getStoredToken(TOKEN_KEY),
+        this.getStoredToken(REFRESH_TOKEN_KEY),
         AsyncStorage.getItem(USER_KEY)
       ]);
 
       if (storedToken && storedUser) {
+        // An expired token without a way to refresh it is no session at all
+        if (!storedRefreshToken && isTokenExpiring(storedToken)) {
+          await this.removeStoredSession();
+          return false;
+        }
+
         this.token = storedToken;
+        this.refreshToken = storedRefreshToken;
         this.user = JSON.parse(storedUser);
 
         // Set default authorization header for future requests
         api.defaults.headers.common['Authorization'] = `Bearer ${storedToken}`;
+        await this.loadUserData(this.user);
 
         return true;
       }
@@ -36,45 +72,82 @@ class AuthService {
   // Register new user
   async register(userData: RegisterRequest): Promise<AuthResponse> {
     try {
-      console.log('Making request to:', api.defaults.baseURL + '/auth/register');
-      console.log('Request data:', userData);
-      const response = await api.post('/auth/register', userData);
-      console.log('Success response:', response.status, response.data);
-      const { user, access_token } = response.data;
+      const response = await api.post('/auth/register', userData, {
+        timeout: configService.getConfig().timeouts.auth,
+      });
+      const { user, access_token, refresh_token } = response.data;
 
-      await this.setAuthData(user, access_token);
+      await this.setAuthData(user, access_token, refresh_token);
 
-      return { user, access_token };
+      return { user, access_token, refresh_token };
     } catch (error: any) {
       console.log('Register error:', error);
-      console.log('Error response:', error.response?.data);
-      console.log('Error status:', error.response?.status);
-      console.log('Request data sent:', userData);
-      console.log('Full error response:', JSON.stringify(error.response?.data, null, 2));
-      throw this.handleAuthError(error);
+      throw normalizeApiError(error);
     }
   }
 
   // Login user
   async login(credentials: LoginRequest): Promise<AuthResponse> {
     try {
-      const response = await api.post('/auth/login', credentials);
-      const { user, access_token } = response.data;
+      const response = await api.post('/auth/login', credentials, {
+        timeout: configService.getConfig().timeouts.auth,
+      });
+      const { user, access_token, refresh_token } = response.data;
 
-      await this.setAuthData(user, access_token);
+      await this.setAuthData(user, access_token, refresh_token);
 
-      return { user, access_token };
+      return { user, access_token, refresh_token };
     } catch (error: any) {
       console.log('Login error:', error);
-      throw this.handleAuthError(error);
+      throw normalizeApiError(error);
+    }
+  }
+
+  // Exchange the refresh token for a new access token
+  async refreshAccessToken(): Promise<string> {
+    const refreshToken = this.refreshToken;
+    if (!refreshToken) {
+      await this.expireSession();
+      throw new AuthExpiredError('Your session has expired. Please sign in again.', 401);
+    }
+
+    try {
+      const response = await api.post<RefreshTokenResponse>('/auth/refresh', {
+        refresh_token: refreshToken,
+      }, {
+        timeout: configService.getConfig().timeouts.auth,
+      });
+      const { access_token, refresh_token } = response.data;
+
+      // The user may have logged out while the refresh was in flight
+      if (this.refreshToken !== refreshToken) {
+        throw new AuthExpiredError('Your session has expired. Please sign in again.', 401);
+      }
+
+      await this.setTokens(access_token, refresh_token || refreshToken);
+      return access_token;
+    } catch (error) {
+      const appError = normalizeApiError(error);
+      // Only a rejected refresh token ends the session; network trouble keeps it
+      if (appError.kind === 'validation' || appError.kind === 'auth_expired') {
+        await this.expireSession();
+        throw new AuthExpiredError('Your session has expired. Please sign in again.', appError.statusCode, error);
+      }
+      throw appError;
     }
   }
 
   // Logout user
   async logout(): Promise<void> {
+    const user = this.user;
+    // While the token still works, so unsynced profile changes can upload
+    if (user?._id) {
+      await travelerProfileService.clearProfiles(user._id);
+    }
     try {
-      await AsyncStorage.multiRemove([TOKEN_KEY, USER_KEY]);
+      await this.removeStoredSession();
       this.token = null;
+      this.refreshToken = null;
       this.user = null;
 
       // Remove authorization header
@@ -82,6 +155,38 @@ class AuthService {
     } catch (error) {
       console.error('Error during logout:', error);
     }
+    this.unloadUserData(user);
+  }
+
+  // Clear a session the backend no longer accepts and tell listeners
+  async expireSession(): Promise<void> {
+    // Concurrent 401s only expire the session once
+    if (!this.token) {
+      return;
+    }
+
+    const user = this.user;
+    this.token = null;
+    this.refreshToken = null;
+    this.user = null;
+    delete api.defaults.headers.common['Authorization'];
+    this.sessionExpiredListeners.forEach(listener => listener());
+
+    try {
+      await this.removeStoredSession();
+    } catch (error) {
+      console.error('Error clearing expired session:', error);
+    }
+    // The user's data stays on this device for when they sign in again
+    this.unloadUserData(user);
+  }
+
+  // Subscribe to session expiry, returns an unsubscribe function
+  onSessionExpired(listener: () => void): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
   }
 
   // Check if user is authenticated
@@ -99,45 +204,75 @@ class AuthService {
     return this.token;
   }
 
+  // Whether the access token is about to expire and can be refreshed
+  private shouldRefreshAccessToken(): boolean {
+    return !!this.token && !!this.refreshToken && isTokenExpiring(this.token, REFRESH_MARGIN_MS);
+  }
+
+  // A stored token, moved out of AsyncStorage if an older version left it there
+  private async getStoredToken(key: string): Promise<string | null> {
+    const token = await getSecureItem(key);
+    if (token) {
+      return token;
+    }
+    const legacyToken = await AsyncStorage.getItem(key);
+    if (legacyToken) {
+      await setSecureItem(key, legacyToken);
+      await AsyncStorage.removeItem(key);
+    }
+    return legacyToken;
+  }
+
+  // Forget the stored session, including tokens an older version stored
+  private async removeStoredSession(): Promise<void> {
+    await Promise.all([
+      removeSecureItem(TOKEN_KEY),
+      removeSecureItem(REFRESH_TOKEN_KEY),
+      AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY]),
+    ]);
+  }
+
+  // Load what the signed-in user keeps on this device
+  private async loadUserData(user: any): Promise<void> {
+    if (user?._id) {
+      await preferencesService.loadLoyaltyMemberships(user._id);
+    }
+  }
+
+  // Stop showing what the signed-out user keeps on this device
+  private unloadUserData(user: any): void {
+    if (user?._id) {
+      preferencesService.unloadLoyaltyMemberships(user._id);
+    }
+  }
+
   // Set auth data in storage and memory
-  private async setAuthData(user: any, token: string): Promise<void> {
+  private async setAuthData(user: any, token: string, refreshToken?: string): Promise<void> {
     try {
-      await Promise.all([
-        AsyncStorage.setItem(TOKEN_KEY, token),
-        AsyncStorage.setItem(USER_KEY, JSON.stringify(user))
-      ]);
-
-      this.token = token;
+      await AsyncStorage.setItem(USER_KEY, JSON.stringify(user));
       this.user = user;
-
-      // Set authorization header for future requests
-      api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+      await this.setTokens(token, refreshToken || null);
+      await this.loadUserData(user);
     } catch (error) {
       console.error('Error setting auth data:', error);
       throw new Error('Failed to save authentication data');
     }
   }
 
-  // Handle authentication errors
-  private handleAuthError(error: any): AuthError {
-    console.log('Auth error:', error);
-    if (error.response) {
-      const { status, data } = error.response;
-      return {
-        message: data.message || 'Authentication failed',
-        statusCode: status
-      };
-    } else if (error.request) {
-      return {
-        message: 'Network error. Please check your connection.',
-        statusCode: 0
-      };
+  // Persist tokens and use the access token for future requests
+  private async setTokens(token: string, refreshToken: string | null): Promise<void> {
+    await setSecureItem(TOKEN_KEY, token);
+    if (refreshToken) {
+      await setSecureItem(REFRESH_TOKEN_KEY, refreshToken);
     } else {
-      return {
-        message: 'An unexpected error occurred',
-        statusCode: 500
-      };
+      await removeSecureItem(REFRESH_TOKEN_KEY);
     }
+
+    this.token = token;
+    this.refreshToken = refreshToken;
+
+    // Set authorization header for future requests
+    api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
   }
 }
 
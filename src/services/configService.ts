@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_PROFILES, DEFAULT_PROFILE } from '../config';
+import { ApiConfig, ApiProfile, ApiProfileName, StoredApiConfig } from '../types/config';
+
+const API_CONFIG_KEY = '@gflights_api_config';
+
+type ConfigListener = (config: ApiConfig) => void;
+
+class ConfigService {
+  private profile: ApiProfileName = DEFAULT_PROFILE;
+  private baseURLOverride: string | null = null;
+  private listeners = new Set<ConfigListener>();
+
+  // Load the persisted profile selection, falling back to the build default.
+  // Release builds ignore it and always use their default profile.
+  async initializeConfig(): Promise<ApiConfig> {
+    if (!__DEV__) {
+      return this.getConfig();
+    }
+    try {
+      const stored = await AsyncStorage.getItem(API_CONFIG_KEY);
+      if (stored) {
+        const parsed: StoredApiConfig = JSON.parse(stored);
+        if (API_PROFILES[parsed.profile]) {
+          this.profile = parsed.profile;
+          this.baseURLOverride = parsed.baseURLOverride || null;
+          this.notify();
+        }
+      }
+    } catch (error) {
+      console.error('Error loading API config:', error);
+    }
+    return this.getConfig();
+  }
+
+  // Get the active configuration
+  getConfig(): ApiConfig {
+    const profile = API_PROFILES[this.profile];
+    return {
+      ...profile,
+      baseURL: this.baseURLOverride || profile.baseURL,
+      isBaseURLOverridden: !!this.baseURLOverride,
+    };
+  }
+
+  // Get every available profile
+  getProfiles(): ApiProfile[] {
+    return Object.values(API_PROFILES);
+  }
+
+  // Switch profile and persist the choice
+  async setProfile(profile: ApiProfileName, baseURLOverride?: string): Promise<ApiConfig> {
+    if (!__DEV__) {
+      throw new Error('API profiles can only be changed in development builds');
+    }
+    if (!API_PROFILES[profile]) {
+      throw new Error(`Unknown API profile: ${profile}`);
+    }
+
+    const override = baseURLOverride?.trim().replace(/\/+$/, '') || null;
+    if (override && !/^https?:\/\/\S+$/.test(override)) {
+      throw new Error('Base URL must start with http:// or https://');
+    }
+
+    const stored: StoredApiConfig = { profile };
+    if (override) {
+      stored.baseURLOverride = override;
+    }
+    await AsyncStorage.setItem(API_CONFIG_KEY, JSON.stringify(stored));
+
+    this.profile = profile;
+    this.baseURLOverride = override;
+    this.notify();
+    return this.getConfig();
+  }
+
+  // Forget the persisted choice and go back to the build default
+  async resetConfig(): Promise<ApiConfig> {
+    try {
+      await AsyncStorage.removeItem(API_CONFIG_KEY);
+    } catch (error) {
+      console.error('Error resetting API config:', error);
+    }
+    this.profile = DEFAULT_PROFILE;
+    this.baseURLOverride = null;
+    this.notify();
+    return this.getConfig();
+  }
+
+  // Subscribe to configuration changes, returns an unsubscribe function
+  subscribe(listener: ConfigListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const config = this.getConfig();
+    this.listeners.forEach(listener => listener(config));
+  }
+}
+
+// Export singleton instance
+export default new ConfigService();
@@ -0,0 +1,92 @@
+import { EXCHANGE_RATES_AS_OF, STAND_IN_EXCHANGE_RATES } from '../config/exchangeRates';
+import { getDeviceLocale } from '../utils/locale';
+
+// A price ready to show, in the display currency when it could be converted
+export interface DisplayPrice {
+  amount: number;
+  currency: string;
+  // Converted with offline rates rather than priced by the airline
+  isApproximate: boolean;
+}
+
+export interface FormatOptions {
+  // Drop the cents, e.g. for "From €290" or price grids
+  wholeUnits?: boolean;
+}
+
+class CurrencyService {
+  private rates: Record<string, number> = STAND_IN_EXCHANGE_RATES;
+  private ratesAsOf = EXCHANGE_RATES_AS_OF;
+
+  // Currencies prices can be converted into
+  getSupportedCurrencies(): string[] {
+    return Object.keys(this.rates);
+  }
+
+  getRatesAsOf(): string {
+    return this.ratesAsOf;
+  }
+
+  // Replace the offline table, e.g. with rates fetched from the backend
+  setExchangeRates(rates: Record<string, number>, asOf: string): void {
+    this.rates = { ...rates };
+    this.ratesAsOf = asOf;
+  }
+
+  // Convert between two currencies, or null when either rate is unknown
+  convert(amount: number, from: string, to: string): number | null {
+    if (from === to) {
+      return amount;
+    }
+    const fromRate = this.rates[from];
+    const toRate = this.rates[to];
+    if (!fromRate || !toRate) {
+      return null;
+    }
+    return (amount / fromRate) * toRate;
+  }
+
+  // The amount to show: converted to the display currency when one is set
+  // and a rate is known, otherwise exactly as priced
+  getDisplayPrice(amount: number | string, currency: string, displayCurrency?: string | null): DisplayPrice {
+    const value = typeof amount === 'string' ? parseFloat(amount) : amount;
+    if (displayCurrency && displayCurrency !== currency) {
+      const converted = this.convert(value, currency, displayCurrency);
+      if (converted !== null) {
+        return { amount: converted, currency: displayCurrency, isApproximate: true };
+      }
+    }
+    return { amount: value, currency, isApproximate: false };
+  }
+
+  // Format an amount in its own currency with the device's conventions,
+  // e.g. "$1,234.50", "1.234,50 €" or "¥1,235"
+  formatAmount(amount: number | string, currency: string, options: FormatOptions = {}): string {
+    const value = typeof amount === 'string' ? parseFloat(amount) : amount;
+    try {
+      return new Intl.NumberFormat(getDeviceLocale() || 'en-US', {
+        style: 'currency',
+        currency,
+        ...(options.wholeUnits ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {}),
+      }).format(value);
+    } catch {
+      // Unknown currency codes make Intl throw
+      return `${value.toFixed(options.wholeUnits ? 0 : 2)} ${currency}`;
+    }
+  }
+
+  // Display price as text, marked "approx." when converted
+  formatPrice(
+    amount: number | string,
+    currency: string,
+    displayCurrency?: string | null,
+    options: FormatOptions = {},
+  ): string {
+    const price = this.getDisplayPrice(amount, currency, displayCurrency);
+    const text = this.formatAmount(price.amount, price.currency, options);
+    return price.isApproximate ? `approx. ${text}` : text;
+  }
+}
+
+// Export singleton instance
+export default new CurrencyService();
@@ -1,18 +1,88 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import api from '../api';
+import { InFlightRequests, isCancelledRequest } from '../api/inflight';
 import {
+  AppError,
+  FieldError,
+  NetworkError,
+  RateLimitedError,
+  TimeoutError,
+  UnknownError,
+  ValidationError,
+  normalizeApiError,
+} from '../api/errors';
+import configService from './configService';
+import preferencesService from './preferencesService';
+import { RequestOptions } from '../types/api';
+import { toDateString } from '../utils/dates';
+import { getOfferTotal } from '../utils/fares';
+import { getFlexibleDates, getLowestPrice } from '../utils/priceMatrix';
+import { rememberAirportTimeZones } from '../utils/time';
+import { validateContact, validateTravelers } from '../utils/travelers';
+import {
+  Booking,
+  BookingRequest,
+  FlightOffer,
+  FlightSearchLeg,
   FlightSearchRequest,
   FlightSearchResponse,
-  FlightSearchError,
   AirportSearchResponse,
+  Airport,
+  PriceCalendar,
+  PriceCalendarDay,
+  PriceMatrix,
+  PriceMatrixCell,
+  OfferPriceCheck,
   RecentSearch,
   PopularRoute,
 } from '../types/flight';
 
+export const MULTI_CITY_MIN_LEGS = 2;
+export const MULTI_CITY_MAX_LEGS = 6;
+
+// Flexible-date searches fan out, but only this many run at once
+const FLEXIBLE_SEARCH_CONCURRENCY = 3;
+
 const RECENT_SEARCHES_KEY = '@gflights_recent_searches';
 const POPULAR_ROUTES_KEY = '@gflights_popular_routes';
 
+// Backend DTO fields that differ from FlightSearchRequest
+const BACKEND_FIELD_PATHS: Record<string, string> = {
+  originSkyId: 'originLocationCode',
+  destinationSkyId: 'destinationLocationCode',
+  cabinClass: 'travelClass',
+  currency: 'currencyCode',
+};
+
+export interface FlightSearchOptions extends RequestOptions {
+  recordRecentSearch?: boolean; // Defaults to true
+  retries?: number; // Defaults to 2
+}
+
+export interface FlexibleSearchOptions extends RequestOptions {
+  onCell?: (cell: PriceMatrixCell) => void; // Called as each combination finishes
+}
+
+// Run fn over items with at most `limit` calls in flight, keeping the order
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
 class FlightService {
+  private inFlight = new InFlightRequests();
 
   // Mock popular routes (keeping this for now as it's not in the backend API)
   private mockPopularRoutes: PopularRoute[] = [
@@ -22,6 +92,7 @@ class FlightService {
       originName: 'New York (JFK)',
       destinationName: 'Los Angeles (LAX)',
       averagePrice: '320',
+      currency: 'USD',
       popularity: 95,
     },
     {
@@ -30,6 +101,7 @@ class FlightService {
       originName: 'Los Angeles (LAX)',
       destinationName: 'San Francisco (SFO)',
       averagePrice: '180',
+      currency: 'USD',
       popularity: 88,
     },
     {
@@ -38,6 +110,7 @@ class FlightService {
       originName: 'Chicago (ORD)',
       destinationName: 'Los Angeles (LAX)',
       averagePrice: '290',
+      currency: 'USD',
       popularity: 82,
     },
     {
@@ -46,6 +119,7 @@ class FlightService {
       originName: 'New York (JFK)',
       destinationName: 'London (LHR)',
       averagePrice: '650',
+      currency: 'USD',
       popularity: 78,
     },
     {
@@ -54,12 +128,16 @@ class FlightService {
       originName: 'Los Angeles (LAX)',
       destinationName: 'Tokyo (NRT)',
       averagePrice: '890',
+      currency: 'USD',
       popularity: 75,
     },
   ];
 
   // Search flights
-  async searchFlights(searchRequest: FlightSearchRequest): Promise<FlightSearchResponse> {
+  async searchFlights(
+    searchRequest: FlightSearchRequest,
+    options: FlightSearchOptions = {},
+  ): Promise<FlightSearchResponse> {
     try {
       // Convert cabin class to backend format (lowercase with underscores)
       const convertCabinClass = (travelClass?: string): string => {
@@ -77,40 +155,40 @@ class FlightService {
         }
       };
 
-      // Validate departure date format
-      const departureDate = new Date(searchRequest.departureDate);
-      if (isNaN(departureDate.getTime())) {
-        throw new Error('Invalid departure date format');
-      }
+      // Codes from links or recent searches may come without entity IDs
+      searchRequest = await this.resolveSearchLocations(searchRequest, options);
 
       // Validate required fields - Updated to match backend expectations
-      if (!searchRequest.originLocationCode || !searchRequest.destinationLocationCode) {
-        throw new Error('Origin and destination airport codes are required');
-      }
-      
-      if (!searchRequest.originEntityId || !searchRequest.destinationEntityId) {
-        throw new Error('Origin and destination entity IDs are required. Please select airports from the search results.');
+      const fieldErrors = searchRequest.legs
+        ? this.validateLegs(searchRequest.legs)
+        : this.validateLeg(searchRequest, '');
+      if (fieldErrors.length > 0) {
+        throw new ValidationError(fieldErrors[0].message, fieldErrors);
       }
 
+      const { defaults, timeouts } = configService.getConfig();
+      const searchDefaults = preferencesService.getSearchDefaults();
+
       // Convert our frontend search request to backend format - Updated to match backend DTO
       const backendRequest: any = {
-        originSkyId: searchRequest.originLocationCode,
-        destinationSkyId: searchRequest.destinationLocationCode,
-        originEntityId: searchRequest.originEntityId,
-        destinationEntityId: searchRequest.destinationEntityId,
-        departureDate: searchRequest.departureDate,
         cabinClass: convertCabinClass(searchRequest.travelClass),
         adults: searchRequest.adults?.toString() || '1',
         children: searchRequest.children?.toString() || '0',
         infants: searchRequest.infants?.toString() || '0',
-        sortBy: 'best',
-        currency: searchRequest.currencyCode || 'USD',
-        market: 'en-US',
-        countryCode: 'US'
+        sortBy: searchRequest.sortBy || searchDefaults.sortBy,
+        currency: searchRequest.currencyCode || defaults.currency,
+        market: searchRequest.market || searchDefaults.market,
+        countryCode: searchRequest.countryCode || searchDefaults.countryCode
       };
 
+      if (searchRequest.legs) {
+        backendRequest.legs = searchRequest.legs.map(leg => this.toBackendLeg(leg));
+      } else {
+        Object.assign(backendRequest, this.toBackendLeg(searchRequest));
+      }
+
       // Only include returnDate if it's provided and not empty
-      if (searchRequest.returnDate && searchRequest.returnDate.trim() !== '') {
+      if (!searchRequest.legs && searchRequest.returnDate && searchRequest.returnDate.trim() !== '') {
         // Ensure the date is in proper ISO 8601 format (YYYY-MM-DD)
         const returnDate = new Date(searchRequest.returnDate);
         if (!isNaN(returnDate.getTime())) {
@@ -120,71 +198,286 @@ class FlightService {
         }
       }
 
-      // Debug logging
-      console.log('Sending flight search request to backend:', JSON.stringify(backendRequest, null, 2));
+      // Debug logging, kept out of release builds
+      if (__DEV__) {
+        console.log('Sending flight search request to backend:', JSON.stringify(backendRequest, null, 2));
+      }
 
-      // Updated to use POST request to /flights/search endpoint
-      const response = await api.post('/flights/search', backendRequest);
-      
-      // Save recent search
-      await this.saveRecentSearch(searchRequest);
-      
-      // Transform backend response to match our frontend interface
-      // Backend now returns { success: true, data: ... } structure
-      const responseData = response.data.data || [];
-      
-      return {
-        data: responseData,
-        meta: {
-          count: responseData.length || 0,
-          links: {
-            self: '/flights/search',
+      // Identical searches (e.g. a double tap on Search) share one request
+      const endpoint = searchRequest.legs ? '/flights/search-multi-city' : '/flights/search';
+      const requestKey = `flights-search:${endpoint}:${JSON.stringify(backendRequest)}`;
+      return await this.inFlight.run(requestKey, async (requestSignal) => {
+        // Updated to use POST request to /flights/search endpoint
+        // Search is a read-only POST, so it is safe to opt into retries
+        const response = await api.post(endpoint, backendRequest, {
+          timeout: timeouts.search,
+          retry: { retries: options.retries ?? 2, onRetry: options.onRetry },
+          signal: requestSignal,
+        });
+
+        // Save recent search
+        if (options.recordRecentSearch !== false) {
+          await this.saveRecentSearch(searchRequest);
+        }
+
+        // Transform backend response to match our frontend interface
+        // Backend now returns { success: true, data: ... } structure
+        const responseData = response.data.data || [];
+
+        return {
+          data: responseData,
+          meta: {
+            count: responseData.length || 0,
+            links: {
+              self: endpoint,
+            },
           },
-        },
-        dictionaries: response.data.dictionaries || {},
-      };
+          dictionaries: response.data.dictionaries || {},
+        };
+      }, options.signal);
     } catch (error: any) {
+      if (isCancelledRequest(error)) {
+        throw error;
+      }
       console.error('Flight search error:', error);
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required. Please login again.');
+      throw this.toSearchRequestError(normalizeApiError(error));
+    }
+  }
+
+  // Search every departure/return combination within flexDays of the requested
+  // dates and keep the cheapest fare of each
+  async searchFlexibleDates(
+    searchRequest: FlightSearchRequest,
+    flexDays: number,
+    options: FlexibleSearchOptions = {},
+  ): Promise<PriceMatrix> {
+    const today = toDateString(new Date());
+    const departureDates = getFlexibleDates(searchRequest.departureDate, flexDays).filter(date => date >= today);
+    const returnDates = searchRequest.returnDate ? getFlexibleDates(searchRequest.returnDate, flexDays) : [];
+
+    // Look the airports up once instead of once per combination
+    const resolvedRequest = await this.resolveSearchLocations(searchRequest, options);
+    const combinations = departureDates.flatMap<{ departureDate: string; returnDate?: string }>(departureDate => (
+      returnDates.length > 0
+        ? returnDates
+          .filter(returnDate => returnDate >= departureDate)
+          .map(returnDate => ({ departureDate, returnDate }))
+        : [{ departureDate }]
+    ));
+
+    // Once the backend says to slow down, the remaining cells are not searched
+    let isRateLimited = false;
+    const cells = await mapWithConcurrency(combinations, FLEXIBLE_SEARCH_CONCURRENCY, async (dates) => {
+      let cell: PriceMatrixCell = { ...dates, status: 'failed' };
+      if (!isRateLimited) {
+        try {
+          cell = await this.searchPriceCell({ ...resolvedRequest, returnDate: undefined, ...dates }, options);
+        } catch (error) {
+          if (isCancelledRequest(error)) {
+            throw error;
+          }
+          isRateLimited = true;
+        }
       }
-      
-      // Handle backend error response format
-      const errorMessage = error.response?.data?.message || error.message;
-      throw new Error(`Flight search failed: ${errorMessage}`);
+      options.onCell?.(cell);
+      return cell;
+    });
+
+    return { departureDates, returnDates, cells };
+  }
+
+  // One combination of a flexible-date search; failures only affect that
+  // cell, except rate limiting, which the caller stops on
+  private async searchPriceCell(searchRequest: FlightSearchRequest, options: RequestOptions): Promise<PriceMatrixCell> {
+    const dates = { departureDate: searchRequest.departureDate, returnDate: searchRequest.returnDate };
+    try {
+      // A grid runs dozens of searches; retrying each one would multiply them
+      const response = await this.searchFlights(searchRequest, {
+        signal: options.signal,
+        recordRecentSearch: false,
+        retries: 0,
+      });
+      const lowest = getLowestPrice(response.data);
+      return lowest
+        ? { ...dates, status: 'loaded', price: lowest.price, currency: lowest.currency }
+        : { ...dates, status: 'no_flights' };
+    } catch (error) {
+      if (isCancelledRequest(error) || error instanceof RateLimitedError) {
+        throw error;
+      }
+      return { ...dates, status: 'failed' };
+    }
+  }
+
+  // Airports and date of a single trip or one multi-city leg; prefix is "" or "legs.N."
+  private validateLeg(leg: FlightSearchLeg, prefix: string): FieldError[] {
+    const fieldErrors: FieldError[] = [];
+    if (isNaN(new Date(leg.departureDate).getTime())) {
+      fieldErrors.push({ path: `${prefix}departureDate`, message: 'Invalid departure date format' });
+    }
+    if (!leg.originLocationCode) {
+      fieldErrors.push({ path: `${prefix}originLocationCode`, message: 'Origin airport is required' });
+    } else if (!leg.originEntityId) {
+      fieldErrors.push({ path: `${prefix}originLocationCode`, message: `No airport found for ${leg.originLocationCode}, please select one from the search results` });
+    }
+    if (!leg.destinationLocationCode) {
+      fieldErrors.push({ path: `${prefix}destinationLocationCode`, message: 'Destination airport is required' });
+    } else if (!leg.destinationEntityId) {
+      fieldErrors.push({ path: `${prefix}destinationLocationCode`, message: `No airport found for ${leg.destinationLocationCode}, please select one from the search results` });
+    } else if (leg.destinationLocationCode === leg.originLocationCode) {
+      fieldErrors.push({ path: `${prefix}destinationLocationCode`, message: 'Origin and destination cannot be the same' });
+    }
+    return fieldErrors;
+  }
+
+  // Every leg must be complete and depart no earlier than the one before it
+  private validateLegs(legs: FlightSearchLeg[]): FieldError[] {
+    if (legs.length < MULTI_CITY_MIN_LEGS || legs.length > MULTI_CITY_MAX_LEGS) {
+      return [{
+        path: 'legs',
+        message: `Multi-city trips need between ${MULTI_CITY_MIN_LEGS} and ${MULTI_CITY_MAX_LEGS} flights`,
+      }];
+    }
+
+    return legs.flatMap((leg, index) => {
+      const fieldErrors = this.validateLeg(leg, `legs.${index}.`);
+      const previousLeg = legs[index - 1];
+      // YYYY-MM-DD strings compare in date order
+      if (previousLeg && leg.departureDate < previousLeg.departureDate) {
+        fieldErrors.push({
+          path: `legs.${index}.departureDate`,
+          message: `Flight ${index + 1} cannot depart before flight ${index}`,
+        });
+      }
+      return fieldErrors;
+    });
+  }
+
+  private toBackendLeg(leg: FlightSearchLeg) {
+    return {
+      originSkyId: leg.originLocationCode,
+      destinationSkyId: leg.destinationLocationCode,
+      originEntityId: leg.originEntityId,
+      destinationEntityId: leg.destinationEntityId,
+      departureDate: leg.departureDate,
+    };
+  }
+
+  // Report backend field paths in terms of FlightSearchRequest fields,
+  // including nested ones such as "legs.1.originSkyId"
+  private toSearchRequestError(error: AppError): AppError {
+    if (!(error instanceof ValidationError)) {
+      return error;
+    }
+    const fieldErrors = error.fieldErrors.map(fieldError => ({
+      ...fieldError,
+      path: fieldError.path
+        .split('.')
+        .map(part => BACKEND_FIELD_PATHS[part] || part)
+        .join('.'),
+    }));
+    return new ValidationError(error.message, fieldErrors, error.statusCode, error.originalError);
+  }
+
+  // Look up entity IDs for airport codes that arrived without them
+  async resolveSearchLocations(
+    searchRequest: FlightSearchRequest,
+    options: RequestOptions = {},
+  ): Promise<FlightSearchRequest> {
+    const places: FlightSearchLeg[] = [searchRequest, ...(searchRequest.legs || [])];
+    const codes = new Set<string>();
+    places.forEach(place => {
+      if (place.originLocationCode && !place.originEntityId) {
+        codes.add(place.originLocationCode);
+      }
+      if (place.destinationLocationCode && !place.destinationEntityId) {
+        codes.add(place.destinationLocationCode);
+      }
+    });
+    if (codes.size === 0) {
+      return searchRequest;
+    }
+
+    // Each code is looked up once, even when several legs share it
+    const airports = new Map<string, Airport>();
+    await Promise.all(Array.from(codes).map(async code => {
+      const airport = await this.findAirportByCode(code, options);
+      if (airport) {
+        airports.set(code, airport);
+      }
+    }));
+
+    const resolveLeg = <T extends FlightSearchLeg>(leg: T): T => {
+      const resolved = { ...leg };
+      const origin = leg.originEntityId ? undefined : airports.get(leg.originLocationCode);
+      const destination = leg.destinationEntityId ? undefined : airports.get(leg.destinationLocationCode);
+      if (origin) {
+        resolved.originLocationCode = origin.skyId || origin.iataCode;
+        resolved.originEntityId = origin.entityId || origin.id;
+      }
+      if (destination) {
+        resolved.destinationLocationCode = destination.skyId || destination.iataCode;
+        resolved.destinationEntityId = destination.entityId || destination.id;
+      }
+      return resolved;
+    };
+
+    const resolvedRequest = resolveLeg(searchRequest);
+    if (searchRequest.legs) {
+      resolvedRequest.legs = searchRequest.legs.map(resolveLeg);
     }
+    return resolvedRequest;
+  }
+
+  // Only an exact IATA or Sky ID match counts; the first fuzzy hit may be another city
+  private async findAirportByCode(code: string, options: RequestOptions): Promise<Airport | undefined> {
+    const normalizedCode = code.trim().toUpperCase();
+    const response = await this.searchAirports(normalizedCode, options);
+    return response.data.find(airport =>
+      airport.iataCode?.toUpperCase() === normalizedCode || airport.skyId?.toUpperCase() === normalizedCode
+    );
   }
 
   // Search airports
-  async searchAirports(query: string): Promise<AirportSearchResponse> {
+  async searchAirports(query: string, options: RequestOptions = {}): Promise<AirportSearchResponse> {
     try {
-      const response = await api.get('/flights/search-airports', {
-        params: {
-          query: query,
-          locale: 'en-US'
-        }
-      });
+      const locale = configService.getConfig().defaults.locale;
+      const requestKey = `search-airports:${locale}:${query.trim().toLowerCase()}`;
 
-      return {
-        data: response.data.data || [],
-        meta: {
-          count: response.data.data?.length || 0,
-          links: {
-            self: '/flights/search-airports',
+      return await this.inFlight.run(requestKey, async (requestSignal) => {
+        const response = await api.get('/flights/search-airports', {
+          params: {
+            query: query,
+            locale: locale
           },
-        },
-      };
+          retry: { onRetry: options.onRetry },
+          signal: requestSignal,
+        });
+
+        // Later flight times at these airports can then be compared across zones
+        rememberAirportTimeZones(response.data.data || []);
+
+        return {
+          data: response.data.data || [],
+          meta: {
+            count: response.data.data?.length || 0,
+            links: {
+              self: '/flights/search-airports',
+            },
+          },
+        };
+      }, options.signal);
     } catch (error: any) {
-      console.error('Airport search error:', error);
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required. Please login again.');
+      if (isCancelledRequest(error)) {
+        throw error;
       }
-      throw new Error(`Airport search failed: ${error.response?.data?.message || error.message}`);
+      console.error('Airport search error:', error);
+      throw normalizeApiError(error);
     }
   }
 
   // Get nearby airports
-  async getNearbyAirports(lat: number, lng: number, locale: string = 'en-US'): Promise<AirportSearchResponse> {
+  async getNearbyAirports(lat: number, lng: number, locale: string = configService.getConfig().defaults.locale): Promise<AirportSearchResponse> {
     try {
       const response = await api.get('/flights/nearby-airports', {
         params: {
@@ -193,6 +486,7 @@ class FlightService {
           locale: locale
         }
       });
+      rememberAirportTimeZones(response.data.data || []);
 
       return {
         data: response.data.data || [],
@@ -204,16 +498,21 @@ class FlightService {
         },
       };
     } catch (error: any) {
-      console.error('Nearby airports search error:', error, error.response);
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required. Please login again.');
-      }
-      throw new Error(`Nearby airports search failed: ${error.response?.data?.message || error.message}`);
+      console.error('Nearby airports search error:', error);
+      throw normalizeApiError(error);
     }
   }
 
-  // Get price calendar
-  async getPriceCalendar(originSkyId: string, destinationSkyId: string, fromDate: string, currency: string = 'USD'): Promise<any> {
+  // Lowest one-way fare per day from fromDate onwards. The backend passes
+  // on the provider's `{ flights: { days: [{ day, price }] } }`, with or
+  // without the `flights` wrapper.
+  async getPriceCalendar(
+    originSkyId: string,
+    destinationSkyId: string,
+    fromDate: string,
+    currency: string = configService.getConfig().defaults.currency,
+    options: RequestOptions = {},
+  ): Promise<PriceCalendar> {
     try {
       const response = await api.get('/flights/price-calendar', {
         params: {
@@ -221,19 +520,145 @@ class FlightService {
           destinationSkyId,
           fromDate,
           currency
-        }
+        },
+        retry: { onRetry: options.onRetry },
+        signal: options.signal,
       });
 
-      return response.data;
+      const payload = response.data?.data ?? response.data;
+      const calendar = payload?.flights ?? payload;
+      const rawDays: any[] = Array.isArray(calendar?.days) ? calendar.days : [];
+      const days: PriceCalendarDay[] = rawDays
+        .map(day => ({
+          date: String(day.day ?? day.date ?? '').slice(0, 10),
+          // Providers send 0 for days without a known fare
+          price: typeof day.price === 'number' && day.price > 0 ? day.price : null,
+        }))
+        .filter(day => /^\d{4}-\d{2}-\d{2}$/.test(day.date))
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+      return {
+        originSkyId,
+        destinationSkyId,
+        fromDate,
+        currency: calendar?.currency || currency,
+        days,
+        fetchedAt: new Date().toISOString(),
+      };
     } catch (error: any) {
+      if (isCancelledRequest(error)) {
+        throw error;
+      }
       console.error('Price calendar error:', error);
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required. Please login again.');
+      throw normalizeApiError(error);
+    }
+  }
+
+  // Price an offer again right before booking; fares can change or sell out
+  // after the search
+  async confirmOfferPrice(offer: FlightOffer, options: RequestOptions = {}): Promise<OfferPriceCheck> {
+    try {
+      // Pricing only reads, so it is safe to retry
+      const response = await api.post('/flights/price', { flightOffer: offer }, {
+        retry: { onRetry: options.onRetry },
+        signal: options.signal,
+      });
+
+      const pricedOffer: FlightOffer | undefined = response.data.data?.flightOffer;
+      if (!pricedOffer) {
+        throw new UnknownError('This flight is no longer available');
+      }
+      const previousTotal = getOfferTotal(offer);
+      const currentTotal = getOfferTotal(pricedOffer);
+      return {
+        offer: pricedOffer,
+        previousTotal,
+        currentTotal,
+        priceChanged: Math.round(previousTotal * 100) !== Math.round(currentTotal * 100)
+          || pricedOffer.price.currency !== offer.price.currency,
+      };
+    } catch (error: any) {
+      if (isCancelledRequest(error)) {
+        throw error;
+      }
+      console.error('Offer pricing error:', error);
+      throw normalizeApiError(error);
+    }
+  }
+
+  // Book a priced offer. Never retried, since repeating the request could
+  // book the same seats twice.
+  async createBooking(request: BookingRequest): Promise<Booking> {
+    const fieldErrors = [
+      ...validateTravelers(request.travelers, request.offer),
+      ...validateContact(request.contact),
+    ];
+    if (fieldErrors.length > 0) {
+      throw new ValidationError(fieldErrors[0].message, fieldErrors);
+    }
+
+    try {
+      const response = await api.post('/flights/bookings', this.toBackendBooking(request), {
+        timeout: configService.getConfig().timeouts.search,
+      });
+
+      const booking = response.data.data;
+      if (!booking?.reference) {
+        throw new UnknownError('The booking could not be confirmed');
       }
-      throw new Error(`Price calendar failed: ${error.response?.data?.message || error.message}`);
+      return {
+        id: booking.id,
+        reference: booking.reference,
+        createdAt: booking.createdAt || new Date().toISOString(),
+        offer: request.offer,
+        travelers: request.travelers,
+        contact: request.contact,
+      };
+    } catch (error: any) {
+      console.error('Booking error:', error);
+      const appError = normalizeApiError(error);
+      // The request may have reached the airline even though no answer came back
+      if (appError instanceof TimeoutError || appError instanceof NetworkError) {
+        const ErrorClass = appError instanceof TimeoutError ? TimeoutError : NetworkError;
+        throw new ErrorClass(
+          'We could not confirm your booking. Check your email for a confirmation before trying again.',
+          appError.statusCode,
+          appError.originalError,
+        );
+      }
+      throw appError;
     }
   }
 
+  private toBackendBooking({ offer, travelers, contact }: BookingRequest) {
+    return {
+      flightOffer: offer,
+      travelers: travelers.map(traveler => ({
+        id: traveler.id,
+        travelerType: traveler.travelerType,
+        dateOfBirth: traveler.dateOfBirth,
+        gender: traveler.gender,
+        name: {
+          firstName: traveler.firstName.trim(),
+          lastName: traveler.lastName.trim(),
+        },
+        ...(traveler.loyaltyPrograms?.length ? {
+          loyaltyPrograms: traveler.loyaltyPrograms.map(membership => ({
+            programOwner: membership.airlineCode,
+            id: membership.number,
+          })),
+        } : {}),
+      })),
+      contact: {
+        emailAddress: contact.email.trim(),
+        phone: {
+          countryCallingCode: contact.phoneCountryCode.trim().replace(/^\+/, ''),
+          number: contact.phoneNumber.replace(/[\s()-]/g, ''),
+        },
+      },
+    };
+  }
+
   // Get popular routes (keeping mock data as this endpoint doesn't exist in backend)
   async getPopularRoutes(): Promise<PopularRoute[]> {
     try {
@@ -260,6 +685,7 @@ class FlightService {
         destination: searchRequest.destinationLocationCode,
         departureDate: searchRequest.departureDate,
         returnDate: searchRequest.returnDate,
+        legs: searchRequest.legs,
         passengers: searchRequest.adults + (searchRequest.children || 0) + (searchRequest.infants || 0),
         searchedAt: new Date().toISOString(),
       };
@@ -0,0 +1,161 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import configService from './configService';
+import currencyService from './currencyService';
+import { SearchDefaults, UserPreferences } from '../types/preferences';
+import { getDeviceLocale, getMarketFromLocale } from '../utils/locale';
+import { TIME_WINDOWS } from '../utils/offerFilters';
+import { DEFAULT_SCORE_WEIGHTS, MAX_SCORE_WEIGHT } from '../utils/offerScores';
+import { getSecureItem, setSecureItem } from '../utils/secureStorage';
+
+const PREFERENCES_KEY = '@gflights_preferences';
+// Followed by the user id. Loyalty programs belong to the signed-in user
+// rather than the device, so they are stored apart from the rest.
+const LOYALTY_MEMBERSHIPS_KEY = '@gflights_loyalty_memberships';
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  sortBy: 'best',
+  market: null,
+  countryCode: null,
+  displayCurrency: null,
+  scoreWeights: DEFAULT_SCORE_WEIGHTS,
+  preferredDepartureWindows: [],
+  loyaltyMemberships: [],
+};
+
+type PreferencesListener = (preferences: UserPreferences) => void;
+
+class PreferencesService {
+  private preferences: UserPreferences = DEFAULT_PREFERENCES;
+  // Whose loyalty programs are loaded, null when nobody is signed in
+  private userId: string | null = null;
+  private listeners = new Set<PreferencesListener>();
+
+  // Load the persisted preferences, keeping defaults for anything missing
+  async initializePreferences(): Promise<UserPreferences> {
+    try {
+      const stored = await AsyncStorage.getItem(PREFERENCES_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        this.preferences = {
+          ...DEFAULT_PREFERENCES,
+          ...parsed,
+          // Weights added in later versions start at their defaults
+          scoreWeights: { ...DEFAULT_PREFERENCES.scoreWeights, ...parsed.scoreWeights },
+          // Older versions kept loyalty programs here for whoever used the device
+          loyaltyMemberships: this.preferences.loyaltyMemberships,
+        };
+        this.notify();
+      }
+    } catch (error) {
+      console.error('Error loading preferences:', error);
+    }
+    return this.preferences;
+  }
+
+  getPreferences(): UserPreferences {
+    return this.preferences;
+  }
+
+  // Update some preferences and persist the result
+  async setPreferences(changes: Partial<UserPreferences>): Promise<UserPreferences> {
+    const preferences = { ...this.preferences, ...changes };
+    if (preferences.market !== null && !getMarketFromLocale(preferences.market)) {
+      throw new Error('Market must look like "en-GB"');
+    }
+    if (preferences.countryCode !== null && !/^[A-Z]{2}$/.test(preferences.countryCode)) {
+      throw new Error('Country must be a two-letter code such as "GB"');
+    }
+    if (preferences.displayCurrency !== null
+      && !currencyService.getSupportedCurrencies().includes(preferences.displayCurrency)) {
+      throw new Error(`Prices cannot be shown in ${preferences.displayCurrency}`);
+    }
+    const weights = Object.values(preferences.scoreWeights);
+    if (weights.some(weight => !Number.isInteger(weight) || weight < 0 || weight > MAX_SCORE_WEIGHT)) {
+      throw new Error(`Score weights must be whole numbers from 0 to ${MAX_SCORE_WEIGHT}`);
+    }
+    if (weights.every(weight => weight === 0)) {
+      throw new Error('At least one factor must count towards the best score');
+    }
+    if (preferences.preferredDepartureWindows.some(window => !TIME_WINDOWS.includes(window))) {
+      throw new Error('Unknown departure time preference');
+    }
+    const programAirlines = preferences.loyaltyMemberships.map(membership => membership.airlineCode);
+    if (programAirlines.some(airlineCode => !/^[A-Z0-9]{2}$/.test(airlineCode))) {
+      throw new Error('Loyalty programs need a two-character airline code such as "BA"');
+    }
+    if (new Set(programAirlines).size !== programAirlines.length) {
+      throw new Error('Add only one loyalty program per airline');
+    }
+    if (preferences.loyaltyMemberships.some(membership => !/^[A-Z0-9]{4,20}$/.test(membership.number))) {
+      throw new Error('Membership numbers are 4 to 20 letters and digits');
+    }
+    if (changes.loyaltyMemberships) {
+      if (!this.userId) {
+        throw new Error('Sign in to save your loyalty programs');
+      }
+      await setSecureItem(`${LOYALTY_MEMBERSHIPS_KEY}:${this.userId}`, JSON.stringify(changes.loyaltyMemberships));
+    }
+
+    await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify({ ...preferences, loyaltyMemberships: undefined }));
+    this.preferences = preferences;
+    this.notify();
+    return preferences;
+  }
+
+  // Load the loyalty programs of the user who signed in
+  async loadLoyaltyMemberships(userId: string): Promise<UserPreferences> {
+    this.userId = userId;
+    let loyaltyMemberships = DEFAULT_PREFERENCES.loyaltyMemberships;
+    try {
+      const stored = await getSecureItem(`${LOYALTY_MEMBERSHIPS_KEY}:${userId}`);
+      if (stored) {
+        loyaltyMemberships = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.error('Error loading loyalty programs:', error);
+    }
+    // Another user signed in while these loaded
+    if (this.userId === userId) {
+      this.preferences = { ...this.preferences, loyaltyMemberships };
+      this.notify();
+    }
+    return this.preferences;
+  }
+
+  // Stop showing the user's loyalty programs once they sign out. They stay
+  // stored under their user id for the next time they sign in.
+  unloadLoyaltyMemberships(userId: string): void {
+    if (this.userId === userId) {
+      this.userId = null;
+      this.preferences = { ...this.preferences, loyaltyMemberships: DEFAULT_PREFERENCES.loyaltyMemberships };
+      this.notify();
+    }
+  }
+
+  // Sort order, market and country for searches that do not set their own:
+  // the user's choice, then the device region, then the API profile defaults
+  getSearchDefaults(): SearchDefaults {
+    const profileDefaults = configService.getConfig().defaults;
+    const deviceMarket = getMarketFromLocale(getDeviceLocale());
+    return {
+      sortBy: this.preferences.sortBy,
+      market: this.preferences.market || deviceMarket?.market || profileDefaults.market,
+      countryCode: this.preferences.countryCode || deviceMarket?.countryCode || profileDefaults.countryCode,
+    };
+  }
+
+  // Subscribe to preference changes, returns an unsubscribe function
+  subscribe(listener: PreferencesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.preferences));
+  }
+}
+
+// Export singleton instance
+export default new PreferencesService();
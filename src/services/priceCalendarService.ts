@@ -0,0 +1,84 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { InFlightRequests } from '../api/inflight';
+import configService from './configService';
+import flightService from './flightService';
+import { RequestOptions } from '../types/api';
+import { PriceCalendar } from '../types/flight';
+
+const PRICE_CALENDARS_KEY = '@gflights_price_calendars';
+// Calendar fares are indicative, so a few hours old is still useful
+const CALENDAR_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+const MAX_CACHED_CALENDARS = 20;
+
+const getCacheKey = (originSkyId: string, destinationSkyId: string, currency: string) =>
+  `${originSkyId}-${destinationSkyId}-${currency}`;
+
+class PriceCalendarService {
+  private inFlight = new InFlightRequests();
+  private calendars: Promise<PriceCalendar[]> | null = null;
+
+  // Lowest fares per day for the route, from memory or storage when fresh.
+  // A calendar fetched from an earlier date also covers later ones.
+  async getCalendar(
+    originSkyId: string,
+    destinationSkyId: string,
+    fromDate: string,
+    options: RequestOptions = {},
+  ): Promise<PriceCalendar> {
+    const currency = configService.getConfig().defaults.currency;
+    const key = getCacheKey(originSkyId, destinationSkyId, currency);
+
+    const cached = (await this.getCachedCalendars()).find(calendar =>
+      getCacheKey(calendar.originSkyId, calendar.destinationSkyId, calendar.currency) === key
+      && calendar.fromDate <= fromDate
+      && Date.now() - Date.parse(calendar.fetchedAt) < CALENDAR_MAX_AGE_MS);
+    if (cached) {
+      return cached;
+    }
+
+    // Opening the departure and return pickers quickly shares one request
+    return this.inFlight.run(`${key}-${fromDate}`, async signal => {
+      const calendar = await flightService.getPriceCalendar(
+        originSkyId,
+        destinationSkyId,
+        fromDate,
+        currency,
+        { signal, onRetry: options.onRetry },
+      );
+      await this.saveCalendar(calendar);
+      return calendar;
+    }, options.signal);
+  }
+
+  private getCachedCalendars(): Promise<PriceCalendar[]> {
+    if (!this.calendars) {
+      this.calendars = AsyncStorage.getItem(PRICE_CALENDARS_KEY)
+        .then(stored => (stored ? JSON.parse(stored) : []))
+        .catch(error => {
+          console.error('Error loading price calendars:', error);
+          return [];
+        });
+    }
+    return this.calendars;
+  }
+
+  // Keep the newest calendar per route, dropping expired ones
+  private async saveCalendar(calendar: PriceCalendar): Promise<void> {
+    const key = getCacheKey(calendar.originSkyId, calendar.destinationSkyId, calendar.currency);
+    const calendars = [
+      calendar,
+      ...(await this.getCachedCalendars()).filter(cached =>
+        getCacheKey(cached.originSkyId, cached.destinationSkyId, cached.currency) !== key
+        && Date.now() - Date.parse(cached.fetchedAt) < CALENDAR_MAX_AGE_MS),
+    ].slice(0, MAX_CACHED_CALENDARS);
+    this.calendars = Promise.resolve(calendars);
+    try {
+      await AsyncStorage.setItem(PRICE_CALENDARS_KEY, JSON.stringify(calendars));
+    } catch (error) {
+      console.error('Error saving price calendars:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export default new PriceCalendarService();
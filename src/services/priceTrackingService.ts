@@ -0,0 +1,372 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { isCancelledRequest } from '../api/inflight';
+import { ValidationError } from '../api/errors';
+import configService from './configService';
+import flightService from './flightService';
+import { FlightOffer, FlightSearchRequest } from '../types/flight';
+import { FareAlert, FareAlertRules, TrackedFare, TrackedFareKind } from '../types/priceTracking';
+import { getLowestPrice } from '../utils/priceMatrix';
+import {
+  DEFAULT_ALERT_RULES,
+  getTrackingKey,
+  hasDeparted,
+  isPriceCheckDue,
+  recordPrice,
+  validateAlertRules,
+} from '../utils/priceTracking';
+import { describeRoute, getOfferKey } from '../utils/searchLink';
+
+const PRICE_TRACKING_KEY = '@gflights_price_tracking'; // Followed by the user id
+const MAX_TRACKED_FARES = 20;
+const MAX_FARE_ALERTS = 50;
+
+interface StoredTracking {
+  fares: TrackedFare[]; // Newest first
+  alerts: FareAlert[]; // Newest first
+}
+
+export interface PriceCheckOptions {
+  force?: boolean; // Check every fare, even those checked recently
+  signal?: AbortSignal;
+}
+
+type PriceTrackingListener = (userId: string, fares: TrackedFare[], alerts: FareAlert[]) => void;
+type FareAlertListener = (alerts: FareAlert[]) => void;
+
+const EMPTY_STORE: StoredTracking = { fares: [], alerts: [] };
+
+const createId = (prefix: string) => `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// The calendar quotes one economy seat one way, so only searches like that
+// can be priced from it instead of a full search. A fare keeps its search,
+// so every price it records comes from the same place.
+const canUsePriceCalendar = (kind: TrackedFareKind, searchRequest: FlightSearchRequest): boolean => {
+  return kind === 'route'
+    && !searchRequest.legs
+    && !searchRequest.returnDate
+    && searchRequest.adults === 1
+    && !searchRequest.children
+    && !searchRequest.infants
+    && (!searchRequest.travelClass || searchRequest.travelClass === 'ECONOMY');
+};
+
+class PriceTrackingService {
+  // Loaded stores by user id, each the result of the latest change
+  private stores = new Map<string, Promise<StoredTracking>>();
+  private checks = new Map<string, Promise<FareAlert[]>>();
+  private listeners = new Set<PriceTrackingListener>();
+  private alertListeners = new Set<FareAlertListener>();
+
+  async getTrackedFares(userId: string): Promise<TrackedFare[]> {
+    return (await this.getStore(userId)).fares;
+  }
+
+  async getAlerts(userId: string): Promise<FareAlert[]> {
+    return (await this.getStore(userId)).alerts;
+  }
+
+  // The tracked fare for the search, or for one flight of it
+  async findTrackedFare(
+    userId: string,
+    searchRequest: FlightSearchRequest,
+    offer?: FlightOffer,
+  ): Promise<TrackedFare | undefined> {
+    const key = getTrackingKey(searchRequest, offer && getOfferKey(offer));
+    return (await this.getStore(userId)).fares.find(fare => getTrackingKey(fare.searchRequest, fare.offerKey) === key);
+  }
+
+  // Watch the cheapest fare of a search, starting from the results at hand,
+  // or from the calendar when that is where its price will be checked
+  trackRoute(userId: string, searchRequest: FlightSearchRequest, offers: FlightOffer[]): Promise<TrackedFare> {
+    return this.addFare(userId, 'route', searchRequest, describeRoute(searchRequest), async () => {
+      if (!canUsePriceCalendar('route', searchRequest)) {
+        return getLowestPrice(offers);
+      }
+      try {
+        return await this.getCalendarPrice(searchRequest, this.getCurrency(searchRequest));
+      } catch (error) {
+        // The first check finds the starting price instead
+        console.error('Price check error:', error);
+        return null;
+      }
+    });
+  }
+
+  // Watch one flight of the results
+  trackOffer(userId: string, searchRequest: FlightSearchRequest, offer: FlightOffer): Promise<TrackedFare> {
+    const firstSegment = offer.itineraries[0].segments[0];
+    return this.addFare(
+      userId,
+      'offer',
+      searchRequest,
+      `${describeRoute(searchRequest)} · ${firstSegment.carrierCode} ${firstSegment.number}`,
+      async () => getLowestPrice([offer]),
+      getOfferKey(offer),
+    );
+  }
+
+  async untrack(userId: string, fareId: string): Promise<void> {
+    await this.updateStore(userId, store => ({
+      fares: store.fares.filter(fare => fare.id !== fareId),
+      alerts: store.alerts,
+    }));
+  }
+
+  async setAlertRules(userId: string, fareId: string, rules: FareAlertRules): Promise<void> {
+    const fieldErrors = validateAlertRules(rules);
+    if (fieldErrors.length > 0) {
+      throw new ValidationError(fieldErrors[0].message, fieldErrors);
+    }
+    await this.updateStore(userId, store => ({
+      fares: store.fares.map(fare => (fare.id === fareId ? { ...fare, rules } : fare)),
+      alerts: store.alerts,
+    }));
+  }
+
+  async markAlertsRead(userId: string): Promise<void> {
+    const { alerts } = await this.getStore(userId);
+    if (alerts.some(alert => !alert.isRead)) {
+      await this.updateStore(userId, store => ({
+        fares: store.fares,
+        alerts: store.alerts.map(alert => ({ ...alert, isRead: true })),
+      }));
+    }
+  }
+
+  async clearAlerts(userId: string): Promise<void> {
+    await this.updateStore(userId, store => ({ fares: store.fares, alerts: [] }));
+  }
+
+  // Price the user's fares that are due one at a time and return the alerts
+  // they raised. A check already running is shared rather than started twice.
+  checkPrices(userId: string, options: PriceCheckOptions = {}): Promise<FareAlert[]> {
+    let check = this.checks.get(userId);
+    if (!check) {
+      check = this.runCheck(userId, options);
+      this.checks.set(userId, check);
+      const running = check;
+      running.finally(() => {
+        if (this.checks.get(userId) === running) {
+          this.checks.delete(userId);
+        }
+      }).catch(() => undefined);
+    }
+    return check;
+  }
+
+  // Check the user's prices now and whenever the app comes back to the
+  // foreground. Returns a function that stops checking.
+  startPriceChecks(userId: string): () => void {
+    const controller = new AbortController();
+    const run = () => {
+      this.checkPrices(userId, { signal: controller.signal }).catch(error => {
+        console.error('Price check error:', error);
+      });
+    };
+    run();
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        run();
+      }
+    });
+    return () => {
+      controller.abort();
+      subscription.remove();
+    };
+  }
+
+  // Subscribe to tracked fare and alert changes, returns an unsubscribe function
+  subscribe(listener: PriceTrackingListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Subscribe to alerts as checks raise them, returns an unsubscribe function
+  onAlerts(listener: FareAlertListener): () => void {
+    this.alertListeners.add(listener);
+    return () => {
+      this.alertListeners.delete(listener);
+    };
+  }
+
+  private async addFare(
+    userId: string,
+    kind: TrackedFareKind,
+    searchRequest: FlightSearchRequest,
+    label: string,
+    getStartingPrice: () => Promise<{ price: number | null; currency: string } | null>,
+    offerKey?: string,
+  ): Promise<TrackedFare> {
+    const key = getTrackingKey(searchRequest, offerKey);
+    const { fares } = await this.getStore(userId);
+    const tracked = fares.find(fare => getTrackingKey(fare.searchRequest, fare.offerKey) === key);
+    if (tracked) {
+      return tracked;
+    }
+    if (fares.length >= MAX_TRACKED_FARES) {
+      throw new Error(`You can track up to ${MAX_TRACKED_FARES} fares. Stop tracking one to add another.`);
+    }
+
+    const lowest = await getStartingPrice();
+    const now = new Date().toISOString();
+    const fare: TrackedFare = {
+      id: createId('tf'),
+      kind,
+      searchRequest,
+      offerKey,
+      label,
+      currency: lowest?.currency || this.getCurrency(searchRequest),
+      rules: DEFAULT_ALERT_RULES,
+      history: [{ checkedAt: now, price: lowest ? lowest.price : null }],
+      referencePrice: lowest ? lowest.price : null,
+      createdAt: now,
+    };
+    await this.updateStore(userId, store => ({
+      fares: [fare, ...store.fares],
+      alerts: store.alerts,
+    }));
+    return fare;
+  }
+
+  private async runCheck(userId: string, options: PriceCheckOptions): Promise<FareAlert[]> {
+    const { fares } = await this.getStore(userId);
+    if (fares.some(fare => hasDeparted(fare))) {
+      await this.updateStore(userId, store => ({
+        fares: store.fares.filter(fare => !hasDeparted(fare)),
+        alerts: store.alerts,
+      }));
+    }
+
+    const now = Date.now();
+    const dueFares = fares.filter(fare => !hasDeparted(fare) && (options.force || isPriceCheckDue(fare, now)));
+    const newAlerts: FareAlert[] = [];
+    for (const dueFare of dueFares) {
+      if (options.signal?.aborted) {
+        break;
+      }
+      let price: number | null;
+      try {
+        price = await this.fetchPrice(dueFare, options.signal);
+      } catch (error) {
+        if (isCancelledRequest(error)) {
+          break;
+        }
+        // Try again on the next check
+        console.error('Price check error:', error);
+        continue;
+      }
+      await this.updateStore(userId, store => {
+        const fare = store.fares.find(entry => entry.id === dueFare.id);
+        // Untracked while its price was being checked
+        if (!fare) {
+          return store;
+        }
+        const result = recordPrice(fare, price);
+        let alerts = store.alerts;
+        if (price !== null && result.reasons.length > 0) {
+          const alert: FareAlert = {
+            id: createId('fa'),
+            trackedFareId: fare.id,
+            label: fare.label,
+            reasons: result.reasons,
+            price,
+            previousPrice: fare.referencePrice,
+            currency: fare.currency,
+            createdAt: new Date().toISOString(),
+            isRead: false,
+          };
+          newAlerts.push(alert);
+          alerts = [alert, ...alerts].slice(0, MAX_FARE_ALERTS);
+        }
+        return {
+          fares: store.fares.map(entry => (entry.id === fare.id ? result.fare : entry)),
+          alerts,
+        };
+      });
+    }
+
+    if (newAlerts.length > 0) {
+      this.alertListeners.forEach(listener => listener(newAlerts));
+    }
+    return newAlerts;
+  }
+
+  // Current price of the fare in its currency, null when none is on sale
+  private async fetchPrice(fare: TrackedFare, signal?: AbortSignal): Promise<number | null> {
+    const { searchRequest } = fare;
+    if (canUsePriceCalendar(fare.kind, searchRequest)) {
+      return (await this.getCalendarPrice(searchRequest, fare.currency, signal)).price;
+    }
+
+    const response = await flightService.searchFlights(
+      { ...searchRequest, currencyCode: fare.currency },
+      { signal, recordRecentSearch: false },
+    );
+    const offers = fare.kind === 'offer'
+      ? response.data.filter(offer => getOfferKey(offer) === fare.offerKey)
+      : response.data;
+    return getLowestPrice(offers)?.price ?? null;
+  }
+
+  // The calendar's price for the day of a one-way search
+  private async getCalendarPrice(
+    searchRequest: FlightSearchRequest,
+    currency: string,
+    signal?: AbortSignal,
+  ): Promise<{ price: number | null; currency: string }> {
+    const calendar = await flightService.getPriceCalendar(
+      searchRequest.originLocationCode,
+      searchRequest.destinationLocationCode,
+      searchRequest.departureDate,
+      currency,
+      { signal },
+    );
+    return {
+      price: calendar.days.find(day => day.date === searchRequest.departureDate)?.price ?? null,
+      currency: calendar.currency,
+    };
+  }
+
+  private getCurrency(searchRequest: FlightSearchRequest): string {
+    return searchRequest.currencyCode || configService.getConfig().defaults.currency;
+  }
+
+  private getStore(userId: string): Promise<StoredTracking> {
+    let store = this.stores.get(userId);
+    if (!store) {
+      store = AsyncStorage.getItem(`${PRICE_TRACKING_KEY}:${userId}`)
+        .then(stored => (stored ? { ...EMPTY_STORE, ...JSON.parse(stored) } : EMPTY_STORE))
+        .catch(error => {
+          console.error('Error loading tracked fares:', error);
+          return EMPTY_STORE;
+        });
+      this.stores.set(userId, store);
+    }
+    return store;
+  }
+
+  // Apply a change on top of every change queued before it, so checks and
+  // edits never overwrite each other's work
+  private updateStore(
+    userId: string,
+    change: (store: StoredTracking) => StoredTracking,
+  ): Promise<StoredTracking> {
+    const next = this.getStore(userId).then(change);
+    this.stores.set(userId, next);
+    return next.then(async store => {
+      this.listeners.forEach(listener => listener(userId, store.fares, store.alerts));
+      try {
+        await AsyncStorage.setItem(`${PRICE_TRACKING_KEY}:${userId}`, JSON.stringify(store));
+      } catch (error) {
+        console.error('Error saving tracked fares:', error);
+      }
+      return store;
+    });
+  }
+}
+
+// Export singleton instance
+export default new PriceTrackingService();
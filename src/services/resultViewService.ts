@@ -0,0 +1,49 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ResultView } from '../types/filters';
+import { DEFAULT_RESULT_VIEW } from '../utils/offerFilters';
+
+const RESULT_VIEWS_KEY = '@gflights_result_views';
+const MAX_SAVED_ROUTES = 20;
+
+interface SavedResultView {
+  routeKey: string;
+  view: ResultView;
+}
+
+class ResultViewService {
+  // Filters and sort order last used on a route, or the defaults
+  async getView(routeKey: string): Promise<ResultView> {
+    try {
+      const saved = (await this.getSavedViews()).find(entry => entry.routeKey === routeKey);
+      if (saved) {
+        // Views saved by older versions may miss newer filters
+        return {
+          filters: { ...DEFAULT_RESULT_VIEW.filters, ...saved.view.filters },
+          sortKey: saved.view.sortKey || DEFAULT_RESULT_VIEW.sortKey,
+        };
+      }
+    } catch (error) {
+      console.error('Error loading result filters:', error);
+    }
+    return DEFAULT_RESULT_VIEW;
+  }
+
+  // Remember the view for the route, keeping only the most recent routes
+  async saveView(routeKey: string, view: ResultView): Promise<void> {
+    try {
+      const savedViews = (await this.getSavedViews()).filter(entry => entry.routeKey !== routeKey);
+      savedViews.unshift({ routeKey, view });
+      await AsyncStorage.setItem(RESULT_VIEWS_KEY, JSON.stringify(savedViews.slice(0, MAX_SAVED_ROUTES)));
+    } catch (error) {
+      console.error('Error saving result filters:', error);
+    }
+  }
+
+  private async getSavedViews(): Promise<SavedResultView[]> {
+    const stored = await AsyncStorage.getItem(RESULT_VIEWS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+}
+
+// Export singleton instance
+export default new ResultViewService();
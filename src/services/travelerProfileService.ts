@@ -0,0 +1,236 @@
+import api from '../api';
+import { ValidationError, normalizeApiError } from '../api/errors';
+import { TravelerProfile, TravelerProfileDraft } from '../types/traveler';
+import { getSecureItem, removeSecureItem, setSecureItem } from '../utils/secureStorage';
+import { validateTravelerProfile } from '../utils/travelers';
+
+const TRAVELER_PROFILES_KEY = '@gflights_traveler_profiles';
+
+// Local copy of one user's profiles plus the changes the backend has not seen.
+// Kept in secure storage since profiles hold passport and membership numbers.
+interface StoredProfiles {
+  profiles: TravelerProfile[];
+  pendingIds: string[]; // Saved locally, not yet uploaded
+  deletedIds: string[]; // Deleted locally, not yet deleted on the backend
+}
+
+type TravelerProfilesListener = (userId: string, profiles: TravelerProfile[]) => void;
+
+const EMPTY_STORE: StoredProfiles = { profiles: [], pendingIds: [], deletedIds: [] };
+
+const byName = (a: TravelerProfile, b: TravelerProfile) =>
+  a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName);
+
+const createProfileId = () => `tp_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+class TravelerProfileService {
+  // Loaded stores by user id, each the result of the latest change
+  private stores = new Map<string, Promise<StoredProfiles>>();
+  private syncs = new Map<string, Promise<TravelerProfile[]>>();
+  private listeners = new Set<TravelerProfilesListener>();
+  // Counts clearProfiles calls, so syncs started before one do not save
+  private clears = 0;
+
+  // The user's saved profiles, sorted by name
+  async getProfiles(userId: string): Promise<TravelerProfile[]> {
+    const store = await this.getStore(userId);
+    return store.profiles;
+  }
+
+  // Whether some changes have not reached the backend yet
+  async hasUnsyncedChanges(userId: string): Promise<boolean> {
+    const store = await this.getStore(userId);
+    return store.pendingIds.length > 0 || store.deletedIds.length > 0;
+  }
+
+  // Validate and save a profile locally, then upload it in the background
+  async saveProfile(userId: string, draft: TravelerProfileDraft): Promise<TravelerProfile> {
+    const fieldErrors = validateTravelerProfile(draft);
+    if (fieldErrors.length > 0) {
+      throw new ValidationError(fieldErrors[0].message, fieldErrors);
+    }
+
+    const profile: TravelerProfile = {
+      id: draft.id || createProfileId(),
+      firstName: draft.firstName.trim(),
+      lastName: draft.lastName.trim(),
+      dateOfBirth: draft.dateOfBirth,
+      gender: draft.gender,
+      passportNumber: draft.passportNumber.trim().toUpperCase(),
+      passportExpiry: draft.passportExpiry,
+      nationality: draft.nationality.trim().toUpperCase(),
+      knownTravelerNumber: draft.knownTravelerNumber.trim().toUpperCase(),
+      frequentFlyerNumbers: draft.frequentFlyerNumbers.map(membership => ({
+        airlineCode: membership.airlineCode.trim().toUpperCase(),
+        number: membership.number.trim().toUpperCase(),
+      })),
+      mealPreference: draft.mealPreference,
+      seatPreference: draft.seatPreference,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.updateStore(userId, store => ({
+      profiles: [...store.profiles.filter(existing => existing.id !== profile.id), profile].sort(byName),
+      pendingIds: [...store.pendingIds.filter(id => id !== profile.id), profile.id],
+      deletedIds: store.deletedIds,
+    }));
+    this.syncInBackground(userId);
+    return profile;
+  }
+
+  // Delete a profile locally, then on the backend in the background
+  async deleteProfile(userId: string, profileId: string): Promise<void> {
+    await this.updateStore(userId, store => ({
+      profiles: store.profiles.filter(profile => profile.id !== profileId),
+      pendingIds: store.pendingIds.filter(id => id !== profileId),
+      deletedIds: [...store.deletedIds.filter(id => id !== profileId), profileId],
+    }));
+    this.syncInBackground(userId);
+  }
+
+  // Upload local changes, then take the backend's list. Syncs for the same
+  // user run one after another; a failed sync leaves local changes pending.
+  syncProfiles(userId: string): Promise<TravelerProfile[]> {
+    const previous = this.syncs.get(userId) || Promise.resolve([]);
+    const sync = previous.catch(() => undefined).then(() => this.runSync(userId));
+    this.syncs.set(userId, sync);
+    sync.finally(() => {
+      if (this.syncs.get(userId) === sync) {
+        this.syncs.delete(userId);
+      }
+    }).catch(() => undefined);
+    return sync;
+  }
+
+  // Forget the user's profiles on this device when they sign out. Changes
+  // the backend has not seen are uploaded first; when that fails everything
+  // is kept so the user's next sign-in can sync it.
+  async clearProfiles(userId: string): Promise<void> {
+    if (await this.hasUnsyncedChanges(userId)) {
+      await this.syncProfiles(userId).catch(() => undefined);
+      if (await this.hasUnsyncedChanges(userId)) {
+        return;
+      }
+    }
+
+    const store = this.stores.get(userId);
+    this.stores.delete(userId);
+    this.syncs.delete(userId);
+    this.clears += 1;
+    this.notify(userId, []);
+    // Let a change being saved finish first, so it is not written back after
+    await store?.catch(() => undefined);
+    try {
+      await removeSecureItem(`${TRAVELER_PROFILES_KEY}:${userId}`);
+    } catch (error) {
+      console.error('Error clearing traveler profiles:', error);
+    }
+  }
+
+  // Subscribe to profile changes, returns an unsubscribe function
+  subscribe(listener: TravelerProfilesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async runSync(userId: string): Promise<TravelerProfile[]> {
+    const clears = this.clears;
+    try {
+      const { profiles, pendingIds, deletedIds } = await this.getStore(userId);
+      const uploaded = profiles.filter(profile => pendingIds.includes(profile.id));
+
+      for (const profileId of deletedIds) {
+        try {
+          await api.delete(`/travelers/${encodeURIComponent(profileId)}`);
+        } catch (error) {
+          // Never uploaded, or deleted from another device
+          if (normalizeApiError(error).statusCode !== 404) {
+            throw error;
+          }
+        }
+      }
+      for (const profile of uploaded) {
+        await api.put(`/travelers/${encodeURIComponent(profile.id)}`, profile);
+      }
+      const response = await api.get('/travelers');
+      const remoteProfiles: TravelerProfile[] = response.data.data || [];
+      // Signed out while the requests ran
+      if (this.clears !== clears) {
+        return [];
+      }
+
+      // Saves and deletes made while the requests ran are still pending
+      const latest = await this.updateStore(userId, store => {
+        const stillPendingIds = store.pendingIds.filter(id => {
+          const local = store.profiles.find(profile => profile.id === id);
+          return !uploaded.some(profile => profile.id === id && profile.updatedAt === local?.updatedAt);
+        });
+        return {
+          profiles: [
+            ...remoteProfiles.filter(profile =>
+              !stillPendingIds.includes(profile.id) && !store.deletedIds.includes(profile.id)),
+            ...store.profiles.filter(profile => stillPendingIds.includes(profile.id)),
+          ].sort(byName),
+          pendingIds: stillPendingIds,
+          deletedIds: store.deletedIds.filter(id => !deletedIds.includes(id)),
+        };
+      });
+      return latest.profiles;
+    } catch (error) {
+      console.error('Traveler profile sync error:', error);
+      throw normalizeApiError(error);
+    }
+  }
+
+  private syncInBackground(userId: string): void {
+    // Failures keep the changes pending for the next sync
+    this.syncProfiles(userId).catch(() => undefined);
+  }
+
+  private getStore(userId: string): Promise<StoredProfiles> {
+    let store = this.stores.get(userId);
+    if (!store) {
+      store = this.loadStore(userId);
+      this.stores.set(userId, store);
+    }
+    return store;
+  }
+
+  private async loadStore(userId: string): Promise<StoredProfiles> {
+    try {
+      const stored = await getSecureItem(`${TRAVELER_PROFILES_KEY}:${userId}`);
+      return stored ? { ...EMPTY_STORE, ...JSON.parse(stored) } : EMPTY_STORE;
+    } catch (error) {
+      console.error('Error loading traveler profiles:', error);
+      return EMPTY_STORE;
+    }
+  }
+
+  // Apply a change on top of every change queued before it, so saves and
+  // syncs never overwrite each other's work
+  private updateStore(
+    userId: string,
+    change: (store: StoredProfiles) => StoredProfiles,
+  ): Promise<StoredProfiles> {
+    const next = this.getStore(userId).then(change);
+    this.stores.set(userId, next);
+    return next.then(async store => {
+      this.notify(userId, store.profiles);
+      try {
+        await setSecureItem(`${TRAVELER_PROFILES_KEY}:${userId}`, JSON.stringify(store));
+      } catch (error) {
+        console.error('Error saving traveler profiles:', error);
+      }
+      return store;
+    });
+  }
+
+  private notify(userId: string, profiles: TravelerProfile[]): void {
+    this.listeners.forEach(listener => listener(userId, profiles));
+  }
+}
+
+// Export singleton instance
+export default new TravelerProfileService();
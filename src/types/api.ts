@@ -0,0 +1,34 @@
+// Shared types for the axios client
+
+export interface RetryAttempt {
+  attempt: number; // 1-based number of the retry about to be made
+  maxRetries: number;
+  delayMs: number;
+  method: string;
+  url: string;
+  reason: string; // HTTP status or error code that triggered the retry
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  retryOnStatus?: number[];
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+// Options accepted by service methods that hit the network
+export interface RequestOptions {
+  signal?: AbortSignal;
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Per-request retry policy. Idempotent requests retry by default;
+    // pass an object to opt other methods in or `false` to disable.
+    retry?: RetryOptions | false;
+    retryCount?: number;
+    refreshedAuth?: boolean; // Set once a 401 was replayed with a refreshed token
+  }
+}
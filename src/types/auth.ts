@@ -9,6 +9,12 @@ export interface User {
 export interface AuthResponse {
   user: User;
   access_token: string;
+  refresh_token?: string;
+}
+
+export interface RefreshTokenResponse {
+  access_token: string;
+  refresh_token?: string; // Present when the backend rotates refresh tokens
 }
 
 export interface LoginRequest {
@@ -21,8 +27,3 @@ export interface RegisterRequest {
   email: string;
   password: string;
 }
-
-export interface AuthError {
-  message: string;
-  statusCode: number;
-}
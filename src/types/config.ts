@@ -0,0 +1,42 @@
+// Runtime API configuration types
+
+export type ApiProfileName = 'dev' | 'staging' | 'prod' | 'local';
+
+export interface ApiTimeouts {
+  request: number; // Default timeout for every call on the shared api instance
+  search: number; // Flight search aggregates several providers and needs longer
+  auth: number;
+}
+
+export interface RetryDefaults {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs: number; // Upper bound on how long a 429 Retry-After may stall a request
+}
+
+export interface MarketDefaults {
+  market: string;
+  locale: string;
+  countryCode: string;
+  currency: string;
+}
+
+export interface ApiProfile {
+  name: ApiProfileName;
+  label: string;
+  baseURL: string;
+  timeouts: ApiTimeouts;
+  retry: RetryDefaults;
+  defaults: MarketDefaults;
+}
+
+export interface ApiConfig extends ApiProfile {
+  isBaseURLOverridden: boolean;
+}
+
+// Shape persisted in AsyncStorage by the developer settings screen
+export interface StoredApiConfig {
+  profile: ApiProfileName;
+  baseURLOverride?: string;
+}
@@ -0,0 +1,47 @@
+// Client-side filters and ordering for the offers of one search
+
+// Part of the day a flight leaves or lands, in airport time
+export type TimeWindow = 'early_morning' | 'morning' | 'afternoon' | 'evening';
+
+// Most stops on any itinerary of the offer; 2 stands for "2 or more"
+export type StopsOption = 0 | 1 | 2;
+
+// "best" orders by the score from the user's weights, "recommended" keeps
+// the backend's order
+export type ResultSortKey = 'recommended' | 'best' | 'price' | 'duration' | 'departure' | 'arrival';
+
+export interface ResultFilters {
+  // null means no limit
+  maxPrice: number | null;
+  maxDurationMinutes: number | null;
+  maxLayoverMinutes: number | null;
+  // Empty lists match everything
+  departureWindows: TimeWindow[];
+  arrivalWindows: TimeWindow[];
+  stops: StopsOption[];
+  carriers: string[];
+  cabins: string[];
+  checkedBagsOnly: boolean;
+  // Only offers where every flight earns on one of the user's programs
+  earnsMilesOnly: boolean;
+}
+
+// Filters plus the order they are shown in, as saved for a route
+export interface ResultView {
+  filters: ResultFilters;
+  sortKey: ResultSortKey;
+}
+
+// How many offers each filter value would leave, given the other filters
+export interface ResultFilterCounts {
+  price: Record<number, number>;
+  duration: Record<number, number>;
+  layover: Record<number, number>;
+  departureWindows: Record<TimeWindow, number>;
+  arrivalWindows: Record<TimeWindow, number>;
+  stops: Record<StopsOption, number>;
+  carriers: Record<string, number>;
+  cabins: Record<string, number>;
+  checkedBags: number;
+  earnsMiles: number;
+}
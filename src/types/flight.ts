@@ -1,4 +1,5 @@
 // Flight search and booking related types
+import { FrequentFlyerNumber } from './traveler';
 
 export interface FlightSearchRequest {
   originLocationCode: string;
@@ -7,11 +8,29 @@ export interface FlightSearchRequest {
   destinationEntityId?: string;
   departureDate: string;
   returnDate?: string;
+  // Multi-city trips (2-6 legs); the fields above then mirror the first leg
+  legs?: FlightSearchLeg[];
   adults: number;
   children?: number;
   infants?: number;
   travelClass?: 'ECONOMY' | 'PREMIUM_ECONOMY' | 'BUSINESS' | 'FIRST';
   currencyCode?: string;
+  // Left out, these come from the user's preferences or the device region
+  sortBy?: FlightSortOrder;
+  market?: string; // e.g. "en-GB"
+  countryCode?: string; // e.g. "GB"
+}
+
+// Order the backend ranks offers in
+export type FlightSortOrder = 'best' | 'cheapest' | 'fastest';
+
+// One flight of a multi-city trip
+export interface FlightSearchLeg {
+  originLocationCode: string;
+  destinationLocationCode: string;
+  originEntityId?: string;
+  destinationEntityId?: string;
+  departureDate: string;
 }
 
 export interface FlightOffer {
@@ -38,6 +57,10 @@ export interface Segment {
   carrierCode: string;
   number: string;
   aircraft: Aircraft;
+  // Set when another airline flies the segment (codeshare)
+  operating?: {
+    carrierCode: string;
+  };
   duration: string;
   id: string;
   numberOfStops: number;
@@ -100,12 +123,15 @@ export interface FlightSearchResponse {
       self: string;
     };
   };
-  dictionaries: {
-    locations: Record<string, LocationInfo>;
-    aircraft: Record<string, string>;
-    currencies: Record<string, string>;
-    carriers: Record<string, string>;
-  };
+  dictionaries: FlightDictionaries;
+}
+
+// Code-to-name lookups that come with search results; any of them may be missing
+export interface FlightDictionaries {
+  locations?: Record<string, LocationInfo>;
+  aircraft?: Record<string, string>;
+  currencies?: Record<string, string>;
+  carriers?: Record<string, string>;
 }
 
 export interface LocationInfo {
@@ -166,6 +192,40 @@ export interface FlightSearchError {
   };
 }
 
+// Cheapest fare for one departure/return combination of a flexible-date search
+export interface PriceMatrixCell {
+  departureDate: string;
+  returnDate?: string;
+  status: 'loaded' | 'no_flights' | 'failed';
+  price?: number;
+  currency?: string;
+}
+
+export interface PriceMatrix {
+  departureDates: string[];
+  returnDates: string[]; // Empty for one-way searches
+  cells: PriceMatrixCell[];
+}
+
+// Lowest fare the price calendar knows for one departure day
+export interface PriceCalendarDay {
+  date: string; // YYYY-MM-DD
+  price: number | null; // null when no fare is known for the day
+}
+
+// One-way lowest fares per day from fromDate onwards, for one route
+export interface PriceCalendar {
+  originSkyId: string;
+  destinationSkyId: string;
+  fromDate: string;
+  currency: string;
+  days: PriceCalendarDay[];
+  fetchedAt: string; // ISO timestamp, for cache expiry
+}
+
+// Where a day's price falls among the other days of its calendar
+export type PriceLevel = 'cheap' | 'average' | 'expensive';
+
 // Recent search types for local storage
 export interface RecentSearch {
   id: string;
@@ -173,6 +233,7 @@ export interface RecentSearch {
   destination: string;
   departureDate: string;
   returnDate?: string;
+  legs?: FlightSearchLeg[];
   passengers: number;
   searchedAt: string;
   results?: FlightOffer[];
@@ -185,5 +246,50 @@ export interface PopularRoute {
   originName: string;
   destinationName: string;
   averagePrice?: string;
+  currency?: string;
   popularity: number;
 }
+
+// Result of re-pricing an offer just before booking it
+export interface OfferPriceCheck {
+  offer: FlightOffer; // The offer as the airline prices it now
+  previousTotal: number;
+  currentTotal: number;
+  priceChanged: boolean;
+}
+
+// One traveler of a booking; id and travelerType come from the offer's
+// travelerPricings
+export interface BookingTraveler {
+  id: string;
+  travelerType: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string; // YYYY-MM-DD
+  gender: 'MALE' | 'FEMALE' | null;
+  profileId?: string; // Saved traveler profile the details were filled from
+  isAccountHolder?: boolean; // The signed-in user, who may use their own loyalty programs
+  loyaltyPrograms?: FrequentFlyerNumber[]; // Memberships to credit the miles to
+}
+
+// How the airline reaches whoever made the booking
+export interface BookingContact {
+  email: string;
+  phoneCountryCode: string; // Calling code without "+", e.g. "44"
+  phoneNumber: string;
+}
+
+export interface BookingRequest {
+  offer: FlightOffer;
+  travelers: BookingTraveler[];
+  contact: BookingContact;
+}
+
+export interface Booking {
+  id: string;
+  reference: string; // Airline record locator (PNR), e.g. "K9X2LM"
+  createdAt: string;
+  offer: FlightOffer;
+  travelers: BookingTraveler[];
+  contact: BookingContact;
+}
@@ -0,0 +1,34 @@
+// User preferences stored on the device
+import { FlightSortOrder } from './flight';
+import { TimeWindow } from './filters';
+import { FrequentFlyerNumber } from './traveler';
+
+// How much each factor counts towards an offer's "best" score, from 0 (not
+// at all) to 3
+export interface ScoreWeights {
+  price: number;
+  duration: number;
+  stops: number;
+  departureTime: number;
+}
+
+export interface UserPreferences {
+  sortBy: FlightSortOrder;
+  // null follows the device region
+  market: string | null;
+  countryCode: string | null;
+  // Currency prices are shown in; null shows each price as the airline quotes it
+  displayCurrency: string | null;
+  scoreWeights: ScoreWeights;
+  // Times of day the user likes to leave; empty means any time suits
+  preferredDepartureWindows: TimeWindow[];
+  // The signed-in user's own loyalty programs, one per airline
+  loyaltyMemberships: FrequentFlyerNumber[];
+}
+
+// What a search falls back to when the request leaves these out
+export interface SearchDefaults {
+  sortBy: FlightSortOrder;
+  market: string;
+  countryCode: string;
+}
@@ -0,0 +1,47 @@
+// Fares the user watches on this device and the alerts raised for them
+
+import { FlightSearchRequest } from './flight';
+
+// The cheapest fare of a search, or one particular flight from its results
+export type TrackedFareKind = 'route' | 'offer';
+
+// Price found by one check, in the tracked fare's currency
+export interface PricePoint {
+  checkedAt: string; // ISO timestamp
+  price: number | null; // null when nothing was on sale
+}
+
+// null turns a rule off
+export interface FareAlertRules {
+  belowPrice: number | null; // Alert when the price falls under this amount
+  dropPercent: number | null; // Alert when it falls this many percent below the reference price
+}
+
+export interface TrackedFare {
+  id: string;
+  kind: TrackedFareKind;
+  searchRequest: FlightSearchRequest;
+  offerKey?: string; // getOfferKey of the flight, for 'offer' fares
+  label: string; // e.g. "JFK → LHR · BA 117"
+  currency: string;
+  rules: FareAlertRules;
+  history: PricePoint[]; // Oldest first
+  // Percentage drops are measured from here: the first known price, then
+  // the price of the last alert
+  referencePrice: number | null;
+  createdAt: string;
+}
+
+export type FareAlertReason = 'below_price' | 'price_drop';
+
+export interface FareAlert {
+  id: string;
+  trackedFareId: string;
+  label: string;
+  reasons: FareAlertReason[];
+  price: number;
+  previousPrice: number | null; // Reference price before this alert
+  currency: string;
+  createdAt: string;
+  isRead: boolean;
+}
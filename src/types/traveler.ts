@@ -0,0 +1,35 @@
+// Saved traveler profiles and loyalty memberships, used to fill in booking forms
+
+// Membership of an airline loyalty program
+export interface FrequentFlyerNumber {
+  airlineCode: string; // IATA code of the airline running the program, e.g. "BA"
+  number: string;
+}
+
+export type MealPreference = 'VEGETARIAN' | 'VEGAN' | 'HALAL' | 'KOSHER' | 'GLUTEN_FREE' | 'DIABETIC';
+
+export type SeatPreference = 'WINDOW' | 'AISLE';
+
+export interface TravelerProfile {
+  id: string;
+  // Names exactly as on the passport
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string; // YYYY-MM-DD
+  gender: 'MALE' | 'FEMALE' | null;
+  passportNumber: string;
+  passportExpiry: string; // YYYY-MM-DD, empty when unknown
+  nationality: string; // ISO country code, e.g. "GB"
+  knownTravelerNumber: string; // TSA PreCheck, Global Entry and similar
+  frequentFlyerNumbers: FrequentFlyerNumber[];
+  // null when the traveler has no preference
+  mealPreference: MealPreference | null;
+  seatPreference: SeatPreference | null;
+  updatedAt: string; // ISO timestamp of the last change, newest wins when syncing
+}
+
+// What the profile form edits; id and updatedAt are set when saving
+export type TravelerProfileDraft = Omit<TravelerProfile, 'id' | 'updatedAt'> & { id?: string };
+
+// Airline alliances; a program earns miles on every member airline
+export type Alliance = 'ONEWORLD' | 'STAR_ALLIANCE' | 'SKYTEAM';
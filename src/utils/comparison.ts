@@ -0,0 +1,109 @@
+import { FlightOffer } from '../types/flight';
+import { getOfferTotal } from './fares';
+import { getLayovers } from './itinerary';
+import { getItineraryMinutes, toUtcMillis } from './time';
+
+// More columns than this no longer fit side by side on a phone
+export const MAX_COMPARED_OFFERS = 4;
+
+export type ComparisonRowKey =
+  | 'price'
+  | 'duration'
+  | 'stops'
+  | 'layovers'
+  | 'departure'
+  | 'arrival'
+  | 'checkedBags'
+  | 'fareType'
+  | 'seatsLeft'
+  | 'ticketingDeadline';
+
+// What one offer brings to the comparison
+export interface OfferComparison {
+  offer: FlightOffer;
+  price: number;
+  // Every itinerary together; null when a duration is unknown
+  durationMinutes: number | null;
+  stops: number;
+  layoverMinutes: number;
+  // Departure and arrival of the first itinerary, in airport-local time
+  departureAt: string;
+  arrivalAt: string;
+  // Checked bags every traveler gets on every flight; null when the offer
+  // does not say
+  checkedBags: number | null;
+  fareTypes: string[];
+  seatsLeft: number;
+  lastTicketingDate: string | null;
+}
+
+export interface ComparisonRow {
+  key: ComparisonRowKey;
+  // Column indexes holding the best value; empty when the row has no better
+  // side (departure time, fare type) or nothing to tell apart
+  bestIndexes: number[];
+}
+
+export const getOfferComparison = (offer: FlightOffer): OfferComparison => {
+  const firstItinerary = offer.itineraries[0];
+  const lastSegment = firstItinerary.segments[firstItinerary.segments.length - 1];
+  const durations = offer.itineraries.map(getItineraryMinutes);
+  const fareDetails = (offer.travelerPricings || []).flatMap(pricing => pricing.fareDetailsBySegment || []);
+
+  return {
+    offer,
+    price: getOfferTotal(offer),
+    durationMinutes: durations.some(minutes => minutes === null)
+      ? null
+      : (durations as number[]).reduce((sum, minutes) => sum + minutes, 0),
+    stops: offer.itineraries.reduce((sum, itinerary) => sum + itinerary.segments.length - 1, 0),
+    layoverMinutes: offer.itineraries
+      .flatMap(getLayovers)
+      .reduce((sum, layover) => sum + layover.minutes, 0),
+    departureAt: firstItinerary.segments[0].departure.at,
+    arrivalAt: lastSegment.arrival.at,
+    checkedBags: fareDetails.length > 0
+      ? Math.min(...fareDetails.map(details => details.includedCheckedBags?.quantity || 0))
+      : null,
+    fareTypes: offer.pricingOptions?.fareType || [],
+    seatsLeft: offer.numberOfBookableSeats,
+    lastTicketingDate: offer.lastTicketingDate || null,
+  };
+};
+
+// Indexes of the lowest (or highest) known value, unless every column ties
+const pickBest = (values: (number | null)[], prefer: 'lowest' | 'highest'): number[] => {
+  const known = values.filter((value): value is number => value !== null && !isNaN(value));
+  if (known.length < 2 || known.every(value => value === known[0])) {
+    return [];
+  }
+  const best = prefer === 'lowest' ? Math.min(...known) : Math.max(...known);
+  return values.reduce<number[]>((indexes, value, index) => (value === best ? [...indexes, index] : indexes), []);
+};
+
+// Landing first counts in real time, so arrivals in different zones compare fairly
+const getArrivalMillis = (comparison: OfferComparison): number => {
+  const lastSegment = comparison.offer.itineraries[0].segments.slice(-1)[0];
+  return toUtcMillis(lastSegment.arrival) ?? Date.parse(`${comparison.arrivalAt.slice(0, 19)}Z`);
+};
+
+// One row per compared attribute, in display order
+export const getComparisonRows = (comparisons: OfferComparison[]): ComparisonRow[] => {
+  const rows: [ComparisonRowKey, number[]][] = [
+    ['price', pickBest(comparisons.map(item => item.price), 'lowest')],
+    ['duration', pickBest(comparisons.map(item => item.durationMinutes), 'lowest')],
+    ['stops', pickBest(comparisons.map(item => item.stops), 'lowest')],
+    ['layovers', pickBest(comparisons.map(item => item.layoverMinutes), 'lowest')],
+    ['departure', []],
+    ['arrival', pickBest(comparisons.map(getArrivalMillis), 'lowest')],
+    ['checkedBags', pickBest(comparisons.map(item => item.checkedBags), 'highest')],
+    ['fareType', []],
+    ['seatsLeft', pickBest(comparisons.map(item => item.seatsLeft), 'highest')],
+    // More time to buy before the fare can no longer be ticketed
+    ['ticketingDeadline', pickBest(
+      comparisons.map(item => (item.lastTicketingDate ? Date.parse(item.lastTicketingDate.slice(0, 10)) : null)),
+      'highest',
+    )],
+  ];
+  return rows.map(([key, bestIndexes]) => ({ key, bestIndexes }));
+};
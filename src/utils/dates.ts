@@ -0,0 +1,35 @@
+// Helpers for the YYYY-MM-DD dates used in search requests
+
+// A Date as YYYY-MM-DD in the device's time zone
+export const toDateString = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Shift a YYYY-MM-DD date by whole days; UTC math avoids DST surprises
+export const addDays = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+// Minutes in an ISO 8601 duration such as PT5H30M or P1DT2H
+export const parseDurationMinutes = (duration: string): number | null => {
+  const match = duration.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+  if (!match) {
+    return null;
+  }
+  return Number(match[1] || 0) * 24 * 60 + Number(match[2] || 0) * 60 + Number(match[3] || 0);
+};
+
+// Minutes between two airport-local times such as 2026-12-01T08:30:00.
+// Exact when both are at the same airport, as with a layover.
+export const getMinutesBetween = (from: string, to: string): number => {
+  return (Date.parse(`${to.slice(0, 19)}Z`) - Date.parse(`${from.slice(0, 19)}Z`)) / 60000;
+};
+
+// Calendar days from one local date-time to another, e.g. 1 for an overnight arrival
+export const getDayOffset = (from: string, to: string): number => {
+  return Math.round(getMinutesBetween(`${from.slice(0, 10)}T00:00:00`, `${to.slice(0, 10)}T00:00:00`) / (24 * 60));
+};
@@ -0,0 +1,93 @@
+import { FlightOffer } from '../types/flight';
+
+export interface FareFee {
+  type: string;
+  amount: number;
+}
+
+// Everyone of one traveler type, e.g. two adults
+export interface TravelerFareGroup {
+  travelerType: string;
+  count: number;
+  perTraveler: number;
+  subtotal: number;
+}
+
+export interface FareBreakdown {
+  currency: string;
+  base: number;
+  fees: FareFee[];
+  // Whatever the total holds beyond the base fare and the listed fees
+  taxes: number;
+  total: number;
+  // Total plus any extras the backend priced in, e.g. paid bags
+  grandTotal: number;
+  travelerGroups: TravelerFareGroup[];
+}
+
+// Work in cents so the parts add up to the total
+const toCents = (amount?: string) => Math.round(parseFloat(amount || '0') * 100) || 0;
+const fromCents = (cents: number) => cents / 100;
+
+const TRAVELER_TYPE_ORDER = ['ADULT', 'SENIOR', 'YOUNG', 'STUDENT', 'CHILD', 'SEATED_INFANT', 'HELD_INFANT'];
+
+export const getFareBreakdown = (offer: FlightOffer): FareBreakdown => {
+  const { price } = offer;
+  const base = toCents(price.base);
+  const total = toCents(price.total);
+  const fees = (price.fees || [])
+    .map(fee => ({ type: fee.type, amount: toCents(fee.amount) }))
+    .filter(fee => fee.amount > 0);
+  const feeTotal = fees.reduce((sum, fee) => sum + fee.amount, 0);
+
+  const groups = new Map<string, { count: number; cents: number }>();
+  (offer.travelerPricings || []).forEach(pricing => {
+    const group = groups.get(pricing.travelerType) || { count: 0, cents: 0 };
+    group.count += 1;
+    group.cents += toCents(pricing.price.total);
+    groups.set(pricing.travelerType, group);
+  });
+
+  const rank = (travelerType: string) => {
+    const index = TRAVELER_TYPE_ORDER.indexOf(travelerType);
+    return index === -1 ? TRAVELER_TYPE_ORDER.length : index;
+  };
+
+  return {
+    currency: price.currency,
+    base: fromCents(base),
+    fees: fees.map(fee => ({ type: fee.type, amount: fromCents(fee.amount) })),
+    taxes: fromCents(Math.max(0, total - base - feeTotal)),
+    total: fromCents(total),
+    grandTotal: fromCents(toCents(price.grandTotal) || total),
+    travelerGroups: Array.from(groups.entries())
+      .sort(([a], [b]) => rank(a) - rank(b))
+      .map(([travelerType, group]) => ({
+        travelerType,
+        count: group.count,
+        perTraveler: fromCents(Math.round(group.cents / group.count)),
+        subtotal: fromCents(group.cents),
+      })),
+  };
+};
+
+// What the whole booking costs: the grand total, which includes extras the
+// backend priced in, or the fare total when there is none. Prices shown,
+// sorted, compared and tracked all use this figure.
+export const getOfferTotal = (offer: FlightOffer): number =>
+  parseFloat(offer.price.grandTotal || offer.price.total);
+
+// What one traveler pays: exact when everyone pays the same fare, otherwise
+// the average across the party
+export const getPricePerPerson = (offer: FlightOffer): { amount: number; isAverage: boolean } => {
+  const breakdown = getFareBreakdown(offer);
+  const travelers = breakdown.travelerGroups.reduce((sum, group) => sum + group.count, 0);
+  if (travelers <= 1) {
+    return { amount: breakdown.grandTotal, isAverage: false };
+  }
+  const fares = new Set((offer.travelerPricings || []).map(pricing => toCents(pricing.price.total)));
+  return {
+    amount: fromCents(Math.round((breakdown.grandTotal * 100) / travelers)),
+    isAverage: fares.size > 1,
+  };
+};
@@ -0,0 +1,29 @@
+import { AIRCRAFT_NAMES, AIRLINE_NAMES, AIRPORT_CITY_CODES, CITY_NAMES } from '../config/flightNames';
+import { FlightDictionaries } from '../types/flight';
+
+// Dictionaries spell names in capitals ("BRITISH AIRWAYS"); keep codes
+// such as "US" and model numbers such as "A320NEO" or "777-300ER" as they are
+const tidyName = (name: string): string => {
+  return name
+    .split(' ')
+    .map(word => (/^[A-Z]{3,}$/.test(word) ? word.charAt(0) + word.slice(1).toLowerCase() : word))
+    .join(' ');
+};
+
+// Curated names read better than the dictionary's capitals, so they come
+// first; the response dictionary covers everything else
+export const getCarrierName = (carrierCode: string, dictionaries?: FlightDictionaries): string => {
+  const fromResponse = dictionaries?.carriers?.[carrierCode];
+  return AIRLINE_NAMES[carrierCode] || (fromResponse ? tidyName(fromResponse) : carrierCode);
+};
+
+export const getAircraftName = (aircraftCode: string, dictionaries?: FlightDictionaries): string => {
+  const fromResponse = dictionaries?.aircraft?.[aircraftCode];
+  return AIRCRAFT_NAMES[aircraftCode] || (fromResponse ? tidyName(fromResponse) : aircraftCode);
+};
+
+// City an airport serves, e.g. "New York" for JFK, or null if unknown
+export const getCityName = (iataCode: string, dictionaries?: FlightDictionaries): string | null => {
+  const cityCode = dictionaries?.locations?.[iataCode]?.cityCode || AIRPORT_CITY_CODES[iataCode] || iataCode;
+  return CITY_NAMES[cityCode] || null;
+};
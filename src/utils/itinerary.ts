@@ -0,0 +1,52 @@
+import { FareDetailsBySegment, FlightOffer, Itinerary } from '../types/flight';
+import { getDayOffset, getMinutesBetween } from './dates';
+
+// Time on the ground between two segments of an itinerary
+export interface Layover {
+  // Where the inbound flight lands and the next one leaves; they differ
+  // when the connection needs a transfer, e.g. LHR to LGW
+  arrivalAirport: string;
+  departureAirport: string;
+  minutes: number;
+  // The next flight leaves on a later day than the previous one landed
+  isOvernight: boolean;
+  arrivalTerminal?: string;
+  departureTerminal?: string;
+  isTerminalChange: boolean;
+}
+
+export const getLayovers = (itinerary: Itinerary): Layover[] => {
+  return itinerary.segments.slice(1).map((segment, index) => {
+    const previous = itinerary.segments[index];
+    const arrivalTerminal = previous.arrival.terminal;
+    const departureTerminal = segment.departure.terminal;
+    return {
+      arrivalAirport: previous.arrival.iataCode,
+      departureAirport: segment.departure.iataCode,
+      minutes: getMinutesBetween(previous.arrival.at, segment.departure.at),
+      isOvernight: getDayOffset(previous.arrival.at, segment.departure.at) > 0,
+      arrivalTerminal,
+      departureTerminal,
+      isTerminalChange: previous.arrival.iataCode === segment.departure.iataCode
+        && !!arrivalTerminal
+        && !!departureTerminal
+        && arrivalTerminal !== departureTerminal,
+    };
+  });
+};
+
+// Fare details for one segment; every traveler flies the same cabin, so the
+// first traveler's pricing speaks for the booking
+export const getSegmentFareDetails = (offer: FlightOffer, segmentId: string): FareDetailsBySegment | undefined => {
+  return offer.travelerPricings?.[0]?.fareDetailsBySegment?.find(details => details.segmentId === segmentId);
+};
+
+// 135 as "2h 15m"
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const remainder = Math.round(minutes % 60);
+  if (hours === 0) {
+    return `${remainder}m`;
+  }
+  return remainder === 0 ? `${hours}h` : `${hours}h ${remainder}m`;
+};
@@ -0,0 +1,52 @@
+// Minimal JWT helpers. Tokens are only decoded, never verified, on the client.
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+// Decode base64url to a UTF-8 string (atob is not guaranteed on every JS engine we run on)
+const decodeBase64Url = (segment: string): string => {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of segment.replace(/[=]+$/, '')) {
+    const value = BASE64_ALPHABET.indexOf(char === '+' ? '-' : char === '/' ? '_' : char);
+    if (value === -1) {
+      throw new Error('Invalid base64url character');
+    }
+    buffer = buffer * 64 + value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push(Math.floor(buffer / 2 ** bits));
+      buffer %= 2 ** bits;
+    }
+  }
+
+  return decodeURIComponent(bytes.map(byte => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+};
+
+// Read the payload of a JWT, or null when the token is not a JWT
+export const decodeJwtPayload = (token: string): Record<string, any> | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(decodeBase64Url(parts[1]));
+  } catch {
+    return null;
+  }
+};
+
+// Expiry of a JWT in epoch milliseconds, or null when it has no `exp` claim
+export const getTokenExpiry = (token: string): number | null => {
+  const payload = decodeJwtPayload(token);
+  return typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+};
+
+// Whether the token expires within `marginMs` from now
+export const isTokenExpiring = (token: string, marginMs: number = 0, now: number = Date.now()): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - marginMs <= now;
+};
@@ -0,0 +1,19 @@
+// Device locale as a BCP 47 tag such as "en-GB", if the runtime exposes one
+export const getDeviceLocale = (): string | null => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().locale || null;
+  } catch {
+    return null;
+  }
+};
+
+// Split a locale into the market and country the flight search expects.
+// Locales without a region (e.g. "fr") have no country to price for.
+export const getMarketFromLocale = (locale: string | null): { market: string; countryCode: string } | null => {
+  const match = locale?.match(/^([a-z]{2,3})(?:-[A-Za-z]{4})?-([A-Z]{2})\b/i);
+  if (!match) {
+    return null;
+  }
+  const countryCode = match[2].toUpperCase();
+  return { market: `${match[1].toLowerCase()}-${countryCode}`, countryCode };
+};
@@ -0,0 +1,49 @@
+import { AIRLINE_ALLIANCES, ALLIANCE_NAMES, LOYALTY_PROGRAM_NAMES } from '../config/loyaltyPrograms';
+import { FlightOffer } from '../types/flight';
+import { Alliance, FrequentFlyerNumber } from '../types/traveler';
+import { getCarrierName } from './flightNames';
+
+export const getAlliance = (airlineCode: string): Alliance | null => {
+  return AIRLINE_ALLIANCES[airlineCode.toUpperCase()] || null;
+};
+
+// "British Airways Executive Club · oneworld", or just the airline name
+export const describeLoyaltyProgram = (airlineCode: string): string => {
+  const code = airlineCode.toUpperCase();
+  const alliance = getAlliance(code);
+  const program = LOYALTY_PROGRAM_NAMES[code];
+  const name = program ? `${getCarrierName(code)} ${program}` : getCarrierName(code);
+  return alliance ? `${name} · ${ALLIANCE_NAMES[alliance]}` : name;
+};
+
+// Whether a program earns miles on flights sold by the carrier: its own
+// airline or any airline of the same alliance
+export const earnsMilesOn = (membership: FrequentFlyerNumber, carrierCode: string): boolean => {
+  const programAirline = membership.airlineCode.toUpperCase();
+  const alliance = getAlliance(programAirline);
+  return programAirline === carrierCode || (alliance !== null && alliance === getAlliance(carrierCode));
+};
+
+const getSegmentCarriers = (offer: FlightOffer): string[] => {
+  return offer.itineraries.flatMap(itinerary => itinerary.segments.map(segment => segment.carrierCode));
+};
+
+// Memberships that earn on at least one flight of the offer, those that
+// cover the most flights first
+export const getEarningMemberships = (
+  offer: FlightOffer,
+  memberships: FrequentFlyerNumber[],
+): FrequentFlyerNumber[] => {
+  const carriers = getSegmentCarriers(offer);
+  const coverage = (membership: FrequentFlyerNumber) =>
+    carriers.filter(carrierCode => earnsMilesOn(membership, carrierCode)).length;
+  return memberships
+    .filter(membership => coverage(membership) > 0)
+    .sort((a, b) => coverage(b) - coverage(a));
+};
+
+// Whether every flight of the offer earns on one of the memberships
+export const earnsMilesOnEveryFlight = (offer: FlightOffer, memberships: FrequentFlyerNumber[]): boolean => {
+  return memberships.length > 0 && getSegmentCarriers(offer).every(carrierCode =>
+    memberships.some(membership => earnsMilesOn(membership, carrierCode)));
+};
@@ -0,0 +1,295 @@
+import { FlightOffer, FlightSearchRequest } from '../types/flight';
+import {
+  ResultFilterCounts,
+  ResultFilters,
+  ResultSortKey,
+  ResultView,
+  StopsOption,
+  TimeWindow,
+} from '../types/filters';
+import { FrequentFlyerNumber } from '../types/traveler';
+import { getMinutesBetween } from './dates';
+import { getOfferTotal } from './fares';
+import { earnsMilesOnEveryFlight } from './loyalty';
+import { getItineraryMinutes } from './time';
+
+export const DEFAULT_RESULT_FILTERS: ResultFilters = {
+  maxPrice: null,
+  maxDurationMinutes: null,
+  maxLayoverMinutes: null,
+  departureWindows: [],
+  arrivalWindows: [],
+  stops: [],
+  carriers: [],
+  cabins: [],
+  checkedBagsOnly: false,
+  earnsMilesOnly: false,
+};
+
+export const DEFAULT_RESULT_VIEW: ResultView = {
+  filters: DEFAULT_RESULT_FILTERS,
+  sortKey: 'recommended',
+};
+
+export const TIME_WINDOWS: TimeWindow[] = ['early_morning', 'morning', 'afternoon', 'evening'];
+export const STOPS_OPTIONS: StopsOption[] = [0, 1, 2];
+
+const CABIN_ORDER = ['ECONOMY', 'PREMIUM_ECONOMY', 'BUSINESS', 'FIRST'];
+const DURATION_STEPS_HOURS = [2, 3, 4, 6, 8, 10, 12, 16, 20, 24, 36, 48];
+const LAYOVER_STEPS_HOURS = [1, 2, 3, 4, 6, 8, 12];
+const MAX_STEPS = 4;
+
+// What the filters look at for one offer
+interface OfferFacets {
+  offer: FlightOffer;
+  price: number;
+  // Longest single itinerary, so a round trip is not judged by its total
+  durationMinutes: number;
+  // Longest connection anywhere in the offer, 0 when every flight is direct
+  layoverMinutes: number;
+  // Time windows and sort times follow the first itinerary
+  departureAt: string;
+  arrivalAt: string;
+  departureWindow: TimeWindow;
+  arrivalWindow: TimeWindow;
+  stops: StopsOption;
+  carriers: string[];
+  cabins: string[];
+  hasCheckedBags: boolean;
+}
+
+const getTimeWindow = (dateTime: string): TimeWindow => {
+  const hour = Number(dateTime.slice(11, 13));
+  if (hour < 6) return 'early_morning';
+  if (hour < 12) return 'morning';
+  if (hour < 18) return 'afternoon';
+  return 'evening';
+};
+
+const unique = <T>(values: T[]): T[] => Array.from(new Set(values));
+
+export const getOfferFacets = (offer: FlightOffer): OfferFacets => {
+  const firstItinerary = offer.itineraries[0];
+  const firstSegment = firstItinerary.segments[0];
+  const lastSegment = firstItinerary.segments[firstItinerary.segments.length - 1];
+
+  // Unknown durations count as 0 rather than hiding the offer
+  const durationMinutes = Math.max(...offer.itineraries.map(itinerary => getItineraryMinutes(itinerary) ?? 0));
+
+  const layoverMinutes = Math.max(0, ...offer.itineraries.flatMap(itinerary =>
+    itinerary.segments.slice(1).map((segment, index) =>
+      getMinutesBetween(itinerary.segments[index].arrival.at, segment.departure.at),
+    ),
+  ));
+
+  const stops = Math.min(2, Math.max(...offer.itineraries.map(itinerary => itinerary.segments.length - 1)));
+  const fareDetails = (offer.travelerPricings || []).flatMap(pricing => pricing.fareDetailsBySegment || []);
+
+  return {
+    offer,
+    price: getOfferTotal(offer),
+    durationMinutes,
+    layoverMinutes,
+    departureAt: firstSegment.departure.at,
+    arrivalAt: lastSegment.arrival.at,
+    departureWindow: getTimeWindow(firstSegment.departure.at),
+    arrivalWindow: getTimeWindow(lastSegment.arrival.at),
+    stops: stops as StopsOption,
+    carriers: unique([
+      ...(offer.validatingAirlineCodes || []),
+      ...offer.itineraries.flatMap(itinerary => itinerary.segments.map(segment => segment.carrierCode)),
+    ]),
+    cabins: unique(fareDetails.map(details => details.cabin).filter(Boolean)),
+    // Every traveler needs a bag on every flight
+    hasCheckedBags: fareDetails.length > 0
+      && fareDetails.every(details => (details.includedCheckedBags?.quantity || 0) > 0),
+  };
+};
+
+// Whether the offer passes every filter, optionally ignoring one of them.
+// The miles filter checks against the user's loyalty memberships.
+const matchesFilters = (
+  facets: OfferFacets,
+  filters: ResultFilters,
+  memberships: FrequentFlyerNumber[],
+  ignore?: keyof ResultFilters,
+): boolean => {
+  const check = (key: keyof ResultFilters, passes: () => boolean) => key === ignore || passes();
+  const includesAny = (selected: string[], values: string[]) =>
+    selected.length === 0 || values.some(value => selected.includes(value));
+
+  return check('maxPrice', () => filters.maxPrice === null || facets.price <= filters.maxPrice)
+    && check('maxDurationMinutes', () =>
+      filters.maxDurationMinutes === null || facets.durationMinutes <= filters.maxDurationMinutes)
+    && check('maxLayoverMinutes', () =>
+      filters.maxLayoverMinutes === null || facets.layoverMinutes <= filters.maxLayoverMinutes)
+    && check('departureWindows', () => includesAny(filters.departureWindows, [facets.departureWindow]))
+    && check('arrivalWindows', () => includesAny(filters.arrivalWindows, [facets.arrivalWindow]))
+    && check('stops', () => filters.stops.length === 0 || filters.stops.includes(facets.stops))
+    && check('carriers', () => includesAny(filters.carriers, facets.carriers))
+    && check('cabins', () => includesAny(filters.cabins, facets.cabins))
+    && check('checkedBagsOnly', () => !filters.checkedBagsOnly || facets.hasCheckedBags)
+    && check('earnsMilesOnly', () => !filters.earnsMilesOnly || earnsMilesOnEveryFlight(facets.offer, memberships));
+};
+
+const compareFacets = (sortKey: ResultSortKey, scores: Record<string, number>) => (
+  a: OfferFacets,
+  b: OfferFacets,
+): number => {
+  switch (sortKey) {
+    case 'best':
+      return (scores[b.offer.id] ?? 0) - (scores[a.offer.id] ?? 0) || a.price - b.price;
+    case 'price':
+      return a.price - b.price;
+    case 'duration':
+      return a.durationMinutes - b.durationMinutes || a.price - b.price;
+    case 'departure':
+      return a.departureAt.localeCompare(b.departureAt) || a.price - b.price;
+    case 'arrival':
+      return a.arrivalAt.localeCompare(b.arrivalAt) || a.price - b.price;
+    default:
+      return 0;
+  }
+};
+
+// Filter and order the offers; "best" needs the offers' scores and the
+// miles filter the user's loyalty memberships
+export const applyResultView = (
+  offers: FlightOffer[],
+  view: ResultView,
+  scores: Record<string, number> = {},
+  memberships: FrequentFlyerNumber[] = [],
+): FlightOffer[] => {
+  return offers
+    .map(getOfferFacets)
+    .filter(facets => matchesFilters(facets, view.filters, memberships))
+    .sort(compareFacets(view.sortKey, scores))
+    .map(facets => facets.offer);
+};
+
+export const countActiveFilters = (filters: ResultFilters): number => {
+  return [
+    filters.maxPrice !== null,
+    filters.maxDurationMinutes !== null,
+    filters.maxLayoverMinutes !== null,
+    filters.departureWindows.length > 0,
+    filters.arrivalWindows.length > 0,
+    filters.stops.length > 0,
+    filters.carriers.length > 0,
+    filters.cabins.length > 0,
+    filters.checkedBagsOnly,
+    filters.earnsMilesOnly,
+  ].filter(Boolean).length;
+};
+
+// Up to MAX_STEPS values spread across the list
+const pickSteps = (values: number[]): number[] => {
+  if (values.length <= MAX_STEPS) {
+    return values;
+  }
+  return unique(Array.from({ length: MAX_STEPS }, (_, index) =>
+    values[Math.round((index * (values.length - 1)) / (MAX_STEPS - 1))],
+  ));
+};
+
+// Keep a saved limit on offer even when these results would not suggest it
+const withSelected = (steps: number[], selected: number | null): number[] => {
+  return selected === null || steps.includes(selected)
+    ? steps
+    : [...steps, selected].sort((a, b) => a - b);
+};
+
+export interface ResultFilterOptions {
+  priceSteps: number[];
+  durationSteps: number[];
+  layoverSteps: number[];
+  carriers: string[];
+  cabins: string[];
+}
+
+// Values worth offering for these offers: limits that would remove
+// something, and every carrier and cabin that appears
+export const getFilterOptions = (offers: FlightOffer[], filters: ResultFilters): ResultFilterOptions => {
+  const facetsList = offers.map(getOfferFacets);
+  const prices = facetsList.map(facets => facets.price).filter(price => !isNaN(price));
+  const durations = facetsList.map(facets => facets.durationMinutes);
+  const layovers = facetsList.map(facets => facets.layoverMinutes);
+
+  let priceSteps: number[] = [];
+  if (prices.length > 1) {
+    const minPrice = Math.min(...prices);
+    const maxPrice = Math.max(...prices);
+    priceSteps = unique([0.25, 0.5, 0.75].map(share => Math.ceil((minPrice + (maxPrice - minPrice) * share) / 10) * 10))
+      .filter(step => step < maxPrice);
+  }
+
+  const minDuration = Math.min(...durations);
+  const maxDuration = Math.max(...durations);
+  const durationSteps = DURATION_STEPS_HOURS
+    .map(hours => hours * 60)
+    .filter(minutes => minutes >= minDuration && minutes < maxDuration);
+
+  const maxLayover = Math.max(0, ...layovers);
+  const layoverSteps = LAYOVER_STEPS_HOURS
+    .map(hours => hours * 60)
+    .filter(minutes => minutes < maxLayover);
+
+  const cabins = unique([...facetsList.flatMap(facets => facets.cabins), ...filters.cabins]);
+
+  return {
+    priceSteps: withSelected(priceSteps, filters.maxPrice),
+    durationSteps: withSelected(pickSteps(durationSteps), filters.maxDurationMinutes),
+    layoverSteps: withSelected(pickSteps(layoverSteps), filters.maxLayoverMinutes),
+    carriers: unique([...facetsList.flatMap(facets => facets.carriers), ...filters.carriers]).sort(),
+    cabins: cabins.sort((a, b) => {
+      const rank = (cabin: string) => (CABIN_ORDER.includes(cabin) ? CABIN_ORDER.indexOf(cabin) : CABIN_ORDER.length);
+      return rank(a) - rank(b) || a.localeCompare(b);
+    }),
+  };
+};
+
+// For every option, how many offers would be left if it were picked with
+// the other filters unchanged
+export const getFilterCounts = (
+  offers: FlightOffer[],
+  filters: ResultFilters,
+  options: ResultFilterOptions,
+  memberships: FrequentFlyerNumber[] = [],
+): ResultFilterCounts => {
+  const facetsList = offers.map(getOfferFacets);
+  const without = (key: keyof ResultFilters) =>
+    facetsList.filter(facets => matchesFilters(facets, filters, memberships, key));
+
+  const countBy = <K extends string | number>(
+    key: keyof ResultFilters,
+    values: K[],
+    matches: (facets: OfferFacets, value: K) => boolean,
+  ): Record<K, number> => {
+    const candidates = without(key);
+    return values.reduce((counts, value) => {
+      counts[value] = candidates.filter(facets => matches(facets, value)).length;
+      return counts;
+    }, {} as Record<K, number>);
+  };
+
+  return {
+    price: countBy('maxPrice', options.priceSteps, (facets, step) => facets.price <= step),
+    duration: countBy('maxDurationMinutes', options.durationSteps, (facets, step) => facets.durationMinutes <= step),
+    layover: countBy('maxLayoverMinutes', options.layoverSteps, (facets, step) => facets.layoverMinutes <= step),
+    departureWindows: countBy('departureWindows', TIME_WINDOWS, (facets, window) => facets.departureWindow === window),
+    arrivalWindows: countBy('arrivalWindows', TIME_WINDOWS, (facets, window) => facets.arrivalWindow === window),
+    stops: countBy('stops', STOPS_OPTIONS, (facets, stops) => facets.stops === stops),
+    carriers: countBy('carriers', options.carriers, (facets, carrier) => facets.carriers.includes(carrier)),
+    cabins: countBy('cabins', options.cabins, (facets, cabin) => facets.cabins.includes(cabin)),
+    checkedBags: without('checkedBagsOnly').filter(facets => facets.hasCheckedBags).length,
+    earnsMiles: without('earnsMilesOnly')
+      .filter(facets => earnsMilesOnEveryFlight(facets.offer, memberships)).length,
+  };
+};
+
+// Saved filters apply to the same airports whatever the dates or travelers
+export const getRouteKey = (searchRequest: FlightSearchRequest): string => {
+  return (searchRequest.legs || [searchRequest])
+    .map(leg => `${leg.originLocationCode}-${leg.destinationLocationCode}`)
+    .join(',');
+};
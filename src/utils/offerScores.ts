@@ -0,0 +1,92 @@
+import { FlightOffer } from '../types/flight';
+import { TimeWindow } from '../types/filters';
+import { ScoreWeights } from '../types/preferences';
+import { getOfferFacets } from './offerFilters';
+
+export const MAX_SCORE_WEIGHT = 3;
+
+// Price matters most, then time in the air, then the rest
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  price: 3,
+  duration: 2,
+  stops: 1,
+  departureTime: 1,
+};
+
+export interface ScoreSettings {
+  weights: ScoreWeights;
+  preferredDepartureWindows: TimeWindow[];
+}
+
+type OfferFacets = ReturnType<typeof getOfferFacets>;
+
+export type OfferBadge = 'best' | 'cheapest' | 'fastest';
+
+// The standout offers of a result set, null when there are none
+export interface ResultSummary {
+  best: FlightOffer | null;
+  cheapest: FlightOffer | null;
+  fastest: FlightOffer | null;
+}
+
+// 0 for the lowest value in the set up to 1 for the highest
+const spread = (value: number, min: number, max: number): number => {
+  return max > min ? (value - min) / (max - min) : 0;
+};
+
+// Scores from 0 to 100 by offer id, higher is better. Each factor is ranked
+// against the other offers of the same search, so scores from different
+// searches do not compare.
+export const scoreOffers = (offers: FlightOffer[], settings: ScoreSettings): Record<string, number> => {
+  const facetsList = offers.map(getOfferFacets);
+  const prices = facetsList.map(facets => facets.price).filter(price => !isNaN(price));
+  const durations = facetsList.map(facets => facets.durationMinutes);
+  const { weights, preferredDepartureWindows } = settings;
+  const totalWeight = weights.price + weights.duration + weights.stops + weights.departureTime;
+
+  return facetsList.reduce<Record<string, number>>((scores, facets) => {
+    // Unknown prices rank with the dearest
+    const pricePenalty = isNaN(facets.price) ? 1 : spread(facets.price, Math.min(...prices), Math.max(...prices));
+    const durationPenalty = spread(facets.durationMinutes, Math.min(...durations), Math.max(...durations));
+    const stopsPenalty = facets.stops / 2;
+    const departurePenalty = preferredDepartureWindows.length === 0
+      || preferredDepartureWindows.includes(facets.departureWindow) ? 0 : 1;
+
+    const penalty = totalWeight === 0 ? 0 : (
+      weights.price * pricePenalty
+      + weights.duration * durationPenalty
+      + weights.stops * stopsPenalty
+      + weights.departureTime * departurePenalty
+    ) / totalWeight;
+    scores[facets.offer.id] = Math.round((1 - penalty) * 100);
+    return scores;
+  }, {});
+};
+
+// Cheapest, fastest and best offers, with ties going to the one that does
+// better on price, then duration
+export const getResultSummary = (offers: FlightOffer[], scores: Record<string, number>): ResultSummary => {
+  const facetsList = offers.map(getOfferFacets).filter(facets => !isNaN(facets.price));
+  if (facetsList.length === 0) {
+    return { best: null, cheapest: null, fastest: null };
+  }
+
+  const pick = (compare: (a: OfferFacets, b: OfferFacets) => number) => {
+    return facetsList.reduce((best, facets) => (compare(facets, best) < 0 ? facets : best)).offer;
+  };
+  const byPrice = (a: OfferFacets, b: OfferFacets) =>
+    a.price - b.price || a.durationMinutes - b.durationMinutes;
+  const byDuration = (a: OfferFacets, b: OfferFacets) =>
+    a.durationMinutes - b.durationMinutes || a.price - b.price;
+
+  return {
+    best: pick((a, b) => (scores[b.offer.id] ?? 0) - (scores[a.offer.id] ?? 0) || byPrice(a, b)),
+    cheapest: pick(byPrice),
+    fastest: pick(byDuration),
+  };
+};
+
+// Badges an offer earns within its result set
+export const getOfferBadges = (offer: FlightOffer, summary: ResultSummary): OfferBadge[] => {
+  return (['best', 'cheapest', 'fastest'] as OfferBadge[]).filter(badge => summary[badge] === offer);
+};
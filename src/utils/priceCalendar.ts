@@ -0,0 +1,46 @@
+import { PriceCalendarDay, PriceLevel } from '../types/flight';
+import { addDays, toDateString } from './dates';
+
+// Airlines sell seats up to about a year ahead
+export const MAX_DAYS_AHEAD = 355;
+
+// Last day a flight can be picked for, counted from today
+export const getLatestBookableDate = (today: string = toDateString(new Date())): string => {
+  return addDays(today, MAX_DAYS_AHEAD);
+};
+
+// Price a share of the way through the sorted prices, rounding towards the
+// middle so a few days never all land at the ends of the scale
+const quantile = (sortedPrices: number[], share: number): number => {
+  const position = (sortedPrices.length - 1) * share;
+  return sortedPrices[share < 0.5 ? Math.floor(position) : Math.ceil(position)];
+};
+
+// Cheapest third of the priced days, dearest third and the rest, by date.
+// Days without a price get no level, and neither does anything when every
+// known price is the same.
+export const getPriceLevels = (days: PriceCalendarDay[]): Record<string, PriceLevel> => {
+  const sortedPrices = days
+    .map(day => day.price)
+    .filter((price): price is number => price !== null)
+    .sort((a, b) => a - b);
+  if (sortedPrices.length === 0 || sortedPrices[0] === sortedPrices[sortedPrices.length - 1]) {
+    return {};
+  }
+
+  const cheapUpTo = quantile(sortedPrices, 1 / 3);
+  const expensiveFrom = quantile(sortedPrices, 2 / 3);
+  return days.reduce<Record<string, PriceLevel>>((levels, day) => {
+    if (day.price === null) {
+      return levels;
+    }
+    if (day.price <= cheapUpTo) {
+      levels[day.date] = 'cheap';
+    } else if (day.price >= expensiveFrom) {
+      levels[day.date] = 'expensive';
+    } else {
+      levels[day.date] = 'average';
+    }
+    return levels;
+  }, {});
+};
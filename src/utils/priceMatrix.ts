@@ -0,0 +1,42 @@
+import { FlightOffer, PriceMatrix, PriceMatrixCell } from '../types/flight';
+import { addDays } from './dates';
+import { getOfferTotal } from './fares';
+
+export const FLEXIBLE_DAY_OPTIONS = [1, 2, 3];
+
+// The requested date and flexDays on either side, in order
+export const getFlexibleDates = (date: string, flexDays: number): string[] => {
+  const dates: string[] = [];
+  for (let offset = -flexDays; offset <= flexDays; offset++) {
+    dates.push(addDays(date, offset));
+  }
+  return dates;
+};
+
+// Lowest total across the offers, with its currency
+export const getLowestPrice = (offers: FlightOffer[]): { price: number; currency: string } | null => {
+  return offers.reduce<{ price: number; currency: string } | null>((lowest, offer) => {
+    const price = getOfferTotal(offer);
+    if (isNaN(price) || (lowest && lowest.price <= price)) {
+      return lowest;
+    }
+    return { price, currency: offer.price.currency };
+  }, null);
+};
+
+export const getMatrixCell = (
+  matrix: Pick<PriceMatrix, 'cells'>,
+  departureDate: string,
+  returnDate?: string,
+): PriceMatrixCell | undefined => {
+  return matrix.cells.find(cell => cell.departureDate === departureDate && cell.returnDate === returnDate);
+};
+
+export const getCheapestCell = (cells: PriceMatrixCell[]): PriceMatrixCell | undefined => {
+  return cells.reduce<PriceMatrixCell | undefined>((cheapest, cell) => {
+    if (cell.price === undefined || (cheapest?.price !== undefined && cheapest.price <= cell.price)) {
+      return cheapest;
+    }
+    return cell;
+  }, undefined);
+};
@@ -0,0 +1,102 @@
+import { FieldError } from '../api/errors';
+import { FlightSearchRequest } from '../types/flight';
+import { FareAlertReason, FareAlertRules, PricePoint, TrackedFare } from '../types/priceTracking';
+import { toDateString } from './dates';
+
+// Foregrounding the app checks a fare again at most this often
+export const PRICE_CHECK_INTERVAL_MS = 3 * 60 * 60 * 1000;
+export const MAX_PRICE_HISTORY = 60;
+export const DEFAULT_ALERT_RULES: FareAlertRules = { belowPrice: null, dropPercent: 10 };
+
+const MAX_DROP_PERCENT = 90;
+
+// Same search, dates and travelers, plus the flight for 'offer' fares
+export const getTrackingKey = (searchRequest: FlightSearchRequest, offerKey?: string): string => {
+  const legs = (searchRequest.legs || [searchRequest])
+    .map(leg => `${leg.originLocationCode}-${leg.destinationLocationCode}-${leg.departureDate}`)
+    .join(',');
+  return [
+    legs,
+    searchRequest.legs ? '' : searchRequest.returnDate || '',
+    `${searchRequest.adults}.${searchRequest.children || 0}.${searchRequest.infants || 0}`,
+    searchRequest.travelClass || 'ECONOMY',
+    offerKey || '',
+  ].join('|');
+};
+
+// Last known price, skipping checks that found nothing on sale
+export const getLatestPrice = (fare: TrackedFare): number | null => {
+  const point = [...fare.history].reverse().find(entry => entry.price !== null);
+  return point ? point.price : null;
+};
+
+export const isPriceCheckDue = (fare: TrackedFare, now: number = Date.now()): boolean => {
+  const lastCheck = fare.history[fare.history.length - 1];
+  return !lastCheck || now - Date.parse(lastCheck.checkedAt) >= PRICE_CHECK_INTERVAL_MS;
+};
+
+// Fares whose first flight has left can no longer be bought
+export const hasDeparted = (fare: TrackedFare, today: string = toDateString(new Date())): boolean => {
+  const firstDate = fare.searchRequest.legs ? fare.searchRequest.legs[0].departureDate : fare.searchRequest.departureDate;
+  return firstDate < today;
+};
+
+// Why a newly found price deserves an alert. The price has to cross under
+// belowPrice, so staying under it does not alert again, and has to fall
+// dropPercent under the reference price.
+export const getAlertReasons = (fare: TrackedFare, price: number | null): FareAlertReason[] => {
+  if (price === null) {
+    return [];
+  }
+  const reasons: FareAlertReason[] = [];
+  const { belowPrice, dropPercent } = fare.rules;
+  const previousPrice = getLatestPrice(fare);
+  if (belowPrice !== null && price < belowPrice && (previousPrice === null || previousPrice >= belowPrice)) {
+    reasons.push('below_price');
+  }
+  if (dropPercent !== null && fare.referencePrice !== null
+    && price <= fare.referencePrice * (1 - dropPercent / 100)) {
+    reasons.push('price_drop');
+  }
+  return reasons;
+};
+
+// Add a check's result to the history. An alert moves the reference price
+// down, so the next percentage alert needs a further drop.
+export const recordPrice = (
+  fare: TrackedFare,
+  price: number | null,
+  checkedAt: string = new Date().toISOString(),
+): { fare: TrackedFare; reasons: FareAlertReason[] } => {
+  const reasons = getAlertReasons(fare, price);
+  const point: PricePoint = { checkedAt, price };
+  return {
+    fare: {
+      ...fare,
+      history: [...fare.history, point].slice(-MAX_PRICE_HISTORY),
+      referencePrice: reasons.length > 0 || fare.referencePrice === null ? price : fare.referencePrice,
+    },
+    reasons,
+  };
+};
+
+// Percentage from the first known price to the latest, negative when cheaper
+export const getPriceChangePercent = (fare: TrackedFare): number | null => {
+  const first = fare.history.find(entry => entry.price !== null)?.price;
+  const latest = getLatestPrice(fare);
+  if (!first || latest === null) {
+    return null;
+  }
+  return ((latest - first) / first) * 100;
+};
+
+export const validateAlertRules = (rules: FareAlertRules): FieldError[] => {
+  const fieldErrors: FieldError[] = [];
+  if (rules.belowPrice !== null && !(rules.belowPrice > 0)) {
+    fieldErrors.push({ path: 'belowPrice', message: 'Enter a price above zero' });
+  }
+  if (rules.dropPercent !== null && !(rules.dropPercent >= 1 && rules.dropPercent <= MAX_DROP_PERCENT)) {
+    fieldErrors.push({ path: 'dropPercent', message: `Enter a drop between 1 and ${MAX_DROP_PERCENT}%` });
+  }
+  return fieldErrors;
+};
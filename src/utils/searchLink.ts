@@ -0,0 +1,335 @@
+import { FieldError } from '../api/errors';
+import { MULTI_CITY_MAX_LEGS, MULTI_CITY_MIN_LEGS } from '../services/flightService';
+import { FlightOffer, FlightSearchLeg, FlightSearchRequest, FlightSortOrder } from '../types/flight';
+import { toDateString } from './dates';
+import { getOfferTotal } from './fares';
+import { isValidDate } from './travelers';
+
+// Shared links use the https form so they also open without the app installed
+export const SEARCH_LINK_BASE_URL = 'https://gflights.app/search';
+
+export type SearchLinkResult =
+  // offerKey identifies a shared flight within the results
+  | { status: 'valid'; searchRequest: FlightSearchRequest; offerKey?: string }
+  // Whatever could be read is kept so the search form can be prefilled
+  | { status: 'invalid'; prefill: Partial<FlightSearchRequest>; fieldErrors: FieldError[] };
+
+const SORT_ORDERS: FlightSortOrder[] = ['best', 'cheapest', 'fastest'];
+
+const TRAVEL_CLASSES: NonNullable<FlightSearchRequest['travelClass']>[] = [
+  'ECONOMY',
+  'PREMIUM_ECONOMY',
+  'BUSINESS',
+  'FIRST',
+];
+
+const MAX_TRAVELERS = 9;
+const AIRPORT_CODE_PATTERN = /^[A-Z0-9]{3,8}$/;
+
+// Split "a=1&b=two" into a map; RN's URLSearchParams is incomplete
+export const parseQueryString = (query: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+  query.replace(/^\?/, '').split('&').forEach(pair => {
+    if (!pair) {
+      return;
+    }
+    const [key, ...rest] = pair.split('=');
+    try {
+      params[decodeURIComponent(key)] = decodeURIComponent(rest.join('=').replace(/\+/g, ' '));
+    } catch {
+      // Malformed escapes are treated as missing
+    }
+  });
+  return params;
+};
+
+const parseCount = (value: string | undefined, fallback: number): number | null => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  return /^\d+$/.test(value) ? Number(value) : null;
+};
+
+// Multi-city legs are written as "JFK.LHR.2026-12-01~LHR.CDG.2026-12-05",
+// optionally followed by the origin and destination entity IDs per leg
+const parseLegs = (value: string, today: string, fieldErrors: FieldError[]): FlightSearchLeg[] | null => {
+  const parts = value.split('~');
+  if (parts.length < MULTI_CITY_MIN_LEGS || parts.length > MULTI_CITY_MAX_LEGS) {
+    fieldErrors.push({
+      path: 'legs',
+      message: `Multi-city links need between ${MULTI_CITY_MIN_LEGS} and ${MULTI_CITY_MAX_LEGS} flights`,
+    });
+    return null;
+  }
+
+  const legs: FlightSearchLeg[] = [];
+  parts.forEach((part, index) => {
+    const [origin = '', destination = '', departureDate = '', originEntityId, destinationEntityId] = part.split('.');
+    const leg: FlightSearchLeg = {
+      originLocationCode: origin.toUpperCase(),
+      destinationLocationCode: destination.toUpperCase(),
+      departureDate,
+      originEntityId: originEntityId || undefined,
+      destinationEntityId: destinationEntityId || undefined,
+    };
+    const previousLeg = legs[index - 1];
+
+    if (!AIRPORT_CODE_PATTERN.test(leg.originLocationCode) || !AIRPORT_CODE_PATTERN.test(leg.destinationLocationCode)) {
+      fieldErrors.push({ path: `legs.${index}.originLocationCode`, message: `Flight ${index + 1} in the link is missing its airports` });
+    } else if (leg.originLocationCode === leg.destinationLocationCode) {
+      fieldErrors.push({ path: `legs.${index}.destinationLocationCode`, message: `Flight ${index + 1} starts and ends at the same airport` });
+    } else if (!isValidDate(departureDate)) {
+      fieldErrors.push({ path: `legs.${index}.departureDate`, message: `Flight ${index + 1} in the link has no valid date` });
+    } else if (departureDate < today) {
+      fieldErrors.push({ path: `legs.${index}.departureDate`, message: `The date of flight ${index + 1} in the link has already passed` });
+    } else if (previousLeg && departureDate < previousLeg.departureDate) {
+      fieldErrors.push({ path: `legs.${index}.departureDate`, message: `Flight ${index + 1} cannot depart before flight ${index}` });
+    }
+    legs.push(leg);
+  });
+  return legs;
+};
+
+// Turn the query of a search link into a FlightSearchRequest.
+// Accepts from, to, depart, return (or legs for multi-city), adults, children,
+// infants, cabin, sort, currency, the optional fromId/toId entity IDs and the shared offer key.
+// Market and country are not shared; the recipient searches in their own.
+export const parseSearchLink = (params: Record<string, string>, now: Date = new Date()): SearchLinkResult => {
+  const fieldErrors: FieldError[] = [];
+  const prefill: Partial<FlightSearchRequest> = {};
+  const today = toDateString(now);
+
+  if (params.legs) {
+    const legs = parseLegs(params.legs, today, fieldErrors);
+    if (legs) {
+      prefill.legs = legs;
+      Object.assign(prefill, legs[0]);
+    }
+  } else {
+    const origin = (params.from || '').trim().toUpperCase();
+    const destination = (params.to || '').trim().toUpperCase();
+    if (!AIRPORT_CODE_PATTERN.test(origin)) {
+      fieldErrors.push({ path: 'originLocationCode', message: 'The link is missing a valid origin airport' });
+    } else {
+      prefill.originLocationCode = origin;
+      prefill.originEntityId = params.fromId || undefined;
+    }
+    if (!AIRPORT_CODE_PATTERN.test(destination)) {
+      fieldErrors.push({ path: 'destinationLocationCode', message: 'The link is missing a valid destination airport' });
+    } else if (destination === origin) {
+      fieldErrors.push({ path: 'destinationLocationCode', message: 'Origin and destination cannot be the same' });
+    } else {
+      prefill.destinationLocationCode = destination;
+      prefill.destinationEntityId = params.toId || undefined;
+    }
+
+    const departureDate = params.depart || '';
+    if (!isValidDate(departureDate)) {
+      fieldErrors.push({ path: 'departureDate', message: 'The link is missing a valid departure date' });
+    } else if (departureDate < today) {
+      fieldErrors.push({ path: 'departureDate', message: 'The departure date in the link has already passed' });
+    } else {
+      prefill.departureDate = departureDate;
+    }
+
+    const returnDate = params.return;
+    if (returnDate) {
+      if (!isValidDate(returnDate)) {
+        fieldErrors.push({ path: 'returnDate', message: 'The return date in the link is not a valid date' });
+      } else if (prefill.departureDate && returnDate < prefill.departureDate) {
+        fieldErrors.push({ path: 'returnDate', message: 'The return date must be after the departure date' });
+      } else if (returnDate >= today) {
+        prefill.returnDate = returnDate;
+      }
+    }
+  }
+
+  const adults = parseCount(params.adults, 1);
+  const children = parseCount(params.children, 0);
+  const infants = parseCount(params.infants, 0);
+  if (adults === null || adults < 1 || adults > MAX_TRAVELERS) {
+    fieldErrors.push({ path: 'adults', message: `Adults must be between 1 and ${MAX_TRAVELERS}` });
+  } else {
+    prefill.adults = adults;
+  }
+  if (children === null || (adults !== null && adults + children > MAX_TRAVELERS)) {
+    fieldErrors.push({ path: 'children', message: `No more than ${MAX_TRAVELERS} seated travelers per search` });
+  } else {
+    prefill.children = children;
+  }
+  if (infants === null || (adults !== null && infants > adults)) {
+    fieldErrors.push({ path: 'infants', message: 'Each infant must travel with an adult' });
+  } else {
+    prefill.infants = infants;
+  }
+
+  if (params.cabin) {
+    const cabin = params.cabin.toUpperCase() as FlightSearchRequest['travelClass'];
+    if (cabin && TRAVEL_CLASSES.includes(cabin)) {
+      prefill.travelClass = cabin;
+    } else {
+      fieldErrors.push({ path: 'travelClass', message: `Unknown cabin "${params.cabin}"` });
+    }
+  }
+
+  if (params.sort) {
+    const sortBy = params.sort.toLowerCase() as FlightSortOrder;
+    if (SORT_ORDERS.includes(sortBy)) {
+      prefill.sortBy = sortBy;
+    } else {
+      fieldErrors.push({ path: 'sortBy', message: `Unknown sort order "${params.sort}"` });
+    }
+  }
+
+  if (params.currency) {
+    if (/^[A-Za-z]{3}$/.test(params.currency)) {
+      prefill.currencyCode = params.currency.toUpperCase();
+    } else {
+      fieldErrors.push({ path: 'currencyCode', message: `Unknown currency "${params.currency}"` });
+    }
+  }
+
+  if (fieldErrors.length > 0) {
+    return { status: 'invalid', prefill, fieldErrors };
+  }
+
+  return {
+    status: 'valid',
+    offerKey: params.offer || undefined,
+    searchRequest: {
+      ...prefill,
+      originLocationCode: prefill.originLocationCode || '',
+      destinationLocationCode: prefill.destinationLocationCode || '',
+      departureDate: prefill.departureDate || '',
+      adults: prefill.adults || 1,
+      travelClass: prefill.travelClass || 'ECONOMY',
+    },
+  };
+};
+
+// Offer IDs only live as long as one search, so a shared flight is identified
+// by its flight numbers and departure times, e.g. "BA178-202612010830~BA179-202612081015"
+export const getOfferKey = (offer: FlightOffer): string => {
+  return offer.itineraries
+    .map(itinerary => itinerary.segments
+      .map(segment => `${segment.carrierCode}${segment.number}-${segment.departure.at.slice(0, 16).replace(/[-:T]/g, '')}`)
+      .join('.'))
+    .join('~');
+};
+
+const formatLeg = (leg: FlightSearchLeg): string => {
+  const parts = [leg.originLocationCode, leg.destinationLocationCode, leg.departureDate];
+  if (leg.originEntityId && leg.destinationEntityId) {
+    parts.push(leg.originEntityId, leg.destinationEntityId);
+  }
+  return parts.join('.');
+};
+
+// Build a link that parseSearchLink turns back into the same search.
+// Default values are left out to keep the link short.
+export const buildSearchLink = (searchRequest: FlightSearchRequest, offer?: FlightOffer): string => {
+  const legs = searchRequest.legs;
+  const routeParams: [string, string | undefined][] = legs
+    ? [['legs', legs.map(formatLeg).join('~')]]
+    : [
+      ['from', searchRequest.originLocationCode],
+      ['to', searchRequest.destinationLocationCode],
+      ['depart', searchRequest.departureDate],
+      ['return', searchRequest.returnDate || undefined],
+    ];
+  const params: [string, string | number | undefined][] = [
+    ...routeParams,
+    ['adults', searchRequest.adults > 1 ? searchRequest.adults : undefined],
+    ['children', searchRequest.children || undefined],
+    ['infants', searchRequest.infants || undefined],
+    ['cabin', searchRequest.travelClass && searchRequest.travelClass !== 'ECONOMY' ? searchRequest.travelClass : undefined],
+    ['sort', searchRequest.sortBy && searchRequest.sortBy !== 'best' ? searchRequest.sortBy : undefined],
+    ['currency', searchRequest.currencyCode],
+    ['fromId', legs ? undefined : searchRequest.originEntityId],
+    ['toId', legs ? undefined : searchRequest.destinationEntityId],
+    ['offer', offer ? getOfferKey(offer) : undefined],
+  ];
+
+  const query = params
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return `${SEARCH_LINK_BASE_URL}?${query}`;
+};
+
+const TRAVEL_CLASS_LABELS: Record<NonNullable<FlightSearchRequest['travelClass']>, string> = {
+  ECONOMY: 'Economy',
+  PREMIUM_ECONOMY: 'Premium Economy',
+  BUSINESS: 'Business',
+  FIRST: 'First',
+};
+
+// "Mon, Dec 1" for a YYYY-MM-DD date, independent of the device time zone
+const formatLinkDate = (date: string): string => {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+// "JFK → LHR", or "JFK → LHR → CDG → JFK" for a multi-city trip
+export const describeRoute = (searchRequest: FlightSearchRequest): string => {
+  const legs = searchRequest.legs;
+  if (!legs || legs.length === 0) {
+    return `${searchRequest.originLocationCode} → ${searchRequest.destinationLocationCode}`;
+  }
+  // Open-jaw trips do not chain, so list each leg
+  const isChained = legs.every((leg, index) => index === 0 || leg.originLocationCode === legs[index - 1].destinationLocationCode);
+  return isChained
+    ? [legs[0].originLocationCode, ...legs.map(leg => leg.destinationLocationCode)].join(' → ')
+    : legs.map(leg => `${leg.originLocationCode} → ${leg.destinationLocationCode}`).join(', ');
+};
+
+const describeSearch = (searchRequest: FlightSearchRequest): string => {
+  const travelers = searchRequest.adults + (searchRequest.children || 0) + (searchRequest.infants || 0);
+  const lastDate = searchRequest.legs
+    ? searchRequest.legs[searchRequest.legs.length - 1].departureDate
+    : searchRequest.returnDate;
+  const dates = lastDate
+    ? `${formatLinkDate(searchRequest.departureDate)} – ${formatLinkDate(lastDate)}`
+    : formatLinkDate(searchRequest.departureDate);
+  return [
+    describeRoute(searchRequest),
+    dates,
+    `${travelers} traveler${travelers > 1 ? 's' : ''}`,
+    TRAVEL_CLASS_LABELS[searchRequest.travelClass || 'ECONOMY'],
+  ].join(' · ');
+};
+
+// Text for the share sheet when sharing a whole search
+export const buildSearchShareMessage = (searchRequest: FlightSearchRequest): string => {
+  return `Flights ${describeSearch(searchRequest)}\n${buildSearchLink(searchRequest)}`;
+};
+
+// Text for the share sheet when sharing one flight: one line per itinerary plus the price
+export const buildOfferShareMessage = (
+  searchRequest: FlightSearchRequest,
+  offer: FlightOffer,
+  getCarrierName: (carrierCode: string) => string = carrierCode => carrierCode,
+): string => {
+  const itineraryLines = offer.itineraries.map(itinerary => {
+    const firstSegment = itinerary.segments[0];
+    const lastSegment = itinerary.segments[itinerary.segments.length - 1];
+    const stops = itinerary.segments.length - 1;
+    const flightNumbers = itinerary.segments.map(segment => `${segment.carrierCode}${segment.number}`).join(', ');
+    return [
+      `${firstSegment.departure.iataCode} → ${lastSegment.arrival.iataCode} ${formatLinkDate(firstSegment.departure.at.slice(0, 10))}`,
+      `${firstSegment.departure.at.slice(11, 16)}–${lastSegment.arrival.at.slice(11, 16)}`,
+      stops === 0 ? 'Direct' : `${stops} stop${stops > 1 ? 's' : ''}`,
+      `${getCarrierName(firstSegment.carrierCode)} ${flightNumbers}`,
+    ].join(' · ');
+  });
+
+  return [
+    ...itineraryLines,
+    `${getOfferTotal(offer).toFixed(2)} ${offer.price.currency} · ${describeSearch(searchRequest)}`,
+    buildSearchLink(searchRequest, offer),
+  ].join('\n');
+};
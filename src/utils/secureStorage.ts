@@ -0,0 +1,24 @@
+import * as Keychain from 'react-native-keychain';
+
+// Strings kept in the iOS Keychain or the Android Keystore rather than plain
+// AsyncStorage, for details such as passport numbers. Each key is its own entry.
+
+export const getSecureItem = async (key: string): Promise<string | null> => {
+  const credentials = await Keychain.getGenericPassword({ service: key });
+  return credentials ? credentials.password : null;
+};
+
+export const setSecureItem = async (key: string, value: string): Promise<void> => {
+  const result = await Keychain.setGenericPassword(key, value, {
+    service: key,
+    // Left out of backups and never synced to other devices
+    accessible: Keychain.ACCESSIBLE.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+  });
+  if (!result) {
+    throw new Error(`Could not save ${key} to secure storage`);
+  }
+};
+
+export const removeSecureItem = async (key: string): Promise<void> => {
+  await Keychain.resetGenericPassword({ service: key });
+};
@@ -0,0 +1,125 @@
+// Flight times are airport-local: "2026-12-01T08:30:00" at JFK is 08:30 in
+// New York wherever the phone is. These helpers read them that way and only
+// use time zones when two clocks have to be compared.
+import { AIRPORT_TIME_ZONES } from '../config/airportTimeZones';
+import { Airport, Itinerary, Location, Segment } from '../types/flight';
+import { parseDurationMinutes } from './dates';
+
+type AirportTime = Pick<Location, 'iataCode' | 'at'>;
+
+// Fixed UTC offsets, in minutes, reported by airport searches for airports
+// missing from the bundled table
+const searchedOffsets = new Map<string, number>();
+
+const parseOffset = (offset: string): number | null => {
+  const match = offset.match(/^([+-])(\d{2}):?(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+};
+
+// Keep the timeZoneOffset of searched airports for later lookups
+export const rememberAirportTimeZones = (airports: Pick<Airport, 'iataCode' | 'timeZoneOffset'>[]): void => {
+  airports.forEach(airport => {
+    const offset = airport.iataCode && airport.timeZoneOffset ? parseOffset(airport.timeZoneOffset) : null;
+    if (offset !== null) {
+      searchedOffsets.set(airport.iataCode, offset);
+    }
+  });
+};
+
+// How far a zone's clock was ahead of UTC at an instant, in minutes
+const getZoneOffsetMinutes = (timeZone: string, utcMillis: number): number | null => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(new Date(utcMillis));
+    const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+    // Some engines print midnight as hour 24
+    const clock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+    return Math.round((clock - utcMillis) / 60000);
+  } catch {
+    return null;
+  }
+};
+
+// The instant an airport-local time refers to, or null when the airport's
+// time zone is unknown
+export const toUtcMillis = ({ iataCode, at }: AirportTime): number | null => {
+  // Times that carry their own offset need no lookup
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(at.slice(19))) {
+    return Date.parse(at);
+  }
+
+  const clock = Date.parse(`${at.slice(0, 19)}Z`);
+  const timeZone = AIRPORT_TIME_ZONES[iataCode];
+  if (timeZone) {
+    const offset = getZoneOffsetMinutes(timeZone, clock);
+    if (offset !== null) {
+      // Check the offset at the resulting instant too, in case a DST change
+      // falls between the two
+      const corrected = getZoneOffsetMinutes(timeZone, clock - offset * 60000);
+      return clock - (corrected ?? offset) * 60000;
+    }
+  }
+
+  const offset = searchedOffsets.get(iataCode);
+  return offset === undefined ? null : clock - offset * 60000;
+};
+
+// Real time between two airport-local times, or null without both time zones
+export const getElapsedMinutes = (from: AirportTime, to: AirportTime): number | null => {
+  const start = toUtcMillis(from);
+  const end = toUtcMillis(to);
+  return start === null || end === null ? null : Math.round((end - start) / 60000);
+};
+
+// Flight time as the backend reports it, else worked out from the two clocks
+export const getSegmentMinutes = (segment: Segment): number | null => {
+  return parseDurationMinutes(segment.duration || '') ?? getElapsedMinutes(segment.departure, segment.arrival);
+};
+
+// Door-to-door time of an itinerary, layovers included
+export const getItineraryMinutes = (itinerary: Itinerary): number | null => {
+  const firstSegment = itinerary.segments[0];
+  const lastSegment = itinerary.segments[itinerary.segments.length - 1];
+  return parseDurationMinutes(itinerary.duration || '')
+    ?? getElapsedMinutes(firstSegment.departure, lastSegment.arrival);
+};
+
+// "08:30" as the airport's clock reads it
+export const formatLocalTime = (at: string): string => at.slice(11, 16);
+
+// "Tue, Dec 1" for the airport's calendar date
+export const formatLocalDate = (at: string): string => {
+  return new Date(`${at.slice(0, 10)}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+// "GMT-5" or "GMT+5:30" for the airport at that moment, when known
+export const getUtcOffsetLabel = (time: AirportTime): string | null => {
+  const utc = toUtcMillis(time);
+  if (utc === null) {
+    return null;
+  }
+  const offset = Math.round((Date.parse(`${time.at.slice(0, 19)}Z`) - utc) / 60000);
+  if (offset === 0) {
+    return 'GMT';
+  }
+  const hours = Math.floor(Math.abs(offset) / 60);
+  const minutes = Math.abs(offset) % 60;
+  return `GMT${offset < 0 ? '-' : '+'}${hours}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+};
@@ -0,0 +1,209 @@
+import { FieldError } from '../api/errors';
+import { BookingContact, BookingTraveler, FlightOffer } from '../types/flight';
+import { TravelerProfileDraft } from '../types/traveler';
+import { toDateString } from './dates';
+import { getEarningMemberships } from './loyalty';
+
+export const TRAVELER_TYPE_LABELS: Record<string, string> = {
+  ADULT: 'Adult',
+  SENIOR: 'Senior',
+  YOUNG: 'Young adult',
+  STUDENT: 'Student',
+  CHILD: 'Child',
+  SEATED_INFANT: 'Infant (own seat)',
+  HELD_INFANT: 'Infant (on lap)',
+};
+
+// Airline age bands: children are 2 to 11, anyone older flies as an adult
+const CHILD_MIN_AGE = 2;
+const ADULT_MIN_AGE = 12;
+const INFANT_TYPES = ['HELD_INFANT', 'SEATED_INFANT'];
+
+// Names are ticketed in Latin letters, as printed on the passport
+export const NAME_PATTERN = /^[A-Za-z][A-Za-z' -]*$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// One empty traveler per traveler pricing of the offer
+export const createBookingTravelers = (offer: FlightOffer): BookingTraveler[] => {
+  return (offer.travelerPricings || []).map(pricing => ({
+    id: pricing.travelerId,
+    travelerType: pricing.travelerType,
+    firstName: '',
+    lastName: '',
+    dateOfBirth: '',
+    gender: null,
+  }));
+};
+
+export const isValidDate = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  // Rejects dates such as 2026-02-30 that Date would roll over
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+// Completed years between two YYYY-MM-DD dates
+export const getAgeOn = (dateOfBirth: string, date: string): number => {
+  const years = Number(date.slice(0, 4)) - Number(dateOfBirth.slice(0, 4));
+  return date.slice(5, 10) < dateOfBirth.slice(5, 10) ? years - 1 : years;
+};
+
+// Problems with the travelers' details, with paths such as
+// "travelers.0.dateOfBirth". Ages are checked on the first flight, except
+// infants, who must still be under 2 on the last one.
+export const validateTravelers = (
+  travelers: BookingTraveler[],
+  offer: FlightOffer,
+  today: string = toDateString(new Date()),
+): FieldError[] => {
+  const lastItinerary = offer.itineraries[offer.itineraries.length - 1];
+  const firstFlightDate = offer.itineraries[0].segments[0].departure.at.slice(0, 10);
+  const lastFlightDate = lastItinerary.segments[lastItinerary.segments.length - 1].departure.at.slice(0, 10);
+
+  return travelers.flatMap((traveler, index) => {
+    const fieldErrors: FieldError[] = [];
+    const addError = (field: keyof BookingTraveler, message: string) => {
+      fieldErrors.push({ path: `travelers.${index}.${field}`, message });
+    };
+
+    (['firstName', 'lastName'] as const).forEach(field => {
+      const name = traveler[field].trim();
+      if (!name) {
+        addError(field, field === 'firstName' ? 'First name is required' : 'Last name is required');
+      } else if (!NAME_PATTERN.test(name)) {
+        addError(field, 'Use Latin letters as printed on the passport');
+      }
+    });
+
+    if (!traveler.gender) {
+      addError('gender', 'Gender is required');
+    }
+
+    const { dateOfBirth } = traveler;
+    if (!dateOfBirth) {
+      addError('dateOfBirth', 'Date of birth is required');
+    } else if (!isValidDate(dateOfBirth)) {
+      addError('dateOfBirth', 'Enter the date as YYYY-MM-DD');
+    } else if (dateOfBirth > today) {
+      addError('dateOfBirth', 'Date of birth cannot be in the future');
+    } else if (INFANT_TYPES.includes(traveler.travelerType)) {
+      if (getAgeOn(dateOfBirth, lastFlightDate) >= CHILD_MIN_AGE) {
+        addError('dateOfBirth', `Infants must be under ${CHILD_MIN_AGE} for the whole trip`);
+      }
+    } else if (traveler.travelerType === 'CHILD') {
+      const age = getAgeOn(dateOfBirth, firstFlightDate);
+      if (age < CHILD_MIN_AGE) {
+        addError('dateOfBirth', `Children must be at least ${CHILD_MIN_AGE} on the day of travel`);
+      } else if (age >= ADULT_MIN_AGE) {
+        addError('dateOfBirth', `Travelers ${ADULT_MIN_AGE} or older fly as adults`);
+      }
+    } else if (getAgeOn(dateOfBirth, firstFlightDate) < ADULT_MIN_AGE) {
+      addError('dateOfBirth', `Adults must be at least ${ADULT_MIN_AGE} on the day of travel`);
+    }
+
+    const loyaltyPrograms = traveler.loyaltyPrograms || [];
+    if (getEarningMemberships(offer, loyaltyPrograms).length < loyaltyPrograms.length) {
+      addError('loyaltyPrograms', 'Some programs do not earn miles on these flights');
+    } else if (new Set(loyaltyPrograms.map(membership => membership.airlineCode)).size < loyaltyPrograms.length) {
+      addError('loyaltyPrograms', 'Add only one number per program');
+    }
+
+    return fieldErrors;
+  });
+};
+
+// Problems with the contact details, with paths such as "contact.email"
+export const validateContact = (contact: BookingContact): FieldError[] => {
+  const fieldErrors: FieldError[] = [];
+  if (!EMAIL_PATTERN.test(contact.email.trim())) {
+    fieldErrors.push({ path: 'contact.email', message: 'Enter a valid email address' });
+  }
+  if (!/^\d{1,3}$/.test(contact.phoneCountryCode.trim().replace(/^\+/, ''))) {
+    fieldErrors.push({ path: 'contact.phoneCountryCode', message: 'Enter a country code such as 44' });
+  }
+  if (!/^\d{6,15}$/.test(contact.phoneNumber.replace(/[\s()-]/g, ''))) {
+    fieldErrors.push({ path: 'contact.phoneNumber', message: 'Enter a phone number of 6 to 15 digits' });
+  }
+  return fieldErrors;
+};
+
+// Problems with a saved profile, with paths such as "passportNumber" or
+// "frequentFlyerNumbers.0.number". Only the name and date of birth are
+// required; documents can be added later.
+export const validateTravelerProfile = (
+  profile: TravelerProfileDraft,
+  today: string = toDateString(new Date()),
+): FieldError[] => {
+  const fieldErrors: FieldError[] = [];
+  const addError = (path: string, message: string) => {
+    fieldErrors.push({ path, message });
+  };
+
+  (['firstName', 'lastName'] as const).forEach(field => {
+    const name = profile[field].trim();
+    if (!name) {
+      addError(field, field === 'firstName' ? 'First name is required' : 'Last name is required');
+    } else if (!NAME_PATTERN.test(name)) {
+      addError(field, 'Use Latin letters as printed on the passport');
+    }
+  });
+
+  if (!profile.dateOfBirth) {
+    addError('dateOfBirth', 'Date of birth is required');
+  } else if (!isValidDate(profile.dateOfBirth)) {
+    addError('dateOfBirth', 'Enter the date as YYYY-MM-DD');
+  } else if (profile.dateOfBirth > today) {
+    addError('dateOfBirth', 'Date of birth cannot be in the future');
+  }
+
+  const passportNumber = profile.passportNumber.trim();
+  if (passportNumber && !/^[A-Z0-9]{5,20}$/i.test(passportNumber)) {
+    addError('passportNumber', 'Use 5 to 20 letters and digits');
+  }
+  if (profile.passportExpiry && !isValidDate(profile.passportExpiry)) {
+    addError('passportExpiry', 'Enter the date as YYYY-MM-DD');
+  } else if (passportNumber && !profile.passportExpiry) {
+    addError('passportExpiry', 'Expiry date is required with a passport number');
+  }
+  if (profile.nationality.trim() && !/^[A-Z]{2}$/i.test(profile.nationality.trim())) {
+    addError('nationality', 'Use a two-letter country code such as GB');
+  }
+  if (profile.knownTravelerNumber.trim() && !/^[A-Z0-9]{8,10}$/i.test(profile.knownTravelerNumber.trim())) {
+    addError('knownTravelerNumber', 'Use 8 to 10 letters and digits');
+  }
+
+  const airlines = new Set<string>();
+  profile.frequentFlyerNumbers.forEach((membership, index) => {
+    const airlineCode = membership.airlineCode.trim().toUpperCase();
+    if (!/^[A-Z0-9]{2}$/.test(airlineCode)) {
+      addError(`frequentFlyerNumbers.${index}.airlineCode`, 'Use the two-character airline code, e.g. BA');
+    } else if (airlines.has(airlineCode)) {
+      addError(`frequentFlyerNumbers.${index}.airlineCode`, 'Only one number per airline');
+    }
+    airlines.add(airlineCode);
+    if (!/^[A-Z0-9]{4,20}$/i.test(membership.number.trim())) {
+      addError(`frequentFlyerNumbers.${index}.number`, 'Use 4 to 20 letters and digits');
+    }
+  });
+
+  return fieldErrors;
+};
+
+// Whether a saved profile's date of birth fits the traveler type on this offer
+export const isProfileEligible = (
+  profile: TravelerProfileDraft,
+  travelerType: string,
+  offer: FlightOffer,
+): boolean => {
+  const candidate: BookingTraveler = {
+    id: '1',
+    travelerType,
+    firstName: profile.firstName,
+    lastName: profile.lastName,
+    dateOfBirth: profile.dateOfBirth,
+    gender: profile.gender,
+  };
+  return !validateTravelers([candidate], offer).some(fieldError => fieldError.path.endsWith('.dateOfBirth'));
+};